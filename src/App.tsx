@@ -1,21 +1,53 @@
-import { useState, useEffect } from 'react'
-import type { Book, Author } from './types/api'
-import { useBooks, useAuthors } from './hooks/useAPI'
+import { useState, useEffect, useRef } from 'react'
+import type { Book, Author, Publisher } from './types/api'
+import { useBookPages, useAuthors, usePublishers } from './hooks/useAPI'
 import { useToast } from './hooks/useToast'
+import { useOnlineStatus } from './hooks/useOnlineStatus'
+import { useLiveUpdates } from './hooks/useLiveUpdates'
+import { useTabSync } from './hooks/useTabSync'
 import { ParallaxBackground } from './components/ParallaxBackground'
 import { LoadingScreen } from './components/LoadingScreen'
 import { Hero } from './components/Hero'
 import { Navigation } from './components/Navigation'
 import { BooksSection } from './components/BooksSection'
+import type { BookQuery } from './components/BooksSection'
 import { AuthorsSection } from './components/AuthorsSection'
 import { Footer } from './components/Footer'
 import { BookDetailModal } from './components/BookDetailModal'
 import { BookFormModal } from './components/BookFormModal'
 import { AuthorDetailModal } from './components/AuthorDetailModal'
 import { AuthorFormModal } from './components/AuthorFormModal'
+import { PublishersSection } from './components/PublishersSection'
+import { PublisherDetailModal } from './components/PublisherDetailModal'
+import { PublisherFormModal } from './components/PublisherFormModal'
 import { ToastContainer } from './components/Toast'
+import { WakeUpBanner } from './components/WakeUpBanner'
+import { OfflineBanner } from './components/OfflineBanner'
+import { LoginModal } from './components/LoginModal'
+import { BackendSettingsModal } from './components/BackendSettingsModal'
+import { NetworkInspector } from './components/NetworkInspector'
+import { BulkImportModal } from './components/BulkImportModal'
+import type { BackendProfile } from './services/backendProfiles'
+import { entityStore } from './services/entityStore'
+import type { TabChange } from './services/tabSync'
+import { undoableDeletes, UNDO_POLICY } from './services/undoableDeletes'
+import type { EntityKind } from './services/entityStore'
 import './App.css'
 
+const OFFLINE_NOTE = 'It will sync when you are back online 📴'
+
+const TAB_CHANGE_NOUNS: Record<TabChange['kind'], string> = {
+  books: 'Book',
+  authors: 'Author',
+  publishers: 'Publisher',
+}
+
+const TAB_CHANGE_VERBS: Record<TabChange['action'], string> = {
+  created: 'added',
+  updated: 'updated',
+  deleted: 'deleted',
+}
+
 function App() {
   const [isLoading, setIsLoading] = useState(true)
   const [selectedBookId, setSelectedBookId] = useState<number | null>(null)
@@ -26,9 +58,18 @@ function App() {
   const [isAuthorModalOpen, setIsAuthorModalOpen] = useState(false)
   const [editingAuthor, setEditingAuthor] = useState<Author | null>(null)
   const [isAuthorFormModalOpen, setIsAuthorFormModalOpen] = useState(false)
+  const [selectedPublisherId, setSelectedPublisherId] = useState<number | null>(null)
+  const [isPublisherModalOpen, setIsPublisherModalOpen] = useState(false)
+  const [editingPublisher, setEditingPublisher] = useState<Publisher | null>(null)
+  const [isPublisherFormModalOpen, setIsPublisherFormModalOpen] = useState(false)
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false)
+  const [isBulkImportOpen, setIsBulkImportOpen] = useState(false)
 
   // Toast notifications
-  const { toasts, removeToast, success, error } = useToast()
+  const { toasts, removeToast, success, info, error } = useToast()
+
+  // Offline changes are queued in the outbox instead of being confirmed
+  const isOnline = useOnlineStatus()
 
   // Hide scrollbar during loading
   useEffect(() => {
@@ -52,11 +93,27 @@ function App() {
     };
   }, [isLoading]);
 
-  // Fetch books and authors ONCE at app level - prevent duplicate API calls
-  const { data: books, loading: booksLoading, error: booksError, refetch: refetchBooks } = useBooks()
-  const { data: authors, loading: authorsLoading, error: authorsError, refetch: refetchAuthors } = useAuthors()
+  // Books and authors live in the shared entity store - mutations update it directly
+  // The book catalog is paged server-side - BooksSection reports its search/sort here
+  const [bookQuery, setBookQuery] = useState<BookQuery>({})
+  const {
+    data: books,
+    pending: pendingBooks,
+    totalCount: booksTotal,
+    hasMore: hasMoreBooks,
+    loading: booksLoading,
+    loadingMore: booksLoadingMore,
+    error: booksError,
+    loadMore: loadMoreBooks,
+    refetch: refetchBooks,
+  } = useBookPages(bookQuery)
+  const { data: authors, pending: pendingAuthors, loading: authorsLoading, error: authorsError } = useAuthors()
+  const { data: publishers, loading: publishersLoading, error: publishersError } = usePublishers()
+  const { newBooks, showNewBooks } = useLiveUpdates()
+  const { lastChange: tabChange } = useTabSync()
+  const handledTabChangeRef = useRef<TabChange | null>(null)
 
-  const handleNavigate = (section: 'hero' | 'books' | 'authors' | 'about') => {
+  const handleNavigate = (section: 'hero' | 'books' | 'authors' | 'publishers' | 'about') => {
     // Scroll to appropriate section (no need to manage activeLayer - ParallaxBackground handles it automatically)
     let targetSection: Element | null = null;
     if (section === 'hero') {
@@ -65,6 +122,8 @@ function App() {
       targetSection = document.querySelector('.books-section');
     } else if (section === 'authors') {
       targetSection = document.querySelector('.authors-section');
+    } else if (section === 'publishers') {
+      targetSection = document.querySelector('.publishers-section');
     } else if (section === 'about') {
       targetSection = document.getElementById('about');
     }
@@ -83,13 +142,23 @@ function App() {
     setSelectedBookId(null)
   }
 
-  const handleBookDeleted = () => {
-    // Refresh books list AND authors list
-    refetchBooks();
-    refetchAuthors();
-    setIsModalOpen(false)
-    setSelectedBookId(null)
-    success('Book deleted successfully! 🗑️')
+  // Deletes are sent after the grace period - until then the toast can undo them,
+  // and closing it with × sends the delete right away
+  const showUndoToast = (kind: EntityKind, id: number, message: string, restoredMessage: string) => {
+    success(`${message}${isOnline ? ' 🗑️' : `. ${OFFLINE_NOTE}`}`, UNDO_POLICY.gracePeriod, {
+      action: {
+        label: 'Undo',
+        onClick: () => {
+          if (undoableDeletes.undo(kind, id)) info(restoredMessage)
+        },
+      },
+      onDismiss: () => undoableDeletes.commitNow(kind, id),
+    })
+  }
+
+  // Called as soon as the book is hidden (the detail modal closes itself)
+  const handleBookDeleted = (book: Book) => {
+    showUndoToast('books', book.id, `"${book.title}" deleted`, `"${book.title}" restored ↩️`)
   }
 
   const handleEditBook = (book: Book) => {
@@ -106,22 +175,28 @@ function App() {
     setIsFormModalOpen(true);
   }
 
-  const handleFormSuccess = () => {
-    // Refresh books list AND authors list (in case new author was created/updated)
-    refetchBooks();
-    refetchAuthors();
-    setIsFormModalOpen(false);
-    
-    // If we were editing (not adding), reopen the detail modal with updated data
+  // Called as soon as the change is applied optimistically (form closes itself)
+  const handleFormSubmitted = () => {
+    // If we were editing (not adding), reopen the detail modal - the store already holds the update
     if (editingBook && selectedBookId) {
-      // Small delay to ensure refetch completes
-      setTimeout(() => {
-        setIsModalOpen(true);
-      }, 100);
+      setIsModalOpen(true);
     }
-    
-    setEditingBook(null);
-    success(editingBook ? 'Book updated successfully! ✨' : 'Book added to your library! 📚')
+  }
+
+  // Called once the server confirms the change (or it is queued offline)
+  const handleFormSuccess = (book: Book, isUpdate: boolean) => {
+    if (!isOnline || book.id < 0) {
+      info(`${isUpdate ? 'Book update' : 'New book'} saved offline. ${OFFLINE_NOTE}`)
+      return
+    }
+    success(isUpdate ? 'Book updated successfully! ✨' : 'Book added to your library! 📚')
+  }
+
+  // The server rejected fields of the (already closed) form - reopen it to show them
+  const handleFormRejected = (book: Book | null) => {
+    setIsModalOpen(false);
+    setEditingBook(book);
+    setIsFormModalOpen(true);
   }
 
   const handleCloseForm = () => {
@@ -129,6 +204,23 @@ function App() {
     setEditingBook(null);
   }
 
+  const handleOpenBulkImport = () => {
+    handleCloseForm();
+    setIsBulkImportOpen(true);
+  }
+
+  // A book already in the library that the form found while adding a duplicate
+  const handleOpenExistingBook = (book: Book) => {
+    handleCloseForm();
+    handleBookClick(book);
+  }
+
+  // A book listed in the bulk import results
+  const handleOpenImportedBook = (book: Book) => {
+    setIsBulkImportOpen(false);
+    handleBookClick(book);
+  }
+
   const handleAuthorClick = (author: Author) => {
     setSelectedAuthorId(author.id);
     setIsAuthorModalOpen(true);
@@ -147,22 +239,28 @@ function App() {
     setIsAuthorFormModalOpen(true);
   }
 
-  const handleAuthorFormSuccess = () => {
-    // Refresh authors list (and books since author names might appear in books)
-    refetchAuthors();
-    refetchBooks();
-    setIsAuthorFormModalOpen(false);
-    
-    // If we were editing (not adding), reopen the detail modal with updated data
+  // Called as soon as the change is applied optimistically (form closes itself)
+  const handleAuthorFormSubmitted = () => {
+    // If we were editing (not adding), reopen the detail modal - the store already holds the update
     if (editingAuthor && selectedAuthorId) {
-      // Small delay to ensure refetch completes
-      setTimeout(() => {
-        setIsAuthorModalOpen(true);
-      }, 100);
+      setIsAuthorModalOpen(true);
     }
-    
-    setEditingAuthor(null);
-    success(editingAuthor ? 'Author profile updated successfully! ✨' : 'Author profile created successfully! 👤')
+  }
+
+  // Called once the server confirms the change (or it is queued offline)
+  const handleAuthorFormSuccess = (author: Author, isUpdate: boolean) => {
+    if (!isOnline || author.id < 0) {
+      info(`${isUpdate ? 'Author update' : 'New author'} saved offline. ${OFFLINE_NOTE}`)
+      return
+    }
+    success(isUpdate ? 'Author profile updated successfully! ✨' : 'Author profile created successfully! 👤')
+  }
+
+  // The server rejected fields of the (already closed) form - reopen it to show them
+  const handleAuthorFormRejected = (author: Author | null) => {
+    setIsAuthorModalOpen(false);
+    setEditingAuthor(author);
+    setIsAuthorFormModalOpen(true);
   }
 
   const handleCloseAuthorForm = () => {
@@ -170,13 +268,59 @@ function App() {
     setEditingAuthor(null);
   }
 
-  const handleAuthorDeleted = () => {
-    // Refresh authors list AND books list (in case books were cascade deleted)
-    refetchAuthors();
-    refetchBooks();
-    setIsAuthorModalOpen(false);
-    setSelectedAuthorId(null);
-    success('Author deleted successfully! 🗑️')
+  // Called as soon as the author (and their books) are hidden
+  const handleAuthorDeleted = (author: Author, bookCount: number) => {
+    const books = bookCount > 0 ? ` and ${bookCount} ${bookCount === 1 ? 'book' : 'books'}` : ''
+    showUndoToast('authors', author.id, `${author.name}${books} deleted`, `${author.name}${books} restored ↩️`)
+  }
+
+  const handlePublisherClick = (publisher: Publisher) => {
+    setSelectedPublisherId(publisher.id);
+    setIsPublisherModalOpen(true);
+  }
+
+  const handleAddPublisher = () => {
+    setEditingPublisher(null);
+    setIsPublisherFormModalOpen(true);
+  }
+
+  const handleEditPublisher = (publisher: Publisher) => {
+    setSelectedPublisherId(publisher.id);
+    setEditingPublisher(publisher);
+    setIsPublisherModalOpen(false); // Close detail modal while editing
+    setIsPublisherFormModalOpen(true);
+  }
+
+  // Publisher changes are not optimistic - called once the server confirms
+  const handlePublisherFormSuccess = (_publisher: Publisher, isUpdate: boolean) => {
+    success(isUpdate ? 'Publisher updated successfully! ✨' : 'Publisher created successfully! 🏛️')
+    // Back to the detail modal after an edit
+    if (isUpdate && selectedPublisherId) {
+      setIsPublisherModalOpen(true);
+    }
+  }
+
+  const handleClosePublisherForm = () => {
+    setIsPublisherFormModalOpen(false);
+    setEditingPublisher(null);
+  }
+
+  const handlePublisherDeleted = () => {
+    success('Publisher deleted successfully! 🗑️')
+  }
+
+  const handleClosePublisherModal = () => {
+    setIsPublisherModalOpen(false);
+    setSelectedPublisherId(null);
+  }
+
+  const handleSignedIn = (displayName: string) => {
+    success(`Signed in as ${displayName} 🔑`)
+  }
+
+  // Everything from the previous backend was cleared - the sections reload on their own
+  const handleBackendSwitched = (profile: BackendProfile) => {
+    info(`Switched to ${profile.name} - reloading the catalog 🔌`)
   }
 
   const handleCloseAuthorModal = () => {
@@ -184,13 +328,82 @@ function App() {
     setSelectedAuthorId(null);
   }
 
+  // A change saved in another tab is already in the store - close whatever shows a
+  // record that is gone now (deleting an author also removes their books) and say why
+  useEffect(() => {
+    if (!tabChange || handledTabChangeRef.current === tabChange) return
+    handledTabChangeRef.current = tabChange
+
+    let closed = false
+    if (tabChange.action === 'deleted') {
+      const { books, authors, publishers } = entityStore.getState()
+      if (selectedBookId !== null && !books[selectedBookId]) {
+        closed = closed || isModalOpen
+        setIsModalOpen(false)
+        setSelectedBookId(null)
+      }
+      if (editingBook && !books[editingBook.id]) {
+        closed = closed || isFormModalOpen
+        setIsFormModalOpen(false)
+        setEditingBook(null)
+      }
+      if (selectedAuthorId !== null && !authors[selectedAuthorId]) {
+        closed = closed || isAuthorModalOpen
+        setIsAuthorModalOpen(false)
+        setSelectedAuthorId(null)
+      }
+      if (editingAuthor && !authors[editingAuthor.id]) {
+        closed = closed || isAuthorFormModalOpen
+        setIsAuthorFormModalOpen(false)
+        setEditingAuthor(null)
+      }
+      if (selectedPublisherId !== null && !publishers[selectedPublisherId]) {
+        closed = closed || isPublisherModalOpen
+        setIsPublisherModalOpen(false)
+        setSelectedPublisherId(null)
+      }
+      if (editingPublisher && !publishers[editingPublisher.id]) {
+        closed = closed || isPublisherFormModalOpen
+        setIsPublisherFormModalOpen(false)
+        setEditingPublisher(null)
+      }
+    }
+
+    const { kind, action, label } = tabChange
+    info(`${TAB_CHANGE_NOUNS[kind]} "${label}" was ${TAB_CHANGE_VERBS[action]} in another tab${closed ? ' - its window was closed' : ''} 🗂️`)
+  }, [
+    tabChange,
+    info,
+    selectedBookId,
+    isModalOpen,
+    editingBook,
+    isFormModalOpen,
+    selectedAuthorId,
+    isAuthorModalOpen,
+    editingAuthor,
+    isAuthorFormModalOpen,
+    selectedPublisherId,
+    isPublisherModalOpen,
+    editingPublisher,
+    isPublisherFormModalOpen,
+  ])
+
   return (
     <>
       {isLoading && <LoadingScreen onLoadingComplete={() => setIsLoading(false)} />}
       
       <Navigation 
         onNavigate={handleNavigate} 
-        isHidden={isModalOpen || isFormModalOpen || isAuthorModalOpen || isAuthorFormModalOpen}
+        isHidden={
+          isModalOpen ||
+          isFormModalOpen ||
+          isAuthorModalOpen ||
+          isAuthorFormModalOpen ||
+          isPublisherModalOpen ||
+          isPublisherFormModalOpen ||
+          isSettingsOpen ||
+          isBulkImportOpen
+        }
       />
       
       {/* Pass books and authors data to ParallaxBackground to prevent duplicate API calls */}
@@ -209,6 +422,15 @@ function App() {
           books={books || undefined}
           loading={booksLoading}
           error={booksError}
+          pendingBooks={pendingBooks}
+          onRetry={refetchBooks}
+          totalCount={booksTotal}
+          hasMore={hasMoreBooks}
+          loadingMore={booksLoadingMore}
+          onLoadMore={loadMoreBooks}
+          onQueryChange={setBookQuery}
+          newBooksCount={newBooks.length}
+          onShowNewBooks={showNewBooks}
         />
         
         {/* Book Detail Modal */}
@@ -225,10 +447,20 @@ function App() {
         <BookFormModal
           isOpen={isFormModalOpen}
           onClose={handleCloseForm}
+          onSubmitted={handleFormSubmitted}
           onSuccess={handleFormSuccess}
+          onRejected={handleFormRejected}
           editBook={editingBook}
           onError={error}
-          onAuthorsRefresh={refetchAuthors}
+          onOpenBulkImport={handleOpenBulkImport}
+          onOpenExisting={handleOpenExistingBook}
+        />
+
+        {/* Bulk ISBN Import (keeps running while closed) */}
+        <BulkImportModal
+          isOpen={isBulkImportOpen}
+          onClose={() => setIsBulkImportOpen(false)}
+          onOpenBook={handleOpenImportedBook}
         />
         
         {/* Authors Section */}
@@ -236,6 +468,7 @@ function App() {
           authors={authors || undefined}
           loading={authorsLoading}
           error={authorsError}
+          pendingAuthors={pendingAuthors}
           onAuthorClick={handleAuthorClick}
           onAddAuthor={handleAddAuthor}
         />
@@ -254,15 +487,63 @@ function App() {
         <AuthorFormModal
           isOpen={isAuthorFormModalOpen}
           onClose={handleCloseAuthorForm}
+          onSubmitted={handleAuthorFormSubmitted}
           onSuccess={handleAuthorFormSuccess}
+          onRejected={handleAuthorFormRejected}
           editAuthor={editingAuthor}
           onError={error}
         />
 
+        {/* Publishers Section */}
+        <PublishersSection
+          publishers={publishers || undefined}
+          loading={publishersLoading}
+          error={publishersError}
+          onPublisherClick={handlePublisherClick}
+          onAddPublisher={handleAddPublisher}
+        />
+
+        {/* Publisher Detail Modal */}
+        <PublisherDetailModal
+          publisherId={selectedPublisherId}
+          isOpen={isPublisherModalOpen}
+          onClose={handleClosePublisherModal}
+          onEdit={handleEditPublisher}
+          onDeleted={handlePublisherDeleted}
+          onError={error}
+        />
+
+        {/* Publisher Form Modal (Add/Edit) */}
+        <PublisherFormModal
+          isOpen={isPublisherFormModalOpen}
+          onClose={handleClosePublisherForm}
+          onSuccess={handlePublisherFormSuccess}
+          editPublisher={editingPublisher}
+        />
+
         {/* Footer */}
-        <Footer />
+        <Footer onOpenSettings={() => setIsSettingsOpen(true)} />
       </main>
 
+      {/* Backend profiles (switching clears the loaded data) */}
+      <BackendSettingsModal
+        isOpen={isSettingsOpen}
+        onClose={() => setIsSettingsOpen(false)}
+        onSwitch={handleBackendSwitched}
+      />
+
+      {/* Cold start indicator while the API client retries */}
+      <WakeUpBanner />
+
+      {/* Offline state, queued changes and sync conflicts */}
+      <OfflineBanner />
+
+      {/* Sign-in prompt (also opened when a session expires mid-request) */}
+      <LoginModal onSuccess={handleSignedIn} />
+
+      {/* Developer network inspector (Alt+Shift+N) */}
+      <NetworkInspector />
+
       {/* Toast Notifications */}
       <ToastContainer toasts={toasts} onClose={removeToast} />
     </>
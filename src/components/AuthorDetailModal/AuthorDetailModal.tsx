@@ -1,7 +1,8 @@
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import type { Author } from '../../types/api';
-import { authorsAPI } from '../../services/api';
+import { useAuthor, useDeleteAuthor } from '../../hooks/useAPI';
+import { useAuth } from '../../hooks/useAuth';
 import './AuthorDetailModal.scss';
 
 interface AuthorDetailModalProps {
@@ -9,61 +10,48 @@ interface AuthorDetailModalProps {
   isOpen: boolean;
   onClose: () => void;
   onEdit: (author: Author) => void;
-  onDeleted: () => void;
+  onDeleted: (author: Author, bookCount: number) => void; // Right away - the DELETE waits out the undo grace period
   onError?: (message: string) => void;
 }
 
 export const AuthorDetailModal = ({ authorId, isOpen, onClose, onEdit, onDeleted, onError }: AuthorDetailModalProps) => {
-  const [author, setAuthor] = useState<Author | null>(null);
-  const [loading, setLoading] = useState(false);
+  const { data: author, loading, error: fetchError, execute: fetchAuthor } = useAuthor(authorId || 0, false);
+  const { deleteAuthor, loading: isDeleting, error: deleteError } = useDeleteAuthor();
+  const { isAuthenticated } = useAuth();
   const [error, setError] = useState<string | null>(null);
-  const [isDeleting, setIsDeleting] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
 
-  const fetchAuthor = useCallback(async () => {
-    if (!authorId) return;
-
-    setLoading(true);
-    setError(null);
-
-    try {
-      const data = await authorsAPI.getById(authorId);
-      setAuthor(data);
-    } catch (err) {
-      console.error('Error fetching author:', err);
-      const error = err as { response?: { data?: { error?: string } } };
-      setError(error.response?.data?.error || 'Failed to load author details');
-    } finally {
-      setLoading(false);
-    }
-  }, [authorId]);
-
+  // Revalidate when the modal opens - cached author data is shown meanwhile
   useEffect(() => {
     if (isOpen && authorId) {
+      setError(null);
       fetchAuthor();
     }
   }, [isOpen, authorId, fetchAuthor]);
 
-  const handleDelete = async () => {
-    if (!authorId) return;
-
-    setIsDeleting(true);
-    try {
-      await authorsAPI.delete(authorId);
-      onDeleted();
-      onClose();
-    } catch (err) {
-      console.error('Error deleting author:', err);
-      const error = err as { response?: { data?: { error?: string } } };
-      const errorMessage = error.response?.data?.error || 'Failed to delete author';
+  // Surface delete failures from the hook
+  useEffect(() => {
+    if (deleteError) {
+      const errorMessage = deleteError.message || 'Failed to delete author';
       setError(errorMessage);
       onError?.(errorMessage);
-    } finally {
-      setIsDeleting(false);
-      setShowDeleteConfirm(false);
     }
+  }, [deleteError, onError]);
+
+  const handleDelete = () => {
+    if (!authorId || !author) return;
+
+    // Optimistic delete - the author (and their books) already disappeared, so close right away.
+    // Failures (and the rollback) are reported by the delete error effect above
+    deleteAuthor(authorId);
+    setShowDeleteConfirm(false);
+    onClose();
+    onDeleted(author, author.books?.length ?? 0);
   };
 
+  // A failed background refresh keeps showing the cached author
+  const errorMessage = error || (fetchError && !author ? fetchError.message || 'Failed to load author details' : null);
+
   const handleEditClick = () => {
     if (author) {
       onEdit(author);
@@ -102,16 +90,16 @@ export const AuthorDetailModal = ({ authorId, isOpen, onClose, onEdit, onDeleted
               </div>
             )}
 
-            {error && (
+            {errorMessage && (
               <div className="author-detail-modal__error">
-                <p>{error}</p>
+                <p>{errorMessage}</p>
                 <button onClick={onClose} className="btn btn--secondary">
                   Close
                 </button>
               </div>
             )}
 
-            {!loading && !error && author && (
+            {!loading && !errorMessage && author && (
               <>
                 <button
                   className="author-detail-modal__close"
@@ -150,40 +138,46 @@ export const AuthorDetailModal = ({ authorId, isOpen, onClose, onEdit, onDeleted
                   )}
                 </div>
 
-                <div className="author-detail-modal__actions">
-                  <button
-                    onClick={handleEditClick}
-                    className="btn btn--primary"
-                  >
-                    Edit Author
-                  </button>
-                  
-                  {!showDeleteConfirm ? (
+                {isAuthenticated && (
+                  <div className="author-detail-modal__actions">
                     <button
-                      onClick={() => setShowDeleteConfirm(true)}
-                      className="btn btn--danger"
+                      onClick={handleEditClick}
+                      className="btn btn--primary"
                     >
-                      Delete Author
+                      Edit Author
                     </button>
-                  ) : (
-                    <div className="delete-confirm">
-                      <p>Are you sure? This cannot be undone.</p>
+                  
+                    {!showDeleteConfirm ? (
                       <button
-                        onClick={handleDelete}
-                        disabled={isDeleting}
+                        onClick={() => setShowDeleteConfirm(true)}
                         className="btn btn--danger"
                       >
-                        {isDeleting ? 'Deleting...' : 'Confirm Delete'}
-                      </button>
-                      <button
-                        onClick={() => setShowDeleteConfirm(false)}
-                        className="btn btn--secondary"
-                      >
-                        Cancel
+                        Delete Author
                       </button>
-                    </div>
-                  )}
-                </div>
+                    ) : (
+                      <div className="delete-confirm">
+                        <p>
+                          {author.books?.length
+                            ? `Delete this author and their ${author.books.length} ${author.books.length === 1 ? 'book' : 'books'}?`
+                            : 'Delete this author?'}
+                        </p>
+                        <button
+                          onClick={handleDelete}
+                          disabled={isDeleting}
+                          className="btn btn--danger"
+                        >
+                          {isDeleting ? 'Deleting...' : 'Confirm Delete'}
+                        </button>
+                        <button
+                          onClick={() => setShowDeleteConfirm(false)}
+                          className="btn btn--secondary"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )}
               </>
             )}
           </motion.div>
@@ -1,14 +1,19 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import type { Author, CreateAuthorDTO, UpdateAuthorDTO } from '../../types/api';
-import { authorsAPI } from '../../services/api';
+import { useCreateAuthor, useUpdateAuthor } from '../../hooks/useAPI';
+import { mapFieldErrors } from '../../services/apiErrors';
+import { ConflictDialog } from '../ConflictDialog';
+import type { ConflictField } from '../ConflictDialog';
 import './AuthorFormModal.scss';
 
 interface AuthorFormModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSuccess?: (author: Author) => void;
+  onSubmitted?: () => void; // Change applied optimistically - called before the server confirms
+  onSuccess?: (author: Author, isUpdate: boolean) => void; // Server confirmed the change
   onError?: (message: string) => void;
+  onRejected?: (editAuthor: Author | null) => void; // Server rejected some fields (or the author changed meanwhile) - reopen the form to show them
   editAuthor?: Author | null; // If provided, we're editing; otherwise, creating
 }
 
@@ -20,48 +25,171 @@ interface FormErrors {
   name?: string;
 }
 
+// Server-side field names (camelCase) -> form inputs
+const SERVER_FIELDS: Record<string, keyof FormErrors> = {
+  name: 'name',
+};
+
+/**
+ * The values and version an edit started from (see BookFormModal)
+ */
+interface EditBase {
+  formData: FormData;
+  version?: string;
+}
+
+/**
+ * Someone else saved the author after the form was opened
+ */
+interface FormConflict {
+  base: FormData;
+  mine: FormData;
+  theirs: FormData;
+  version?: string; // The server's current version
+}
+
+/**
+ * A submit that already closed the form (optimistic), kept until the server answers
+ */
+interface SubmittedForm {
+  formData: FormData;
+  editAuthor: Author | null;
+  editBase: EditBase | null;
+}
+
+/**
+ * Input the server rejected, restored when the form reopens
+ */
+interface RejectedForm {
+  formData: FormData;
+  errors: FormErrors;
+  message: string | null;
+  editBase: EditBase | null;
+  conflict?: FormConflict;
+}
+
 export const AuthorFormModal: React.FC<AuthorFormModalProps> = ({
   isOpen,
   onClose,
+  onSubmitted,
   onSuccess,
   onError,
+  onRejected,
   editAuthor,
 }) => {
+  const { createAuthor, error: createError } = useCreateAuthor();
+  const { updateAuthor, error: updateError, conflict: updateConflict } = useUpdateAuthor();
+
   const isEditMode = !!editAuthor;
   const [formData, setFormData] = useState<FormData>({
     name: '',
   });
   const [errors, setErrors] = useState<FormErrors>({});
-  const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
+  const submittedRef = useRef<SubmittedForm | null>(null);
+  const rejectedRef = useRef<RejectedForm | null>(null);
+  const [editBase, setEditBase] = useState<EditBase | null>(null);
+  const [conflict, setConflict] = useState<FormConflict | null>(null);
 
-  // Populate form when editing
+  // Populate form when editing (or restore input the server rejected)
   useEffect(() => {
+    const rejected = rejectedRef.current;
+    if (isOpen && rejected) {
+      rejectedRef.current = null;
+      setFormData(rejected.formData);
+      setErrors(rejected.errors);
+      setSubmitError(rejected.message);
+      setEditBase(rejected.editBase);
+      setConflict(rejected.conflict || null);
+      return;
+    }
+
     if (editAuthor) {
       setFormData({
         name: editAuthor.name,
       });
+      setEditBase({ formData: { name: editAuthor.name }, version: editAuthor.version });
     } else {
       // Reset form when not editing
       setFormData({
         name: '',
       });
+      setEditBase(null);
     }
     setErrors({});
     setSubmitError(null);
+    setConflict(null);
   }, [editAuthor, isOpen]);
 
-  // Close modal on Escape key
+  // Surface submit failures from the create/update hooks. Field errors from the server
+  // (ProblemDetails `errors`) reopen the form with the rejected input and the field highlighted;
+  // an edit that lost to someone else's save reopens it with the conflict dialog.
+  useEffect(() => {
+    const submitted = submittedRef.current;
+    const mutationError = submitted?.editAuthor ? updateError : createError;
+    if (!submitted || !mutationError) return;
+    submittedRef.current = null;
+
+    if (submitted.editAuthor && updateConflict) {
+      rejectedRef.current = {
+        formData: submitted.formData,
+        errors: {},
+        message: null,
+        editBase: submitted.editBase,
+        conflict: {
+          base: submitted.editBase?.formData || { name: submitted.editAuthor.name },
+          mine: submitted.formData,
+          theirs: { name: updateConflict.name },
+          version: updateConflict.version,
+        },
+      };
+      onError?.(`"${submitted.formData.name.trim()}" was changed by someone else while you were editing - choose which changes to keep.`);
+      onRejected?.(updateConflict);
+      return;
+    }
+
+    const errorMessage = mutationError.message || 'Failed to save author. Please try again.';
+    const { mapped, unmapped } = mapFieldErrors(mutationError.fieldErrors, SERVER_FIELDS);
+    onError?.(errorMessage);
+
+    if (Object.keys(mapped).length > 0) {
+      rejectedRef.current = {
+        formData: submitted.formData,
+        errors: mapped,
+        message: unmapped.join(' ') || null,
+        editBase: submitted.editBase,
+      };
+      onRejected?.(submitted.editAuthor);
+    }
+  }, [createError, updateError, updateConflict, onError, onRejected]);
+
+  const conflictFields = useMemo<ConflictField<keyof FormData>[]>(
+    () =>
+      conflict
+        ? [{ key: 'name', label: 'Author Name', base: conflict.base.name, mine: conflict.mine.name, theirs: conflict.theirs.name }]
+        : [],
+    [conflict]
+  );
+
+  // Merged values go back into the form, to be saved against the server's version
+  const handleResolveConflict = (values: FormData) => {
+    if (!conflict) return;
+    setFormData(values);
+    setEditBase({ formData: conflict.theirs, version: conflict.version });
+    setConflict(null);
+  };
+
+  // Close modal on Escape key (not while a conflict needs an answer)
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
-      if (e.key === 'Escape' && isOpen) {
+      if (e.key === 'Escape' && isOpen && !conflict) {
         onClose();
       }
     };
 
     window.addEventListener('keydown', handleEscape);
     return () => window.removeEventListener('keydown', handleEscape);
-  }, [isOpen, onClose]);
+  }, [isOpen, conflict, onClose]);
 
   // Prevent body scroll when modal is open
   useEffect(() => {
@@ -107,51 +235,39 @@ export const AuthorFormModal: React.FC<AuthorFormModalProps> = ({
       return;
     }
 
-    setIsSubmitting(true);
     setSubmitError(null);
 
-    try {
-      let result: Author;
-
-      if (isEditMode && editAuthor) {
-        // Update existing author
-        const updateData: UpdateAuthorDTO = {
-          name: formData.name.trim(),
-        };
-        result = await authorsAPI.update(editAuthor.id, updateData);
-      } else {
-        // Create new author
-        const createData: CreateAuthorDTO = {
-          name: formData.name.trim(),
-        };
-        result = await authorsAPI.create(createData);
-      }
+    let request: Promise<Author | null>;
+    submittedRef.current = { formData, editAuthor: isEditMode && editAuthor ? editAuthor : null, editBase };
 
-      // Success!
-      onSuccess?.(result);
-      onClose();
-    } catch (err) {
-      console.error('Error submitting author:', err);
-      const error = err as { response?: { data?: { error?: string; title?: string; detail?: string } } };
-      
-      // Handle ASP.NET problem details or simple error
-      let errorMessage = 'Failed to save author. Please try again.';
-      if (error.response?.data) {
-        const data = error.response.data;
-        errorMessage = data.error || 
-          (data.title ? `${data.title}: ${data.detail || ''}` : null) ||
-          'Failed to save author';
-      }
-      
-      setSubmitError(errorMessage);
-      onError?.(errorMessage);
-    } finally {
-      setIsSubmitting(false);
+    if (isEditMode && editAuthor) {
+      // Update existing author
+      const updateData: UpdateAuthorDTO = {
+        name: formData.name.trim(),
+      };
+      request = updateAuthor(editAuthor.id, updateData, editBase?.version);
+    } else {
+      // Create new author
+      const createData: CreateAuthorDTO = {
+        name: formData.name.trim(),
+      };
+      request = createAuthor(createData);
+    }
+
+    // Optimistic - the change is already visible, so close the form right away
+    onSubmitted?.();
+    onClose();
+
+    // Failures (and the rollback) are reported by the hook error effect above
+    const result = await request;
+    if (result) {
+      submittedRef.current = null;
+      onSuccess?.(result, isEditMode);
     }
   };
 
   const handleBackdropClick = (e: React.MouseEvent) => {
-    if (e.target === e.currentTarget && !isSubmitting) {
+    if (e.target === e.currentTarget) {
       onClose();
     }
   };
@@ -179,7 +295,6 @@ export const AuthorFormModal: React.FC<AuthorFormModalProps> = ({
               className="author-form-modal__close"
               onClick={onClose}
               aria-label="Close modal"
-              disabled={isSubmitting}
             >
               ✕
             </button>
@@ -215,7 +330,6 @@ export const AuthorFormModal: React.FC<AuthorFormModalProps> = ({
                   onChange={handleChange}
                   placeholder="e.g., Jane Austen"
                   className={`author-form__input ${errors.name ? 'error' : ''}`}
-                  disabled={isSubmitting}
                 />
                 {errors.name && (
                   <span className="author-form__error">{errors.name}</span>
@@ -227,26 +341,25 @@ export const AuthorFormModal: React.FC<AuthorFormModalProps> = ({
                   type="button"
                   onClick={onClose}
                   className="btn btn--secondary"
-                  disabled={isSubmitting}
                 >
                   Cancel
                 </button>
                 <button
                   type="submit"
                   className="btn btn--primary"
-                  disabled={isSubmitting}
                 >
-                  {isSubmitting
-                    ? isEditMode
-                      ? 'Updating...'
-                      : 'Adding...'
-                    : isEditMode
-                    ? 'Update Author'
-                    : 'Add Author'}
+                  {isEditMode ? 'Update Author' : 'Add Author'}
                 </button>
               </div>
             </form>
           </motion.div>
+
+          <ConflictDialog
+            isOpen={!!conflict}
+            recordLabel={conflict?.mine.name || ''}
+            fields={conflictFields}
+            onResolve={handleResolveConflict}
+          />
         </motion.div>
       )}
     </AnimatePresence>
@@ -1,13 +1,18 @@
 import { motion } from 'framer-motion';
 import type { Author } from '../../types/api';
+import type { PendingOperation } from '../../services/entityStore';
 import './AuthorCard.scss';
 
 interface AuthorCardProps {
   author: Author;
   onClick?: () => void;
+  pending?: PendingOperation; // Unconfirmed optimistic change
 }
 
-export const AuthorCard: React.FC<AuthorCardProps> = ({ author, onClick }) => {
+export const AuthorCard: React.FC<AuthorCardProps> = ({ author, onClick, pending }) => {
+  // Optimistically created authors have no server id yet - nothing to open
+  const isCreating = pending === 'creating';
+  const isQueued = pending === 'queued'; // Made offline, waiting to sync
   const bookCount = author.books?.length || 0;
   const recentBooks = author.books?.slice(0, 3) || [];
 
@@ -53,11 +58,18 @@ export const AuthorCard: React.FC<AuthorCardProps> = ({ author, onClick }) => {
 
   return (
     <motion.div
-      className="author-card"
+      className={`author-card ${pending ? 'author-card--pending' : ''} ${isCreating ? 'author-card--creating' : ''}`}
       variants={cardVariants}
       whileHover={{ y: -8, scale: 1.02 }}
-      onClick={onClick}
+      onClick={isCreating ? undefined : onClick}
+      aria-busy={!!pending && !isQueued}
     >
+      {pending && (
+        <span className={`author-card__pending ${isQueued ? 'author-card__pending--queued' : ''}`}>
+          {isQueued ? 'Queued offline' : isCreating ? 'Saving...' : 'Updating...'}
+        </span>
+      )}
+
       {/* Avatar */}
       <div
         className="author-card__avatar"
@@ -88,7 +100,7 @@ export const AuthorCard: React.FC<AuthorCardProps> = ({ author, onClick }) => {
               {recentBooks.map((book) => (
                 <li key={book.id} className="author-card__book-item">
                   <span className="author-card__book-title">{book.title}</span>
-                  <span className="author-card__book-year">({book.year})</span>
+                  {book.year != null && <span className="author-card__book-year">({book.year})</span>}
                 </li>
               ))}
             </ul>
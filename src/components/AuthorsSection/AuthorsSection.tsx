@@ -1,8 +1,12 @@
 import { useState, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import type { Author, APIError } from '../../types/api';
+import type { PendingOperation } from '../../services/entityStore';
 import { AuthorCard } from './AuthorCard';
 import { useDebounce } from '../../hooks/useDebounce';
+import { useAuth } from '../../hooks/useAuth';
+import { ExportMenu } from '../ExportMenu';
+import { AUTHOR_EXPORT_COLUMNS } from '../../services/catalogExport';
 import './AuthorsSection.scss';
 
 interface AuthorsSectionProps {
@@ -11,6 +15,7 @@ interface AuthorsSectionProps {
   error?: APIError | null;
   onAuthorClick?: (author: Author) => void;
   onAddAuthor?: () => void;
+  pendingAuthors?: Record<number, PendingOperation>; // Authors with unconfirmed optimistic changes
 }
 
 export const AuthorsSection: React.FC<AuthorsSectionProps> = ({
@@ -19,27 +24,37 @@ export const AuthorsSection: React.FC<AuthorsSectionProps> = ({
   error = null,
   onAuthorClick,
   onAddAuthor,
+  pendingAuthors = {},
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [sortBy, setSortBy] = useState<'name' | 'bookCount'>('name');
   const debouncedSearchTerm = useDebounce(searchTerm, 300);
+  const { isAuthenticated } = useAuth();
 
-  // Filter and sort authors with debounced search
-  const sortedAuthors = useMemo(() => {
-    // Filter authors by debounced search term
-    const filtered = authors.filter((author) =>
-      author.name.toLowerCase().includes(debouncedSearchTerm.toLowerCase())
-    );
+  // Sort all authors (the export can include the ones the search hides)
+  const sortedAllAuthors = useMemo(
+    () =>
+      [...authors].sort((a, b) => {
+        if (sortBy === 'name') {
+          return a.name.localeCompare(b.name);
+        } else {
+          return (b.books?.length || 0) - (a.books?.length || 0);
+        }
+      }),
+    [authors, sortBy]
+  );
+
+  // Filter sorted authors by debounced search term
+  const sortedAuthors = useMemo(
+    () =>
+      sortedAllAuthors.filter((author) =>
+        author.name.toLowerCase().includes(debouncedSearchTerm.toLowerCase())
+      ),
+    [sortedAllAuthors, debouncedSearchTerm]
+  );
 
-    // Sort authors
-    return [...filtered].sort((a, b) => {
-      if (sortBy === 'name') {
-        return a.name.localeCompare(b.name);
-      } else {
-        return (b.books?.length || 0) - (a.books?.length || 0);
-      }
-    });
-  }, [authors, debouncedSearchTerm, sortBy]);
+  // Keep showing cached (e.g. offline) authors when a refresh fails
+  const showError = !!error && authors.length === 0;
 
   const renderContent = () => {
     // Loading state
@@ -53,7 +68,7 @@ export const AuthorsSection: React.FC<AuthorsSectionProps> = ({
     }
 
     // Error state
-    if (error) {
+    if (showError && error) {
       return (
         <div className="authors-section__error">
           <div className="authors-section__error-icon">⚠️</div>
@@ -70,7 +85,7 @@ export const AuthorsSection: React.FC<AuthorsSectionProps> = ({
           <div className="authors-section__empty-icon">✍️</div>
           <h3>No Authors Yet</h3>
           <p>Be the first to add an author to the library!</p>
-          {onAddAuthor && (
+          {onAddAuthor && isAuthenticated && (
             <button className="authors-section__add-btn" onClick={onAddAuthor}>
               <span className="authors-section__add-icon">+</span>
               Add First Author
@@ -110,6 +125,7 @@ export const AuthorsSection: React.FC<AuthorsSectionProps> = ({
             key={author.id}
             author={author}
             onClick={() => onAuthorClick?.(author)}
+            pending={pendingAuthors[author.id]}
           />
         ))}
       </motion.div>
@@ -179,8 +195,19 @@ export const AuthorsSection: React.FC<AuthorsSectionProps> = ({
             </select>
           </div>
 
+          {/* Export */}
+          {!loading && !showError && authors.length > 0 && (
+            <ExportMenu
+              name="authors"
+              columns={AUTHOR_EXPORT_COLUMNS}
+              items={sortedAuthors}
+              totalCount={authors.length}
+              loadAll={() => sortedAllAuthors}
+            />
+          )}
+
           {/* Add Author Button */}
-          {onAddAuthor && (
+          {onAddAuthor && isAuthenticated && (
             <button className="authors-section__add-btn" onClick={onAddAuthor}>
               <span className="authors-section__add-icon">+</span>
               Add Author
@@ -189,7 +216,7 @@ export const AuthorsSection: React.FC<AuthorsSectionProps> = ({
         </motion.div>
 
         {/* Results Count */}
-        {!loading && !error && authors.length > 0 && (
+        {!loading && !showError && authors.length > 0 && (
           <motion.div
             className="authors-section__results"
             initial={{ opacity: 0 }}
@@ -0,0 +1,299 @@
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useBackendProfiles } from '../../hooks/useBackendProfiles';
+import { useOutbox } from '../../hooks/useOutbox';
+import { isMockProfile, normalizeBaseUrl } from '../../services/backendProfiles';
+import type { BackendProfile } from '../../services/backendProfiles';
+import './BackendSettingsModal.scss';
+
+interface BackendSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSwitch?: (profile: BackendProfile) => void; // The API client now talks to this profile
+}
+
+interface FormData {
+  name: string;
+  baseUrl: string;
+}
+
+interface FormErrors {
+  name?: string;
+  baseUrl?: string;
+}
+
+const EMPTY_FORM: FormData = { name: '', baseUrl: '' };
+
+/**
+ * Manage backend profiles and switch the API client between them at runtime.
+ * Switching clears the loaded data, queued offline changes and the session.
+ */
+export const BackendSettingsModal: React.FC<BackendSettingsModalProps> = ({ isOpen, onClose, onSwitch }) => {
+  const { profiles, activeProfile, switchProfile, addProfile, updateProfile, removeProfile } = useBackendProfiles();
+  const { queuedCount } = useOutbox();
+
+  const [formData, setFormData] = useState<FormData>(EMPTY_FORM);
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  // Start with an empty form every time the panel opens
+  useEffect(() => {
+    setFormData(EMPTY_FORM);
+    setErrors({});
+    setEditingId(null);
+  }, [isOpen]);
+
+  // Close modal on Escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen) {
+        onClose();
+      }
+    };
+
+    window.addEventListener('keydown', handleEscape);
+    return () => window.removeEventListener('keydown', handleEscape);
+  }, [isOpen, onClose]);
+
+  // Prevent body scroll when modal is open
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = 'hidden';
+    } else {
+      document.body.style.overflow = '';
+    }
+
+    return () => {
+      document.body.style.overflow = '';
+    };
+  }, [isOpen]);
+
+  // Queued offline changes were made against the current backend - confirm before dropping them
+  const confirmDiscard = (): boolean =>
+    queuedCount === 0 ||
+    window.confirm(
+      `${queuedCount} offline change${queuedCount === 1 ? ' has' : 's have'} not been synced yet and will be discarded. Switch anyway?`
+    );
+
+  const handleSwitch = (profile: BackendProfile) => {
+    if (profile.id === activeProfile.id || !confirmDiscard()) return;
+    switchProfile(profile.id);
+    onSwitch?.(profile);
+  };
+
+  const handleEdit = (profile: BackendProfile) => {
+    setEditingId(profile.id);
+    setFormData({ name: profile.name, baseUrl: profile.baseUrl });
+    setErrors({});
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setFormData(EMPTY_FORM);
+    setErrors({});
+  };
+
+  const handleRemove = (profile: BackendProfile) => {
+    const isActive = profile.id === activeProfile.id;
+    if (isActive && !confirmDiscard()) return;
+    if (!window.confirm(`Remove the "${profile.name}" profile?`)) return;
+
+    removeProfile(profile.id);
+    if (editingId === profile.id) handleCancelEdit();
+    if (isActive) onSwitch?.(profiles[0]);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+
+    // Clear error when user starts typing
+    if (errors[name as keyof FormErrors]) {
+      setErrors((prev) => ({ ...prev, [name]: undefined }));
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const newErrors: FormErrors = {};
+    const name = formData.name.trim();
+    const baseUrl = normalizeBaseUrl(formData.baseUrl);
+
+    if (!name) {
+      newErrors.name = 'Profile name is required';
+    } else if (profiles.some((profile) => profile.id !== editingId && profile.name.toLowerCase() === name.toLowerCase())) {
+      newErrors.name = 'A profile with this name already exists';
+    }
+
+    if (!formData.baseUrl.trim()) {
+      newErrors.baseUrl = 'Base URL is required';
+    } else if (!baseUrl) {
+      newErrors.baseUrl = 'Enter an http(s) URL, or "mock" for the in-browser mock backend';
+    }
+
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0 || !baseUrl) return;
+
+    if (editingId) {
+      const urlChanged = editingId === activeProfile.id && baseUrl !== activeProfile.baseUrl;
+      if (urlChanged && !confirmDiscard()) return;
+      updateProfile(editingId, { name, baseUrl });
+      if (urlChanged) onSwitch?.({ ...activeProfile, name, baseUrl });
+    } else {
+      addProfile({ name, baseUrl });
+    }
+    handleCancelEdit();
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          className="backend-settings-modal"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.2 }}
+          onClick={handleBackdropClick}
+        >
+          <motion.div
+            className="backend-settings-modal__content"
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="backend-settings-title"
+            initial={{ scale: 0.9, opacity: 0, y: 20 }}
+            animate={{ scale: 1, opacity: 1, y: 0 }}
+            exit={{ scale: 0.9, opacity: 0, y: 20 }}
+            transition={{ duration: 0.3, ease: 'easeOut' }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <button
+              className="backend-settings-modal__close"
+              onClick={onClose}
+              aria-label="Close settings"
+            >
+              ✕
+            </button>
+
+            <div className="backend-settings-modal__header">
+              <h1 id="backend-settings-title" className="backend-settings-modal__title">
+                Backend Settings
+              </h1>
+              <p className="backend-settings-modal__subtitle">
+                Choose which API the app talks to. Switching reloads the catalog and signs you out.
+              </p>
+            </div>
+
+            {queuedCount > 0 && (
+              <div className="backend-settings-modal__warning" role="status">
+                <span>⚠</span>
+                <p>
+                  {queuedCount} offline change{queuedCount === 1 ? ' is' : 's are'} waiting to sync with{' '}
+                  <strong>{activeProfile.name}</strong> - switching discards {queuedCount === 1 ? 'it' : 'them'}.
+                </p>
+              </div>
+            )}
+
+            <ul className="backend-profiles">
+              {profiles.map((profile) => {
+                const isActive = profile.id === activeProfile.id;
+                return (
+                  <li
+                    key={profile.id}
+                    className={`backend-profiles__item ${isActive ? 'backend-profiles__item--active' : ''}`}
+                  >
+                    <div className="backend-profiles__info">
+                      <span className="backend-profiles__name">
+                        {profile.name}
+                        {isActive && <span className="backend-profiles__badge">Active</span>}
+                      </span>
+                      <span className="backend-profiles__url">
+                        {isMockProfile(profile) ? 'In-browser mock backend' : profile.baseUrl}
+                      </span>
+                    </div>
+
+                    <div className="backend-profiles__actions">
+                      {!isActive && (
+                        <button className="backend-profiles__btn" onClick={() => handleSwitch(profile)}>
+                          Use
+                        </button>
+                      )}
+                      {!profile.builtIn && (
+                        <>
+                          <button className="backend-profiles__btn" onClick={() => handleEdit(profile)}>
+                            Edit
+                          </button>
+                          <button
+                            className="backend-profiles__btn backend-profiles__btn--danger"
+                            onClick={() => handleRemove(profile)}
+                          >
+                            Remove
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+
+            <form onSubmit={handleSubmit} className="backend-profile-form">
+              <h2 className="backend-profile-form__title">{editingId ? 'Edit Profile' : 'Add Profile'}</h2>
+
+              <div className="backend-profile-form__field">
+                <label htmlFor="backend-profile-name" className="backend-profile-form__label">
+                  Name <span className="required">*</span>
+                </label>
+                <input
+                  id="backend-profile-name"
+                  name="name"
+                  type="text"
+                  value={formData.name}
+                  onChange={handleChange}
+                  placeholder="e.g., Staging"
+                  className={`backend-profile-form__input ${errors.name ? 'error' : ''}`}
+                />
+                {errors.name && <span className="backend-profile-form__error">{errors.name}</span>}
+              </div>
+
+              <div className="backend-profile-form__field">
+                <label htmlFor="backend-profile-url" className="backend-profile-form__label">
+                  Base URL <span className="required">*</span>
+                </label>
+                <input
+                  id="backend-profile-url"
+                  name="baseUrl"
+                  type="text"
+                  inputMode="url"
+                  value={formData.baseUrl}
+                  onChange={handleChange}
+                  placeholder="e.g., http://localhost:5000 or mock"
+                  className={`backend-profile-form__input ${errors.baseUrl ? 'error' : ''}`}
+                />
+                {errors.baseUrl && <span className="backend-profile-form__error">{errors.baseUrl}</span>}
+              </div>
+
+              <div className="backend-profile-form__actions">
+                {editingId && (
+                  <button type="button" onClick={handleCancelEdit} className="btn btn--secondary">
+                    Cancel
+                  </button>
+                )}
+                <button type="submit" className="btn btn--primary">
+                  {editingId ? 'Save Profile' : 'Add Profile'}
+                </button>
+              </div>
+            </form>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
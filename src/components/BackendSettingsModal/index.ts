@@ -0,0 +1 @@
+export { BackendSettingsModal } from './BackendSettingsModal';
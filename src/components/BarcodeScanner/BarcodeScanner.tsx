@@ -0,0 +1,146 @@
+import { useState, useEffect, useRef } from 'react';
+import { scanBarcode } from '../../services/barcodeScanner';
+import type { BarcodeCandidate } from '../../services/barcodeScanner';
+import './BarcodeScanner.scss';
+
+interface BarcodeScannerProps {
+  onDetected: (isbn: string) => void; // One ISBN read with certainty - ready to import
+  onPick: (isbn: string) => void; // The user chose between uncertain readings - still to be checked
+  disabled?: boolean;
+}
+
+type ScanStatus = 'idle' | 'scanning' | 'detected' | 'ambiguous' | 'not-found' | 'error';
+
+/**
+ * Drop zone / file picker that reads the ISBN barcode from a photo of a book's
+ * back cover. Uncertain readings are offered as choices next to the photo.
+ */
+export const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ onDetected, onPick, disabled = false }) => {
+  const [status, setStatus] = useState<ScanStatus>('idle');
+  const [message, setMessage] = useState<string | null>(null);
+  const [candidates, setCandidates] = useState<BarcodeCandidate[]>([]);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const scanIdRef = useRef(0); // Only the latest photo's result is shown
+
+  // Release the preview when it is replaced or the scanner closes
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file || disabled) return;
+    if (!file.type.startsWith('image/')) {
+      setStatus('error');
+      setMessage(`"${file.name}" is not an image.`);
+      return;
+    }
+
+    const scanId = ++scanIdRef.current;
+    setPreviewUrl(URL.createObjectURL(file));
+    setStatus('scanning');
+    setMessage(null);
+    setCandidates([]);
+
+    try {
+      const result = await scanBarcode(file);
+      if (scanId !== scanIdRef.current) return;
+
+      const isbns = result.candidates.filter((candidate) => candidate.isISBN);
+      setCandidates(isbns);
+
+      if (result.isbn) {
+        setStatus('detected');
+        setMessage(`Read ISBN ${result.isbn} from the barcode.`);
+        onDetected(result.isbn);
+      } else if (isbns.length > 0) {
+        setStatus('ambiguous');
+        setMessage('The barcode could not be read with certainty. Compare with the digits under the barcode, then pick or correct the ISBN.');
+      } else if (result.candidates.length > 0) {
+        setStatus('not-found');
+        setMessage(`Found barcode ${result.candidates[0].code}, which is not a book ISBN (those start with 978 or 979).`);
+      } else {
+        setStatus('not-found');
+        setMessage('No barcode found. Try a sharper, well-lit photo taken straight on - or type the ISBN.');
+      }
+    } catch (err) {
+      if (scanId !== scanIdRef.current) return;
+      setStatus('error');
+      setMessage(err instanceof Error ? err.message : 'The photo could not be read.');
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFile(e.dataTransfer.files[0]);
+  };
+
+  const handlePick = (code: string) => {
+    setStatus('detected');
+    setMessage(`Using ISBN ${code} - check it before importing.`);
+    onPick(code);
+  };
+
+  return (
+    <div
+      className={`barcode-scanner ${isDragging ? 'barcode-scanner--dragging' : ''}`}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+    >
+      <div className="barcode-scanner__row">
+        {previewUrl && <img className="barcode-scanner__preview" src={previewUrl} alt="Photo being scanned" />}
+        <span className="barcode-scanner__hint">
+          {status === 'scanning' ? 'Reading barcode…' : 'Drop a photo of the back cover to read its barcode'}
+        </span>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          className="barcode-scanner__file"
+          onChange={(e) => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+        <button
+          type="button"
+          className="barcode-scanner__choose"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled || status === 'scanning'}
+        >
+          📷 {previewUrl ? 'Another Photo' : 'Choose Photo'}
+        </button>
+      </div>
+
+      {message && (
+        <p className={`barcode-scanner__message barcode-scanner__message--${status}`} role="status">
+          {message}
+        </p>
+      )}
+
+      {status === 'ambiguous' && (
+        <div className="barcode-scanner__candidates">
+          {candidates.map((candidate) => (
+            <button
+              key={candidate.code}
+              type="button"
+              className="barcode-scanner__candidate"
+              onClick={() => handlePick(candidate.code)}
+              disabled={disabled}
+            >
+              {candidate.code}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { BarcodeScanner } from './BarcodeScanner';
@@ -5,15 +5,21 @@
 
 import { motion } from 'framer-motion';
 import type { Book } from '../../types/api';
+import type { PendingOperation } from '../../services/entityStore';
 import './BookCard.scss';
 
 interface BookCardProps {
   book: Book;
   onCardClick?: (book: Book) => void;
   index?: number;
+  pending?: PendingOperation; // Unconfirmed optimistic change
 }
 
-function BookCard({ book, onCardClick, index = 0 }: BookCardProps) {
+function BookCard({ book, onCardClick, index = 0, pending }: BookCardProps) {
+  // Optimistically created books have no server id yet - nothing to open
+  const isCreating = pending === 'creating';
+  const isQueued = pending === 'queued'; // Made offline, waiting to sync
+
   // Generate a color based on the book title for the "cover"
   const generateCoverColor = (title: string) => {
     const colors = [
@@ -28,6 +34,7 @@ function BookCard({ book, onCardClick, index = 0 }: BookCardProps) {
   };
 
   const handleClick = () => {
+    if (isCreating) return;
     onCardClick?.(book);
   };
 
@@ -40,7 +47,7 @@ function BookCard({ book, onCardClick, index = 0 }: BookCardProps) {
 
   return (
     <motion.article
-      className="book-card"
+      className={`book-card ${pending ? 'book-card--pending' : ''} ${isCreating ? 'book-card--creating' : ''}`}
       initial={{ opacity: 0, y: 20 }}
       whileInView={{ opacity: 1, y: 0 }}
       viewport={{ once: true, margin: '-50px' }}
@@ -51,6 +58,7 @@ function BookCard({ book, onCardClick, index = 0 }: BookCardProps) {
       tabIndex={0}
       role="button"
       aria-label={`View details for ${book.title}`}
+      aria-busy={!!pending && !isQueued}
     >
       {/* Book Cover (Thumbnail or Generated) */}
       <div
@@ -61,6 +69,11 @@ function BookCard({ book, onCardClick, index = 0 }: BookCardProps) {
             : generateCoverColor(book.title) 
         }}
       >
+        {pending && (
+          <span className={`book-card__pending ${isQueued ? 'book-card__pending--queued' : ''}`}>
+            {isQueued ? 'Queued offline' : isCreating ? 'Saving...' : 'Updating...'}
+          </span>
+        )}
         {!(book.details?.thumbnail || book.details?.smallThumbnail) && (
           <span className="book-card__cover-title">
             {book.title.substring(0, 1)}
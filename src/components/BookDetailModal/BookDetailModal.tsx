@@ -1,7 +1,9 @@
-import { useEffect } from 'react';
+import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import type { Book } from '../../types/api';
 import { useBook, useDeleteBook } from '../../hooks/useAPI';
+import { useAuth } from '../../hooks/useAuth';
+import { useLiveUpdates } from '../../hooks/useLiveUpdates';
 import './BookDetailModal.scss';
 
 interface BookDetailModalProps {
@@ -9,7 +11,7 @@ interface BookDetailModalProps {
   isOpen: boolean;
   onClose: () => void;
   onEdit?: (book: Book) => void;
-  onDeleted?: () => void;
+  onDeleted?: (book: Book) => void; // Right away - the DELETE waits out the undo grace period
   onError?: (message: string) => void;
 }
 
@@ -23,8 +25,18 @@ export const BookDetailModal: React.FC<BookDetailModalProps> = ({
 }) => {
   const { data: book, loading: isLoading, error, execute: refetch } = useBook(bookId || 0, !!bookId);
   const { deleteBook, loading: isDeleting } = useDeleteBook();
+  const { isAuthenticated } = useAuth();
+  const { remoteChanges } = useLiveUpdates();
 
-  // Refetch book data when modal opens (to get latest changes)
+  // Changes pushed by the server while this book is shown (the store already has them)
+  const [openedAt, setOpenedAt] = useState(0);
+  useEffect(() => {
+    if (isOpen) setOpenedAt(Date.now());
+  }, [isOpen, bookId]);
+  const remoteChange = bookId ? remoteChanges[`books:${bookId}`] : undefined;
+  const changedElsewhere = remoteChange && remoteChange.at >= openedAt ? remoteChange : null;
+
+  // Revalidate when the modal opens - cached book data is shown meanwhile
   useEffect(() => {
     if (isOpen && bookId) {
       refetch();
@@ -59,20 +71,14 @@ export const BookDetailModal: React.FC<BookDetailModalProps> = ({
   const handleDelete = async () => {
     if (!book) return;
 
-    const confirmDelete = window.confirm(
-      `Are you sure you want to delete "${book.title}"? This action cannot be undone.`
-    );
+    // Optimistic delete - the book already disappeared from every list, so close
+    // right away (no confirmation - the toast offers an undo instead)
+    const request = deleteBook(book.id);
+    onClose();
+    onDeleted?.(book);
 
-    if (confirmDelete) {
-      const success = await deleteBook(book.id);
-      
-      if (success) {
-        onDeleted?.();
-        onClose();
-      } else {
-        const errorMessage = 'Failed to delete book. Please try again.';
-        onError?.(errorMessage);
-      }
+    if ((await request) === 'failed') {
+      onError?.(`Failed to delete "${book.title}". The book has been restored.`);
     }
   };
 
@@ -116,7 +122,8 @@ export const BookDetailModal: React.FC<BookDetailModalProps> = ({
       );
     }
 
-    if (error) {
+    // A failed background refresh keeps showing the cached book
+    if (error && !book) {
       return (
         <div className="book-detail-modal__error">
           <div className="book-detail-modal__error-icon">⚠️</div>
@@ -129,6 +136,16 @@ export const BookDetailModal: React.FC<BookDetailModalProps> = ({
       );
     }
 
+    if (!book && changedElsewhere?.type === 'deleted') {
+      return (
+        <div className="book-detail-modal__error">
+          <div className="book-detail-modal__error-icon">🗑️</div>
+          <h3>Book Deleted</h3>
+          <p>Someone else deleted this book while you were viewing it.</p>
+        </div>
+      );
+    }
+
     if (!book) {
       return (
         <div className="book-detail-modal__error">
@@ -150,6 +167,19 @@ export const BookDetailModal: React.FC<BookDetailModalProps> = ({
         </button>
 
         <div className="book-detail-modal__content">
+          {changedElsewhere?.type === 'updated' && (
+            <motion.div
+              key={changedElsewhere.at}
+              className="book-detail-modal__live-notice"
+              role="status"
+              initial={{ opacity: 0, y: -10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.3 }}
+            >
+              ↻ Someone else just updated this book - you are seeing the latest version.
+            </motion.div>
+          )}
+
           {/* Book Cover */}
           <div className="book-detail-modal__cover-section">
             <motion.div
@@ -228,35 +258,37 @@ export const BookDetailModal: React.FC<BookDetailModalProps> = ({
               </div>
             </motion.div>
 
-            {/* Action Buttons */}
-            <motion.div
-              className="book-detail-modal__actions"
-              initial={{ y: 20, opacity: 0 }}
-              animate={{ y: 0, opacity: 1 }}
-              transition={{ duration: 0.4, delay: 0.3 }}
-            >
-              {onEdit && (
+            {/* Action Buttons (signed-in users only) */}
+            {isAuthenticated && (
+              <motion.div
+                className="book-detail-modal__actions"
+                initial={{ y: 20, opacity: 0 }}
+                animate={{ y: 0, opacity: 1 }}
+                transition={{ duration: 0.4, delay: 0.3 }}
+              >
+                {onEdit && (
+                  <button
+                    className="book-detail-modal__action-btn book-detail-modal__action-btn--edit"
+                    onClick={handleEdit}
+                    disabled={isDeleting}
+                  >
+                    <span className="book-detail-modal__action-icon">✏️</span>
+                    Edit Book
+                  </button>
+                )}
+
                 <button
-                  className="book-detail-modal__action-btn book-detail-modal__action-btn--edit"
-                  onClick={handleEdit}
+                  className="book-detail-modal__action-btn book-detail-modal__action-btn--delete"
+                  onClick={handleDelete}
                   disabled={isDeleting}
                 >
-                  <span className="book-detail-modal__action-icon">✏️</span>
-                  Edit Book
+                  <span className="book-detail-modal__action-icon">
+                    {isDeleting ? '⏳' : '🗑️'}
+                  </span>
+                  {isDeleting ? 'Deleting...' : 'Delete Book'}
                 </button>
-              )}
-
-              <button
-                className="book-detail-modal__action-btn book-detail-modal__action-btn--delete"
-                onClick={handleDelete}
-                disabled={isDeleting}
-              >
-                <span className="book-detail-modal__action-icon">
-                  {isDeleting ? '⏳' : '🗑️'}
-                </span>
-                {isDeleting ? 'Deleting...' : 'Delete Book'}
-              </button>
-            </motion.div>
+              </motion.div>
+            )}
           </div>
         </div>
       </>
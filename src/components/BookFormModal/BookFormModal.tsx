@@ -1,17 +1,30 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import type { Book, CreateBookDTO, UpdateBookDTO, BookSearchResult } from '../../types/api';
-import { useCreateBook, useUpdateBook, useImportBook, useSearchBooks, useAuthors, useCreateAuthor } from '../../hooks/useAPI';
+import { useCreateBook, useUpdateBook, useImportBook, useSearchBooks, useAuthors, useCreateAuthor, usePublishers, useCreatePublisher } from '../../hooks/useAPI';
 import { useDebounce } from '../../hooks/useDebounce';
+import { useDuplicateBooks } from '../../hooks/useDuplicateBooks';
+import { mapFieldErrors } from '../../services/apiErrors';
+import { getISBNError, normalizeISBN } from '../../services/isbn';
+import { ConflictDialog } from '../ConflictDialog';
+import { BarcodeScanner } from '../BarcodeScanner';
+import { DuplicateWarning } from '../DuplicateWarning';
+import { ImportPreview } from '../ImportPreview';
+import type { ImportPreviewValues } from '../ImportPreview';
+import type { DuplicateMatch } from '../../services/duplicateBooks';
+import type { ConflictField } from '../ConflictDialog';
 import './BookFormModal.scss';
 
 interface BookFormModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSuccess?: (book: Book) => void;
+  onSubmitted?: () => void; // Change applied optimistically - called before the server confirms
+  onSuccess?: (book: Book, isUpdate: boolean) => void; // Server confirmed the change
   onError?: (message: string) => void;
+  onRejected?: (editBook: Book | null) => void; // Server rejected some fields (or the book changed meanwhile) - reopen the form to show them
   editBook?: Book | null; // If provided, we're editing; otherwise, creating
-  onAuthorsRefresh?: () => void; // Callback to refresh authors list
+  onOpenBulkImport?: () => void; // Switch to the bulk ISBN import
+  onOpenExisting?: (book: Book) => void; // Open a book already in the library instead of adding it again
 }
 
 interface FormData {
@@ -34,20 +47,106 @@ interface FormErrors {
   thumbnail?: string;
 }
 
+// Server-side field names (camelCase) -> form inputs
+const SERVER_FIELDS: Record<string, keyof FormErrors> = {
+  title: 'title',
+  isbn: 'isbn',
+  year: 'year',
+  authorId: 'authorName',
+  author: 'authorName',
+  publisherId: 'publisherName',
+  publisher: 'publisherName',
+  description: 'description',
+  thumbnail: 'thumbnail',
+  smallThumbnail: 'thumbnail',
+};
+
+// Labels for the conflict dialog
+const FIELD_LABELS: Record<keyof FormData, string> = {
+  title: 'Title',
+  authorName: 'Author',
+  isbn: 'ISBN',
+  year: 'Publication Year',
+  publisherName: 'Publisher',
+  description: 'Description',
+  thumbnail: 'Cover Image URL',
+};
+
+const toFormData = (book: Book): FormData => ({
+  title: book.title,
+  authorName: book.author?.name || '',
+  isbn: book.isbn ?? '',
+  year: book.year != null ? book.year.toString() : '', // Missing on books so far only seen nested in GET /authors
+  publisherName: book.publisher?.name || '',
+  description: book.details?.description || '',
+  thumbnail: book.details?.thumbnail || '',
+});
+
+/**
+ * The values and version an edit started from - the update is sent with this
+ * version (If-Match), and a conflict is diffed against these values
+ */
+interface EditBase {
+  formData: FormData;
+  version?: string;
+}
+
+/**
+ * Someone else saved the book after the form was opened
+ */
+interface FormConflict {
+  base: FormData;
+  mine: FormData;
+  theirs: FormData;
+  version?: string; // The server's current version
+}
+
+/**
+ * A submit that already closed the form (optimistic), kept until the server answers
+ */
+interface SubmittedForm {
+  formData: FormData;
+  editBook: Book | null;
+  editBase: EditBase | null;
+}
+
+/**
+ * Input the server rejected, restored when the form reopens
+ */
+interface RejectedForm {
+  formData: FormData;
+  errors: FormErrors;
+  editBase: EditBase | null;
+  conflict?: FormConflict;
+}
+
+/**
+ * An import held back because the book seems to be in the library already
+ */
+interface HeldImport {
+  matches: DuplicateMatch[];
+  proceed?: () => void; // Import anyway - only for similar (not same-ISBN) matches
+}
+
 export const BookFormModal: React.FC<BookFormModalProps> = ({
   isOpen,
   onClose,
+  onSubmitted,
   onSuccess,
   onError,
+  onRejected,
   editBook,
-  onAuthorsRefresh,
+  onOpenBulkImport,
+  onOpenExisting,
 }) => {
-  const { createBook, loading: creating } = useCreateBook();
-  const { updateBook, loading: updating } = useUpdateBook();
+  const { createBook, error: createError } = useCreateBook();
+  const { updateBook, error: updateError, conflict: updateConflict } = useUpdateBook();
   const { importBook, loading: importing } = useImportBook();
-  const { searchBooks, loading: searching } = useSearchBooks();
+  const { searchBooks, cancel: cancelSearch, loading: searching } = useSearchBooks();
   const { data: authors } = useAuthors();
   const { createAuthor } = useCreateAuthor();
+  const { data: publishers } = usePublishers();
+  const { createPublisher } = useCreatePublisher();
 
   const isEditMode = !!editBook;
   const [formData, setFormData] = useState<FormData>({
@@ -60,8 +159,17 @@ export const BookFormModal: React.FC<BookFormModalProps> = ({
     thumbnail: '',
   });
   const [errors, setErrors] = useState<FormErrors>({});
+  const [isSubmitting, setIsSubmitting] = useState(false); // Until the optimistic hand-off
+  const submittedRef = useRef<SubmittedForm | null>(null);
+  const rejectedRef = useRef<RejectedForm | null>(null);
+  const [editBase, setEditBase] = useState<EditBase | null>(null);
+  const [conflict, setConflict] = useState<FormConflict | null>(null);
   const [isbnImportValue, setIsbnImportValue] = useState('');
   const [showIsbnImport, setShowIsbnImport] = useState(false);
+  const isbnInputRef = useRef<HTMLInputElement>(null);
+  const [heldImport, setHeldImport] = useState<HeldImport | null>(null);
+  const [previewResult, setPreviewResult] = useState<BookSearchResult | null>(null); // Google Books result being reviewed
+  const [isDuplicateHeld, setIsDuplicateHeld] = useState(false); // Submit stopped by similar books
   
   // Autocomplete state
   const [searchResults, setSearchResults] = useState<BookSearchResult[]>([]);
@@ -74,19 +182,35 @@ export const BookFormModal: React.FC<BookFormModalProps> = ({
   
   // Debounce title input for search
   const debouncedTitle = useDebounce(formData.title, 400);
+  const debouncedAuthorName = useDebounce(formData.authorName, 400);
+  const debouncedIsbn = useDebounce(formData.isbn, 400);
+
+  // Books in the library this one may duplicate - edits are only checked for a clashing ISBN
+  const { matches: duplicates, check: checkDuplicates } = useDuplicateBooks(
+    {
+      title: isEditMode ? '' : debouncedTitle,
+      authors: isEditMode ? [] : [debouncedAuthorName],
+      isbn: debouncedIsbn,
+    },
+    editBook?.id
+  );
 
-  // Populate form when editing
+  // Populate form when editing (or restore input the server rejected)
   useEffect(() => {
+    const rejected = rejectedRef.current;
+    if (isOpen && rejected) {
+      rejectedRef.current = null;
+      setFormData(rejected.formData);
+      setErrors(rejected.errors);
+      setEditBase(rejected.editBase);
+      setConflict(rejected.conflict || null);
+      return;
+    }
+
     if (editBook) {
-      setFormData({
-        title: editBook.title,
-        authorName: editBook.author?.name || '',
-        isbn: editBook.isbn,
-        year: editBook.year.toString(),
-        publisherName: editBook.publisher?.name || '',
-        description: editBook.details?.description || '',
-        thumbnail: editBook.details?.thumbnail || '',
-      });
+      const bookData = toFormData(editBook);
+      setFormData(bookData);
+      setEditBase({ formData: bookData, version: editBook.version });
     } else {
       // Reset form when not editing
       setFormData({
@@ -98,21 +222,90 @@ export const BookFormModal: React.FC<BookFormModalProps> = ({
         description: '',
         thumbnail: '',
       });
+      setEditBase(null);
     }
     setErrors({});
+    setConflict(null);
+    setHeldImport(null);
+    setIsDuplicateHeld(false);
+    setPreviewResult(null);
   }, [editBook, isOpen]);
 
-  // Close modal on Escape key
+  // Surface create/update failures. Field errors from the server (ProblemDetails
+  // `errors`) reopen the form with the rejected input and the fields highlighted;
+  // an edit that lost to someone else's save reopens it with the conflict dialog.
+  useEffect(() => {
+    const submitted = submittedRef.current;
+    const mutationError = submitted?.editBook ? updateError : createError;
+    if (!submitted || !mutationError) return;
+    submittedRef.current = null;
+
+    const title = submitted.formData.title.trim();
+    if (submitted.editBook && updateConflict) {
+      rejectedRef.current = {
+        formData: submitted.formData,
+        errors: {},
+        editBase: submitted.editBase,
+        conflict: {
+          base: submitted.editBase?.formData || toFormData(submitted.editBook),
+          mine: submitted.formData,
+          theirs: toFormData(updateConflict),
+          version: updateConflict.version,
+        },
+      };
+      onError?.(`"${title}" was changed by someone else while you were editing - choose which changes to keep.`);
+      onRejected?.(updateConflict);
+      return;
+    }
+
+    const { mapped, unmapped } = mapFieldErrors(mutationError.fieldErrors, SERVER_FIELDS);
+    if (Object.keys(mapped).length === 0) {
+      onError?.(
+        submitted.editBook
+          ? `Failed to update "${title}" - ${mutationError.message} Your changes were rolled back.`
+          : `Failed to add "${title}" - ${mutationError.message}`
+      );
+      return;
+    }
+
+    rejectedRef.current = { formData: submitted.formData, errors: mapped, editBase: submitted.editBase };
+    onError?.(unmapped.length > 0 ? unmapped.join(' ') : `"${title}" was not saved - please fix the highlighted fields.`);
+    onRejected?.(submitted.editBook);
+  }, [createError, updateError, updateConflict, onError, onRejected]);
+
+  const conflictFields = useMemo<ConflictField<keyof FormData>[]>(
+    () =>
+      conflict
+        ? (Object.keys(FIELD_LABELS) as (keyof FormData)[]).map((key) => ({
+            key,
+            label: FIELD_LABELS[key],
+            base: conflict.base[key],
+            mine: conflict.mine[key],
+            theirs: conflict.theirs[key],
+          }))
+        : [],
+    [conflict]
+  );
+
+  // Merged values go back into the form, to be saved against the server's version
+  const handleResolveConflict = (values: FormData) => {
+    if (!conflict) return;
+    setFormData(values);
+    setEditBase({ formData: conflict.theirs, version: conflict.version });
+    setConflict(null);
+  };
+
+  // Close modal on Escape key (not while a conflict needs an answer)
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
-      if (e.key === 'Escape' && isOpen) {
+      if (e.key === 'Escape' && isOpen && !conflict) {
         onClose();
       }
     };
 
     window.addEventListener('keydown', handleEscape);
     return () => window.removeEventListener('keydown', handleEscape);
-  }, [isOpen, onClose]);
+  }, [isOpen, conflict, onClose]);
 
   // Prevent body scroll when modal is open
   useEffect(() => {
@@ -127,33 +320,30 @@ export const BookFormModal: React.FC<BookFormModalProps> = ({
     };
   }, [isOpen]);
 
-  // Handle book selection from autocomplete - Use ISBN import endpoint
-  const handleSelectBook = useCallback(async (book: BookSearchResult) => {
+  // Handle book selection from autocomplete - reviewed in the import preview first,
+  // or held back if the library seems to have it already
+  const handleSelectBook = useCallback((book: BookSearchResult) => {
     // Close the autocomplete dropdown immediately
     setShowAutocomplete(false);
     setSearchResults([]);
     setSelectedIndex(-1);
-    
-    // If book has ISBN, use the import endpoint (backend handles everything)
-    if (book.isbn) {
-      const createdBook = await importBook(book.isbn);
-      
-      if (createdBook) {
-        // Refresh authors list in case a new author was created
-        onAuthorsRefresh?.();
-        
-        // Trigger success callback
-        onSuccess?.(createdBook);
-        
-        // Close modal
-        onClose();
-        return;
-      }
+
+    const matches = checkDuplicates({ title: book.title, authors: book.authors, isbn: book.isbn });
+    if (matches.length > 0) {
+      const isSameIsbn = matches.some((match) => match.reason === 'isbn');
+      setHeldImport({
+        matches,
+        proceed: isSameIsbn
+          ? undefined
+          : () => {
+              setHeldImport(null);
+              setPreviewResult(book);
+            },
+      });
+      return;
     }
-    
-    // Fallback: No ISBN or import failed - show error
-    onError?.('Failed to add book. Missing ISBN or book already exists.');
-  }, [importBook, onSuccess, onClose, onAuthorsRefresh, onError]);
+    setPreviewResult(book);
+  }, [checkDuplicates]);
 
   // Search books by title (debounced)
   useEffect(() => {
@@ -164,11 +354,13 @@ export const BookFormModal: React.FC<BookFormModalProps> = ({
         const resetMaxResults = 5;
         setCurrentMaxResults(resetMaxResults);
         const results = await searchBooks(debouncedTitle, resetMaxResults);
+        if (!results) return; // Superseded by a newer search
         setSearchResults(results);
         setShowAutocomplete(results.length > 0);
         // If we got 5 results, there might be more available (up to 40)
         setCanLoadMore(results.length === resetMaxResults);
       } else {
+        cancelSearch();
         setSearchResults([]);
         setShowAutocomplete(false);
         setCanLoadMore(false);
@@ -176,7 +368,14 @@ export const BookFormModal: React.FC<BookFormModalProps> = ({
     };
 
     performSearch();
-  }, [debouncedTitle, searchBooks, isEditMode]);
+  }, [debouncedTitle, searchBooks, cancelSearch, isEditMode]);
+
+  // Drop any search still in flight when the modal closes
+  useEffect(() => {
+    if (!isOpen) {
+      cancelSearch();
+    }
+  }, [isOpen, cancelSearch]);
 
   // Function to load more results - directly fetches with new limit
   const handleLoadMore = useCallback(async () => {
@@ -187,6 +386,7 @@ export const BookFormModal: React.FC<BookFormModalProps> = ({
     
     // Fetch with the new limit
     const results = await searchBooks(debouncedTitle, newMaxResults);
+    if (!results) return; // Superseded by a newer search
     setSearchResults(results);
     // If results length equals what we asked for and we're not at cap, there might be more
     setCanLoadMore(results.length === newMaxResults && newMaxResults < 40);
@@ -263,10 +463,10 @@ export const BookFormModal: React.FC<BookFormModalProps> = ({
       newErrors.authorName = 'Author name is required';
     }
 
-    if (!formData.isbn.trim()) {
-      newErrors.isbn = 'ISBN is required';
-    } else if (!/^[0-9-]+$/.test(formData.isbn)) {
-      newErrors.isbn = 'ISBN should contain only numbers and hyphens';
+    // An edited book may keep an ISBN that predates validation, as long as it is left unchanged
+    const isbnError = getISBNError(formData.isbn);
+    if (isbnError && !(isEditMode && editBook && formData.isbn.trim() && formData.isbn.trim() === editBook.isbn)) {
+      newErrors.isbn = isbnError;
     }
 
     if (!formData.year.trim()) {
@@ -282,43 +482,77 @@ export const BookFormModal: React.FC<BookFormModalProps> = ({
     return Object.keys(newErrors).length === 0;
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  /**
+   * Id of the author with this name (case-insensitive), created if the library
+   * has none yet - null if creating it failed
+   */
+  const resolveAuthorId = async (name: string): Promise<number | null> => {
+    const existingAuthor = authors?.find(a => a.name.toLowerCase() === name.toLowerCase());
+    if (existingAuthor) return existingAuthor.id;
+
+    const newAuthor = await createAuthor({ name });
+    return newAuthor ? newAuthor.id : null;
+  };
+
+  /**
+   * Publisher for a name (created if new; null id for an empty name) - null if
+   * creating it failed (new publishers need the server - they are not queued offline)
+   */
+  const resolvePublisher = async (name: string): Promise<{ publisherId: number | null } | null> => {
+    if (!name) return { publisherId: null };
+    const existingPublisher = publishers?.find(p => p.name.toLowerCase() === name.toLowerCase());
+    if (existingPublisher) return { publisherId: existingPublisher.id };
+
+    const newPublisher = await createPublisher({ name });
+    return newPublisher ? { publisherId: newPublisher.id } : null;
+  };
+
+  // `allowSimilar` = the user chose "Add Anyway" after the similar-books warning
+  const handleSubmit = async (e?: React.FormEvent, allowSimilar = false) => {
+    e?.preventDefault();
 
     if (!validateForm()) {
       return;
     }
 
+    const matches = checkDuplicates({
+      title: isEditMode ? '' : formData.title,
+      authors: isEditMode ? [] : [formData.authorName],
+      isbn: formData.isbn,
+    });
+    const sameIsbn = matches.find((match) => match.reason === 'isbn');
+    if (sameIsbn) {
+      setErrors((prev) => ({ ...prev, isbn: `Already in your library as "${sameIsbn.book.title}"` }));
+      return;
+    }
+    if (matches.length > 0 && !allowSimilar) {
+      setIsDuplicateHeld(true);
+      return;
+    }
+    setIsDuplicateHeld(false);
+
+    setIsSubmitting(true);
+
     try {
       // Step 1: Get or create author
-      let authorId: number;
-      const authorName = formData.authorName.trim();
-      const existingAuthor = authors?.find(a => a.name.toLowerCase() === authorName.toLowerCase());
-      
-      if (existingAuthor) {
-        authorId = existingAuthor.id;
-      } else {
-        // Create new author
-        const newAuthor = await createAuthor({ name: authorName });
-        if (!newAuthor) {
-          onError?.('Failed to create author. Please try again.');
-          return;
-        }
-        authorId = newAuthor.id;
-        // Refresh authors list
-        onAuthorsRefresh?.();
+      const authorId = await resolveAuthorId(formData.authorName.trim());
+      if (authorId === null) {
+        onError?.('Failed to create author. Please try again.');
+        return;
       }
 
-      // Step 2: Handle publisher (if provided)
-      // NOTE: Publisher management is NOT YET IMPLEMENTED in the backend
-      // For now, we just keep existing publisherId or set to null
-      let publisherId: number | null = null;
-      if (isEditMode && editBook) {
-        // Keep existing publisher ID when editing
-        publisherId = editBook.publisherId || null;
+      // Step 2: Get or create publisher (optional - an empty field clears it)
+      const publisher = await resolvePublisher(formData.publisherName.trim());
+      if (!publisher) {
+        setErrors(prev => ({
+          ...prev,
+          publisherName: navigator.onLine
+            ? 'Failed to create publisher. Please try again.'
+            : 'New publishers can only be added while online - pick an existing one or leave it empty.',
+        }));
+        return;
       }
-      // TODO: When backend adds /publishers endpoints, add publisher lookup/creation here
-      // similar to author handling above
+      const { publisherId } = publisher;
 
       // Step 3: Create or update book
       if (isEditMode && editBook) {
@@ -326,7 +560,7 @@ export const BookFormModal: React.FC<BookFormModalProps> = ({
         const updateData: UpdateBookDTO = {
           title: formData.title.trim(),
           authorId,
-          isbn: formData.isbn.trim(),
+          isbn: normalizeISBN(formData.isbn) ?? formData.isbn.trim(), // Stored as ISBN-13 without hyphens
           year: parseInt(formData.year),
           publisherId, // Use the resolved publisher ID
         };
@@ -336,23 +570,27 @@ export const BookFormModal: React.FC<BookFormModalProps> = ({
         updateData.thumbnail = formData.thumbnail.trim() || null;
         updateData.smallThumbnail = editBook.details?.smallThumbnail || null;
 
-        const result = await updateBook(editBook.id, updateData);
+        // Optimistic update - the change is visible immediately, so close the form right away
+        submittedRef.current = { formData, editBook, editBase };
+        const request = updateBook(editBook.id, updateData, editBase?.version);
+        setIsSubmitting(false);
+        onSubmitted?.();
+        onClose();
 
+        // Failures (and the rollback) are reported by the mutation error effect above
+        const result = await request;
         if (result) {
-          // Trigger success - this will refresh books AND authors
-          onSuccess?.(result);
-          onClose();
-        } else {
-          onError?.('Failed to update book. Please try again.');
+          submittedRef.current = null;
+          onSuccess?.(result, true);
         }
       } else {
         // Create new book
         const bookData: CreateBookDTO = {
           title: formData.title.trim(),
           authorId,
-          isbn: formData.isbn.trim(),
+          isbn: normalizeISBN(formData.isbn) ?? formData.isbn.trim(), // Stored as ISBN-13 without hyphens
           year: parseInt(formData.year),
-          publisherId, // Use the resolved publisher ID (currently always null)
+          publisherId, // Use the resolved publisher ID
         };
 
         // Add optional fields if they have values
@@ -363,43 +601,140 @@ export const BookFormModal: React.FC<BookFormModalProps> = ({
           bookData.thumbnail = formData.thumbnail.trim();
         }
 
-        const result = await createBook(bookData);
+        // Optimistic create - a pending card appears immediately
+        submittedRef.current = { formData, editBook: null, editBase: null };
+        const request = createBook(bookData);
+        setIsSubmitting(false);
+        onSubmitted?.();
+        onClose();
 
+        const result = await request;
         if (result) {
-          onSuccess?.(result);
-          onClose();
-        } else {
-          onError?.('Failed to add book. Please try again.');
+          submittedRef.current = null;
+          onSuccess?.(result, false);
         }
       }
     } catch (error) {
       console.error('Book operation error:', error);
       onError?.(isEditMode ? 'Failed to update book. Please try again.' : 'Failed to add book. Please try again.');
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
-  const handleIsbnImport = async () => {
-    if (!isbnImportValue.trim()) {
+  const handleIsbnImport = async (isbn = isbnImportValue) => {
+    if (!isbn.trim()) {
       onError?.('Please enter an ISBN to import');
       return;
     }
+    const isbnError = getISBNError(isbn);
+    if (isbnError) {
+      onError?.(`${isbnError}.`);
+      return;
+    }
+
+    // Same ISBN already in the library - offer the existing book instead of a failing request
+    const matches = checkDuplicates({ isbn });
+    if (matches.length > 0) {
+      setHeldImport({ matches });
+      return;
+    }
 
-    const result = await importBook(isbnImportValue.trim());
+    const result = await importBook(isbn);
 
     if (result) {
       // Book successfully imported and added to database!
       setShowIsbnImport(false);
       setIsbnImportValue('');
-      // Refresh authors list in case a new author was created
-      onAuthorsRefresh?.();
       // Close the modal and trigger success callback with the imported book
-      onSuccess?.(result);
+      onSuccess?.(result, false);
       onClose();
     } else {
       onError?.('Failed to import book. ISBN not found or already in library.');
     }
   };
 
+  /**
+   * Create the reviewed Google Books result with exactly the values the user
+   * confirmed - nothing is saved before that (the ISBN import endpoint would
+   * store the unreviewed data and create the Google Books author)
+   */
+  const handleConfirmPreview = async (values: ImportPreviewValues) => {
+    const result = previewResult;
+    if (!result) return;
+
+    // Without an ISBN the book cannot be created yet - finish it in the form
+    if (!result.isbn) {
+      setFormData({ ...values, isbn: '' });
+      setErrors({ isbn: 'This Google Books result has no ISBN - please enter it' });
+      setPreviewResult(null);
+      return;
+    }
+
+    const reviewed: FormData = { ...values, isbn: normalizeISBN(result.isbn) ?? result.isbn };
+    setIsSubmitting(true);
+
+    try {
+      const authorId = await resolveAuthorId(values.authorName);
+      if (authorId === null) {
+        onError?.('Failed to create author. Please try again.');
+        return;
+      }
+
+      const publisher = await resolvePublisher(values.publisherName.trim());
+      if (!publisher) {
+        onError?.(
+          navigator.onLine
+            ? 'Failed to create publisher. Please try again.'
+            : 'New publishers can only be added while online - pick an existing one or leave it empty.'
+        );
+        return;
+      }
+
+      const thumbnail = values.thumbnail.trim() || null;
+      const bookData: CreateBookDTO = {
+        title: values.title.trim(),
+        authorId,
+        isbn: reviewed.isbn,
+        year: Number(values.year),
+        publisherId: publisher.publisherId,
+        description: values.description.trim() || null,
+        thumbnail,
+        smallThumbnail: thumbnail,
+      };
+
+      // Optimistic create, like the manual form - failures reopen the form with these values
+      submittedRef.current = { formData: reviewed, editBook: null, editBase: null };
+      const request = createBook(bookData);
+      setIsSubmitting(false);
+      onSubmitted?.();
+      onClose();
+
+      const created = await request;
+      if (created) {
+        submittedRef.current = null;
+        onSuccess?.(created, false);
+      }
+    } catch (error) {
+      console.error('Book import error:', error);
+      onError?.('Failed to add book. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Barcode read with certainty - import it right away (the ISBN stays in the input if that fails)
+  const handleBarcodeDetected = (isbn: string) => {
+    setIsbnImportValue(isbn);
+    handleIsbnImport(isbn);
+  };
+
+  // Uncertain reading chosen by the user - let them check/correct it before importing
+  const handleBarcodePicked = (isbn: string) => {
+    setIsbnImportValue(isbn);
+    isbnInputRef.current?.focus();
+  };
+
   const handleInputChange = (field: keyof FormData, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
     // Clear error when user starts typing
@@ -414,8 +749,6 @@ export const BookFormModal: React.FC<BookFormModalProps> = ({
     }
   };
 
-  const isSubmitting = creating || updating;
-
   return (
     <AnimatePresence>
       {isOpen && (
@@ -462,16 +795,27 @@ export const BookFormModal: React.FC<BookFormModalProps> = ({
               </p>
             </div>
 
-            {!isEditMode && (
+            {!isEditMode && !previewResult && (
               <div className="book-form-modal__import-section">
                 {!showIsbnImport ? (
-                  <button
-                    className="book-form-modal__import-btn"
-                    onClick={() => setShowIsbnImport(true)}
-                    type="button"
-                  >
-                    📚 Import by ISBN
-                  </button>
+                  <div className="book-form-modal__import-options">
+                    <button
+                      className="book-form-modal__import-btn"
+                      onClick={() => setShowIsbnImport(true)}
+                      type="button"
+                    >
+                      📚 Import by ISBN
+                    </button>
+                    {onOpenBulkImport && (
+                      <button
+                        className="book-form-modal__import-btn"
+                        onClick={onOpenBulkImport}
+                        type="button"
+                      >
+                        📦 Bulk Import
+                      </button>
+                    )}
+                  </div>
                 ) : (
                   <motion.div
                     className="book-form-modal__import-input-group"
@@ -480,16 +824,20 @@ export const BookFormModal: React.FC<BookFormModalProps> = ({
                     exit={{ height: 0, opacity: 0 }}
                   >
                     <input
+                      ref={isbnInputRef}
                       type="text"
                       className="book-form-modal__import-input"
                       placeholder="Enter ISBN (e.g., 978-3-16-148410-0)"
                       value={isbnImportValue}
-                      onChange={(e) => setIsbnImportValue(e.target.value)}
+                      onChange={(e) => {
+                        setIsbnImportValue(e.target.value);
+                        setHeldImport(null);
+                      }}
                       disabled={importing}
                     />
                     <button
                       className="book-form-modal__import-submit"
-                      onClick={handleIsbnImport}
+                      onClick={() => handleIsbnImport()}
                       disabled={importing}
                       type="button"
                     >
@@ -500,17 +848,52 @@ export const BookFormModal: React.FC<BookFormModalProps> = ({
                       onClick={() => {
                         setShowIsbnImport(false);
                         setIsbnImportValue('');
+                        setHeldImport(null);
                       }}
                       type="button"
                     >
                       Cancel
                     </button>
+                    <BarcodeScanner
+                      onDetected={handleBarcodeDetected}
+                      onPick={handleBarcodePicked}
+                      disabled={importing}
+                    />
                   </motion.div>
                 )}
               </div>
             )}
 
-            <form className="book-form-modal__form" onSubmit={handleSubmit}>
+            {heldImport && (
+              <div className="book-form-modal__duplicates">
+                <DuplicateWarning
+                  matches={heldImport.matches}
+                  message={
+                    heldImport.proceed
+                      ? 'Open the existing book, or import this one anyway.'
+                      : 'Open the existing book instead of importing it again.'
+                  }
+                  onOpen={onOpenExisting}
+                  actionLabel="Import Anyway"
+                  onAction={heldImport.proceed}
+                />
+              </div>
+            )}
+
+            {previewResult && (
+              <ImportPreview
+                key={previewResult.isbn || previewResult.title}
+                result={previewResult}
+                libraryAuthors={authors?.map((author) => author.name) || []}
+                isImporting={importing || isSubmitting}
+                confirmLabel={previewResult.isbn ? 'Import Book' : 'Continue in Form'}
+                onConfirm={handleConfirmPreview}
+                onCancel={() => setPreviewResult(null)}
+              />
+            )}
+
+            {/* Kept mounted (hidden) while a Google Books result is previewed */}
+            <form className="book-form-modal__form" onSubmit={handleSubmit} hidden={!!previewResult}>
               {/* Title Field with Autocomplete */}
               <div className="book-form-modal__field book-form-modal__field--autocomplete">
                 <label htmlFor="book-title" className="book-form-modal__label">
@@ -666,23 +1049,37 @@ export const BookFormModal: React.FC<BookFormModalProps> = ({
                 )}
               </div>
 
-              {/* Publisher Name Field - Read-only (only set via ISBN import) */}
-              {formData.publisherName && (
-                <div className="book-form-modal__field">
-                  <label htmlFor="book-publisher" className="book-form-modal__label">
-                    Publisher
-                  </label>
-                  <input
-                    id="book-publisher"
-                    type="text"
-                    className="book-form-modal__input"
-                    value={formData.publisherName}
-                    readOnly
-                    disabled
-                    title="Publisher can only be set via ISBN import"
-                  />
-                </div>
-              )}
+              {/* Publisher Name Field - pick an existing publisher or type a new one */}
+              <div className="book-form-modal__field">
+                <label htmlFor="book-publisher" className="book-form-modal__label">
+                  Publisher
+                </label>
+                <input
+                  id="book-publisher"
+                  type="text"
+                  list="book-publisher-options"
+                  autoComplete="off"
+                  className={`book-form-modal__input ${errors.publisherName ? 'book-form-modal__input--error' : ''}`}
+                  placeholder="Penguin Books, Tor Books, etc."
+                  value={formData.publisherName}
+                  onChange={(e) => handleInputChange('publisherName', e.target.value)}
+                  disabled={isSubmitting}
+                />
+                <datalist id="book-publisher-options">
+                  {publishers?.map((publisher) => (
+                    <option key={publisher.id} value={publisher.name} />
+                  ))}
+                </datalist>
+                {errors.publisherName ? (
+                  <span className="book-form-modal__error">{errors.publisherName}</span>
+                ) : (
+                  formData.publisherName.trim() &&
+                  publishers &&
+                  !publishers.some((p) => p.name.toLowerCase() === formData.publisherName.trim().toLowerCase()) && (
+                    <span className="book-form-modal__hint">A new publisher will be created</span>
+                  )
+                )}
+              </div>
 
               {/* Description Field */}
               <div className="book-form-modal__field">
@@ -727,6 +1124,15 @@ export const BookFormModal: React.FC<BookFormModalProps> = ({
                 )}
               </div>
 
+              {/* Possible duplicates in the library */}
+              <DuplicateWarning
+                matches={duplicates}
+                message={isDuplicateHeld ? 'Open the existing book, or press Add Anyway to create this one regardless.' : undefined}
+                onOpen={onOpenExisting}
+                actionLabel={isDuplicateHeld ? 'Add Anyway' : undefined}
+                onAction={() => handleSubmit(undefined, true)}
+              />
+
               {/* Form Actions */}
               <div className="book-form-modal__actions">
                 <button
@@ -754,6 +1160,13 @@ export const BookFormModal: React.FC<BookFormModalProps> = ({
               </div>
             </form>
           </motion.div>
+
+          <ConflictDialog
+            isOpen={!!conflict}
+            recordLabel={conflict?.mine.title || ''}
+            fields={conflictFields}
+            onResolve={handleResolveConflict}
+          />
         </motion.div>
       )}
     </AnimatePresence>
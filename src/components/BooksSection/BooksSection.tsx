@@ -1,8 +1,14 @@
-import { useState, useMemo } from 'react';
-import { motion } from 'framer-motion';
+import { useState, useMemo, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
 import { BookCard } from '../BookCard';
+import { ExportMenu } from '../ExportMenu';
 import { useDebounce } from '../../hooks/useDebounce';
-import type { Book, APIError } from '../../types/api';
+import { useAuth } from '../../hooks/useAuth';
+import { useLoadAllBooks } from '../../hooks/useAPI';
+import type { Book, APIError, BookPageQuery } from '../../types/api';
+import type { PendingOperation } from '../../services/entityStore';
+import { matchesISBN } from '../../services/isbn';
+import { BOOK_EXPORT_COLUMNS } from '../../services/catalogExport';
 import './BooksSection.scss';
 
 interface BooksSectionProps {
@@ -11,40 +17,108 @@ interface BooksSectionProps {
   books?: Book[];
   loading?: boolean;
   error?: APIError | null;
+  pendingBooks?: Record<number, PendingOperation>; // Books with unconfirmed optimistic changes
+  onRetry?: () => void;
+  totalCount?: number; // Books matching the search on the server (defaults to books.length)
+  hasMore?: boolean; // More pages can be loaded
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
+  onQueryChange?: (query: BookQuery) => void; // Debounced search + sort, for server-side paging
+  newBooksCount?: number; // Added by someone else since the list was loaded
+  onShowNewBooks?: () => void;
 }
 
 type BookSort = 'title' | 'year' | 'added';
 
-function BooksSection({ onBookClick, onAddBookClick, books = [], loading = false, error = null }: BooksSectionProps) {
+export type BookQuery = Pick<BookPageQuery, 'search' | 'sortBy' | 'sortOrder'>;
+
+// Sort options as the paged endpoint understands them ('added' = newest id first)
+const SORT_QUERIES: Record<BookSort, Omit<BookQuery, 'search'>> = {
+  title: { sortBy: 'title', sortOrder: 'asc' },
+  year: { sortBy: 'year', sortOrder: 'desc' },
+  added: { sortBy: 'id', sortOrder: 'desc' },
+};
+
+// Filter books by search term (title, ISBN or author), then sort
+const filterAndSort = (books: Book[], searchTerm: string, sortBy: BookSort) => {
+  const term = searchTerm.toLowerCase();
+  const filtered = books.filter((book) => {
+    if (!term) return true;
+    return (
+      book.title.toLowerCase().includes(term) ||
+      matchesISBN(book.isbn, term) ||
+      book.author?.name.toLowerCase().includes(term)
+    );
+  });
+
+  return [...filtered].sort((a, b) => {
+    if (sortBy === 'title') {
+      return a.title.localeCompare(b.title);
+    } else if (sortBy === 'year') {
+      return (b.year || 0) - (a.year || 0);
+    } else {
+      // sort by added (book id)
+      return (b.id || 0) - (a.id || 0);
+    }
+  });
+};
+
+function BooksSection({
+  onBookClick,
+  onAddBookClick,
+  books = [],
+  loading = false,
+  error = null,
+  pendingBooks = {},
+  onRetry,
+  totalCount,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore,
+  onQueryChange,
+  newBooksCount = 0,
+  onShowNewBooks,
+}: BooksSectionProps) {
   const [searchTerm, setSearchTerm] = useState('');
   const [sortBy, setSortBy] = useState<BookSort>('title');
   const debouncedSearchTerm = useDebounce(searchTerm, 300);
+  const { isAuthenticated } = useAuth();
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Let the parent fetch the matching page(s) from the server
+  useEffect(() => {
+    onQueryChange?.({ search: debouncedSearchTerm, ...SORT_QUERIES[sortBy] });
+  }, [debouncedSearchTerm, sortBy, onQueryChange]);
 
   // Filter and sort books with debounced search
-  const sortedBooks = useMemo(() => {
-    // Filter books by debounced search term
-    const filtered = books.filter((book) => {
-      if (!debouncedSearchTerm) return true;
-      const term = debouncedSearchTerm.toLowerCase();
-      return (
-        book.title.toLowerCase().includes(term) ||
-        book.isbn?.toLowerCase().includes(term) ||
-        book.author?.name.toLowerCase().includes(term)
-      );
-    });
-
-    // Sort books
-    return [...filtered].sort((a, b) => {
-      if (sortBy === 'title') {
-        return a.title.localeCompare(b.title);
-      } else if (sortBy === 'year') {
-        return (b.year || 0) - (a.year || 0);
-      } else {
-        // sort by added (book id)
-        return (b.id || 0) - (a.id || 0);
-      }
-    });
-  }, [books, debouncedSearchTerm, sortBy]);
+  const sortedBooks = useMemo(() => filterAndSort(books, debouncedSearchTerm, sortBy), [books, debouncedSearchTerm, sortBy]);
+
+  // The export can include the pages not loaded yet - same search and order as the grid
+  const { loadAllBooks } = useLoadAllBooks();
+  const loadAllForExport = async () => {
+    const allBooks = await loadAllBooks();
+    return allBooks && filterAndSort(allBooks, debouncedSearchTerm, sortBy);
+  };
+
+  // Keep showing cached (e.g. offline) books when a refresh fails
+  const showError = !!error && books.length === 0;
+  const matchingCount = totalCount ?? sortedBooks.length;
+  const canLoadMore = hasMore && !!onLoadMore && !loading && !showError;
+
+  // Infinite scroll - load the next page once the end of the grid comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!canLoadMore || loadingMore || !sentinel || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) onLoadMore?.();
+      },
+      { rootMargin: '400px 0px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [canLoadMore, loadingMore, onLoadMore]);
 
   const renderContent = () => {
     if (loading) {
@@ -56,23 +130,32 @@ function BooksSection({ onBookClick, onAddBookClick, books = [], loading = false
       );
     }
 
-    if (error) {
+    if (showError && error) {
       return (
         <div className="books-section__error">
-          <div className="books-section__error-icon">⚠️</div>
-          <h3>Failed to Load Books</h3>
-          <p>{error.message || 'An error occurred while fetching books.'}</p>
+          <div className="books-section__error-icon">{error.isColdStart ? '😴' : '⚠️'}</div>
+          <h3>{error.isColdStart ? 'Server Is Still Waking Up' : 'Failed to Load Books'}</h3>
+          <p>
+            {error.isColdStart
+              ? 'The backend did not finish starting in time. It is usually ready after a minute - please try again.'
+              : error.message || 'An error occurred while fetching books.'}
+          </p>
+          {onRetry && (
+            <button className="books-section__retry-btn" onClick={onRetry}>
+              Try Again
+            </button>
+          )}
         </div>
       );
     }
 
-    if (books.length === 0) {
+    if (books.length === 0 && !debouncedSearchTerm) {
       return (
         <div className="books-section__empty">
           <div className="books-section__empty-icon">📚</div>
           <h3>No Books Yet</h3>
           <p>Be the first to add a book to the library!</p>
-          {onAddBookClick && (
+          {onAddBookClick && isAuthenticated && (
             <button className="books-section__add-btn" onClick={onAddBookClick}>
               <span className="books-section__add-icon">+</span>
               Add First Book
@@ -110,6 +193,7 @@ function BooksSection({ onBookClick, onAddBookClick, books = [], loading = false
             key={book.id}
             book={book}
             onCardClick={onBookClick}
+            pending={pendingBooks[book.id]}
           />
         ))}
       </motion.div>
@@ -180,8 +264,20 @@ function BooksSection({ onBookClick, onAddBookClick, books = [], loading = false
             </select>
           </div>
 
+          {/* Export */}
+          {!loading && !showError && books.length > 0 && (
+            <ExportMenu
+              name="books"
+              columns={BOOK_EXPORT_COLUMNS}
+              items={sortedBooks}
+              totalCount={Math.max(matchingCount, sortedBooks.length)}
+              allLabel={debouncedSearchTerm ? 'All matching' : undefined}
+              loadAll={loadAllForExport}
+            />
+          )}
+
           {/* Add Book Button */}
-          {onAddBookClick && (
+          {onAddBookClick && isAuthenticated && (
             <button className="books-section__add-btn" onClick={onAddBookClick}>
               <span className="books-section__add-icon">+</span>
               Add Book
@@ -189,21 +285,54 @@ function BooksSection({ onBookClick, onAddBookClick, books = [], loading = false
           )}
         </motion.div>
 
+        {/* Books added elsewhere - listed only on request, so the grid does not jump */}
+        <AnimatePresence>
+          {newBooksCount > 0 && onShowNewBooks && !loading && !showError && (
+            <motion.div
+              className="books-section__new"
+              initial={{ opacity: 0, y: -10 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -10 }}
+              transition={{ duration: 0.3 }}
+            >
+              <button className="books-section__new-btn" onClick={onShowNewBooks}>
+                ↑ {newBooksCount} new book{newBooksCount !== 1 ? 's' : ''} · Show
+              </button>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
         {/* Results Count */}
-        {!loading && !error && books.length > 0 && (
+        {!loading && !showError && sortedBooks.length > 0 && (
           <motion.div
             className="books-section__results"
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
             transition={{ delay: 0.4 }}
           >
-            Showing {sortedBooks.length} of {books.length} book
-            {books.length !== 1 ? 's' : ''}
+            Showing {sortedBooks.length} of {matchingCount} book
+            {matchingCount !== 1 ? 's' : ''}
           </motion.div>
         )}
 
         {/* Content */}
         {renderContent()}
+
+        {/* Next Page */}
+        {(canLoadMore || loadingMore) && (
+          <div className="books-section__more" ref={sentinelRef}>
+            {loadingMore ? (
+              <>
+                <div className="books-section__spinner" />
+                <span>Loading more books...</span>
+              </>
+            ) : (
+              <button className="books-section__more-btn" onClick={onLoadMore}>
+                Load More
+              </button>
+            )}
+          </div>
+        )}
       </div>
     </section>
   );
@@ -1 +1,2 @@
 export { default as BooksSection } from './BooksSection';
+export type { BookQuery } from './BooksSection';
@@ -0,0 +1,327 @@
+import { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { Book } from '../../types/api';
+import { useBulkImport } from '../../hooks/useBulkImport';
+import { parseIsbnList, BULK_IMPORT_POLICY } from '../../services/bulkImport';
+import type { BulkImportItem, BulkImportStatus } from '../../services/bulkImport';
+import './BulkImportModal.scss';
+
+interface BulkImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onOpenBook?: (book: Book) => void; // An imported book, or the library's copy of a duplicate
+}
+
+const STATUS_LABELS: Record<BulkImportStatus, string> = {
+  queued: 'Queued',
+  importing: 'Importing…',
+  imported: 'Imported',
+  duplicate: 'Duplicate',
+  'not-found': 'Not found',
+  failed: 'Failed',
+};
+
+const plural = (count: number, one: string, many = `${one}s`) => `${count} ${count === 1 ? one : many}`;
+
+// Tab-separated report, one row per ISBN (pastes cleanly into a spreadsheet)
+const toReport = (items: BulkImportItem[]) =>
+  ['ISBN\tResult\tDetails', ...items.map((item) => [item.isbn, STATUS_LABELS[item.status], item.book?.title || item.message || ''].join('\t'))].join('\n');
+
+/**
+ * Import many ISBNs at once - pasted or dropped as a .txt/.csv file - with a
+ * limited number of parallel requests, per-ISBN results and retry
+ */
+export const BulkImportModal: React.FC<BulkImportModalProps> = ({ isOpen, onClose, onOpenBook }) => {
+  const { items, counts, progress, isRunning, isFinished, concurrency, add, start, pause, retry, setConcurrency, clearFinished, clear } =
+    useBulkImport();
+
+  const [text, setText] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Fresh input every time the modal opens - the queue itself is kept
+  useEffect(() => {
+    setText('');
+    setNotice(null);
+    setCopied(false);
+  }, [isOpen]);
+
+  // Close modal on Escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen) {
+        onClose();
+      }
+    };
+
+    window.addEventListener('keydown', handleEscape);
+    return () => window.removeEventListener('keydown', handleEscape);
+  }, [isOpen, onClose]);
+
+  // Prevent body scroll when modal is open
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = 'hidden';
+    } else {
+      document.body.style.overflow = '';
+    }
+
+    return () => {
+      document.body.style.overflow = '';
+    };
+  }, [isOpen]);
+
+  const queueText = (input: string, source: string) => {
+    const { isbns, invalid } = parseIsbnList(input);
+    const added = add(isbns);
+    const skipped = isbns.length - added;
+
+    const parts = [`${plural(added, 'ISBN')} added from ${source}`];
+    if (skipped > 0) parts.push(`${skipped} already queued`);
+    if (invalid.length > 0) {
+      parts.push(`${plural(invalid.length, 'entry', 'entries')} ignored (not an ISBN: ${invalid.slice(0, 3).join(', ')}${invalid.length > 3 ? ', …' : ''})`);
+    }
+    setNotice(parts.join(' · '));
+    setCopied(false);
+    return added;
+  };
+
+  const handleAddText = () => {
+    if (!text.trim()) {
+      setNotice('Paste at least one ISBN.');
+      return;
+    }
+    if (queueText(text, 'the list') > 0) setText('');
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    if (!/\.(txt|csv)$/i.test(file.name) && !file.type.startsWith('text/')) {
+      setNotice(`"${file.name}" is not a text or CSV file.`);
+      return;
+    }
+    queueText(await file.text(), `"${file.name}"`);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFile(e.dataTransfer.files[0]);
+  };
+
+  const handleCopyReport = async () => {
+    try {
+      await navigator.clipboard.writeText(toReport(items));
+      setCopied(true);
+    } catch {
+      setNotice('Could not copy the report.');
+    }
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  const pendingCount = counts.queued + counts.importing;
+  const doneCount = items.length - pendingCount;
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          className="bulk-import-modal"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.2 }}
+          onClick={handleBackdropClick}
+        >
+          <motion.div
+            className="bulk-import-modal__content"
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="bulk-import-title"
+            initial={{ scale: 0.9, opacity: 0, y: 20 }}
+            animate={{ scale: 1, opacity: 1, y: 0 }}
+            exit={{ scale: 0.9, opacity: 0, y: 20 }}
+            transition={{ duration: 0.3, ease: 'easeOut' }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <button className="bulk-import-modal__close" onClick={onClose} aria-label="Close bulk import">
+              ✕
+            </button>
+
+            <div className="bulk-import-modal__header">
+              <h1 id="bulk-import-title" className="bulk-import-modal__title">
+                Bulk Import
+              </h1>
+              <p className="bulk-import-modal__subtitle">
+                Import many books from Google Books at once. The import keeps running if you close this window.
+              </p>
+            </div>
+
+            {/* Input: pasted list or dropped file */}
+            <div
+              className={`bulk-import-input ${isDragging ? 'bulk-import-input--dragging' : ''}`}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setIsDragging(true);
+              }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={handleDrop}
+            >
+              <label htmlFor="bulk-import-text" className="bulk-import-input__label">
+                ISBNs
+              </label>
+              <textarea
+                id="bulk-import-text"
+                className="bulk-import-input__textarea"
+                placeholder={'One ISBN per line, or separated by commas\n9780441172719\n978-0-7653-2635-5'}
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                rows={5}
+              />
+              <div className="bulk-import-input__row">
+                <span className="bulk-import-input__hint">
+                  or drop a .txt / .csv file here (a CSV's "isbn" column is used)
+                </span>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".txt,.csv,text/plain,text/csv"
+                  className="bulk-import-input__file"
+                  onChange={(e) => {
+                    handleFile(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                />
+                <button type="button" className="bulk-import-btn" onClick={() => fileInputRef.current?.click()}>
+                  Choose File
+                </button>
+                <button type="button" className="bulk-import-btn bulk-import-btn--primary" onClick={handleAddText}>
+                  Add to Queue
+                </button>
+              </div>
+              {notice && (
+                <p className="bulk-import-input__notice" role="status">
+                  {notice}
+                </p>
+              )}
+            </div>
+
+            {items.length > 0 && (
+              <>
+                {/* Controls + progress */}
+                <div className="bulk-import-controls">
+                  <label className="bulk-import-controls__concurrency">
+                    Parallel requests
+                    <select
+                      value={concurrency}
+                      onChange={(e) => setConcurrency(Number(e.target.value))}
+                      disabled={isRunning}
+                    >
+                      {BULK_IMPORT_POLICY.concurrencyOptions.map((option) => (
+                        <option key={option} value={option}>
+                          {option}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+
+                  <div className="bulk-import-controls__actions">
+                    {isRunning ? (
+                      <button type="button" className="bulk-import-btn" onClick={pause}>
+                        Pause
+                      </button>
+                    ) : (
+                      <button
+                        type="button"
+                        className="bulk-import-btn bulk-import-btn--primary"
+                        onClick={start}
+                        disabled={counts.queued === 0}
+                      >
+                        {doneCount > 0 && counts.queued > 0 ? 'Resume' : 'Start Import'}
+                      </button>
+                    )}
+                    <button type="button" className="bulk-import-btn" onClick={() => retry()} disabled={counts.failed === 0}>
+                      Retry Failed{counts.failed > 0 ? ` (${counts.failed})` : ''}
+                    </button>
+                    <button type="button" className="bulk-import-btn" onClick={clearFinished} disabled={doneCount === 0}>
+                      Clear Finished
+                    </button>
+                    <button type="button" className="bulk-import-btn bulk-import-btn--danger" onClick={clear}>
+                      Clear All
+                    </button>
+                  </div>
+                </div>
+
+                <div className="bulk-import-progress" aria-label={`${doneCount} of ${items.length} done`}>
+                  <div className="bulk-import-progress__bar" style={{ width: `${Math.round(progress * 100)}%` }} />
+                  <span className="bulk-import-progress__label">
+                    {doneCount} / {items.length} done
+                    {counts.importing > 0 && ` · ${counts.importing} in progress`}
+                  </span>
+                </div>
+
+                {/* Summary once the queue is empty */}
+                {isFinished && (
+                  <div className="bulk-import-summary" role="status">
+                    <p className="bulk-import-summary__title">Import finished</p>
+                    <ul className="bulk-import-summary__counts">
+                      <li className="bulk-import-summary__count bulk-import-summary__count--imported">
+                        <strong>{counts.imported}</strong> imported
+                      </li>
+                      <li className="bulk-import-summary__count bulk-import-summary__count--duplicate">
+                        <strong>{counts.duplicate}</strong> already in library
+                      </li>
+                      <li className="bulk-import-summary__count bulk-import-summary__count--not-found">
+                        <strong>{counts['not-found']}</strong> not found
+                      </li>
+                      <li className="bulk-import-summary__count bulk-import-summary__count--failed">
+                        <strong>{counts.failed}</strong> failed
+                      </li>
+                    </ul>
+                    <button type="button" className="bulk-import-btn" onClick={handleCopyReport}>
+                      {copied ? 'Report Copied ✓' : 'Copy Report'}
+                    </button>
+                  </div>
+                )}
+
+                {/* Per-ISBN results */}
+                <ul className="bulk-import-queue">
+                  {items.map(({ book, ...item }) => (
+                    <li key={item.id} className={`bulk-import-queue__item bulk-import-queue__item--${item.status}`}>
+                      <span className="bulk-import-queue__isbn">{item.isbn}</span>
+                      <span className={`bulk-import-queue__status bulk-import-queue__status--${item.status}`}>
+                        {STATUS_LABELS[item.status]}
+                      </span>
+                      <span className="bulk-import-queue__details">
+                        {book && onOpenBook ? (
+                          <button type="button" className="bulk-import-queue__book" onClick={() => onOpenBook(book)}>
+                            {book.title}
+                          </button>
+                        ) : (
+                          book?.title || item.message
+                        )}
+                        {item.attempts > 1 && <span className="bulk-import-queue__attempts"> · attempt {item.attempts}</span>}
+                      </span>
+                      {(item.status === 'failed' || item.status === 'not-found') && (
+                        <button type="button" className="bulk-import-queue__retry" onClick={() => retry([item.id])}>
+                          Retry
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1 @@
+export { BulkImportModal } from './BulkImportModal';
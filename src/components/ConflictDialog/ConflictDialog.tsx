@@ -0,0 +1,155 @@
+import { useState, useEffect, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import './ConflictDialog.scss';
+
+type Side = 'mine' | 'theirs';
+
+/**
+ * One form field in the three versions of a record
+ */
+export interface ConflictField<F extends string> {
+  key: F;
+  label: string;
+  base: string; // When the form was opened
+  mine: string; // What the user submitted
+  theirs: string; // What the server has now
+}
+
+interface ConflictDialogProps<F extends string> {
+  isOpen: boolean;
+  recordLabel: string; // e.g. the book title, for the heading
+  fields: ConflictField<F>[];
+  onResolve: (values: Record<F, string>) => void;
+}
+
+// Only one side changed the field -> take that change; both did -> the user's, flagged
+const defaultSide = <F extends string>({ base, mine, theirs }: ConflictField<F>): Side =>
+  mine === base && theirs !== base ? 'theirs' : 'mine';
+
+const isClash = <F extends string>({ base, mine, theirs }: ConflictField<F>) =>
+  mine !== base && theirs !== base && mine !== theirs;
+
+const display = (value: string) => value.trim() || '(empty)';
+
+/**
+ * Three-way merge shown when a save was rejected because someone else changed
+ * the record in the meantime. Fields that differ can be taken from either side;
+ * the result is put back into the form and saved against the server's version.
+ */
+export function ConflictDialog<F extends string>({ isOpen, recordLabel, fields, onResolve }: ConflictDialogProps<F>) {
+  const differing = useMemo(() => fields.filter((field) => field.mine !== field.theirs), [fields]);
+  const [choices, setChoices] = useState<Partial<Record<F, Side>>>({});
+
+  // Start from the suggested side for every field each time a conflict comes in
+  useEffect(() => {
+    setChoices(Object.fromEntries(differing.map((field) => [field.key, defaultSide(field)])) as Partial<Record<F, Side>>);
+  }, [differing]);
+
+  const chooseAll = (side: Side) =>
+    setChoices(Object.fromEntries(differing.map((field) => [field.key, side])) as Partial<Record<F, Side>>);
+
+  const resolve = (pick: (field: ConflictField<F>) => Side) =>
+    onResolve(
+      Object.fromEntries(fields.map((field) => [field.key, pick(field) === 'theirs' ? field.theirs : field.mine])) as Record<F, string>
+    );
+
+  const clashes = differing.filter(isClash).length;
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          className="conflict-dialog"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.2 }}
+        >
+          <motion.div
+            className="conflict-dialog__content"
+            role="alertdialog"
+            aria-modal="true"
+            aria-labelledby="conflict-dialog-title"
+            initial={{ scale: 0.9, opacity: 0, y: 20 }}
+            animate={{ scale: 1, opacity: 1, y: 0 }}
+            exit={{ scale: 0.9, opacity: 0, y: 20 }}
+            transition={{ duration: 0.3, ease: 'easeOut' }}
+          >
+            <div className="conflict-dialog__header">
+              <h1 id="conflict-dialog-title" className="conflict-dialog__title">
+                Changed by Someone Else
+              </h1>
+              <p className="conflict-dialog__subtitle">
+                "{recordLabel}" was saved by someone else while you were editing it.
+                {differing.length === 0
+                  ? ' Their changes do not touch any field you see here, so your version can be saved as is.'
+                  : ` Choose which version to keep${clashes > 0 ? ` - ${clashes} field${clashes === 1 ? ' was' : 's were'} changed on both sides` : ''}.`}
+              </p>
+            </div>
+
+            {differing.length > 0 && (
+              <>
+                <div className="conflict-dialog__bulk">
+                  <button type="button" className="conflict-dialog__bulk-btn" onClick={() => chooseAll('mine')}>
+                    Keep all mine
+                  </button>
+                  <button type="button" className="conflict-dialog__bulk-btn" onClick={() => chooseAll('theirs')}>
+                    Take all server's
+                  </button>
+                </div>
+
+                <ul className="conflict-fields">
+                  {differing.map((field) => (
+                    <li
+                      key={field.key}
+                      className={`conflict-fields__item ${isClash(field) ? 'conflict-fields__item--clash' : ''}`}
+                    >
+                      <div className="conflict-fields__label">
+                        {field.label}
+                        {isClash(field) && <span className="conflict-fields__badge">Both changed</span>}
+                      </div>
+                      <div className="conflict-fields__original">
+                        <span>Original</span>
+                        <p>{display(field.base)}</p>
+                      </div>
+                      <div className="conflict-fields__sides">
+                        {(['mine', 'theirs'] as Side[]).map((side) => (
+                          <label
+                            key={side}
+                            className={`conflict-fields__side ${choices[field.key] === side ? 'conflict-fields__side--selected' : ''}`}
+                          >
+                            <input
+                              type="radio"
+                              name={`conflict-${field.key}`}
+                              checked={choices[field.key] === side}
+                              onChange={() => setChoices((prev) => ({ ...prev, [field.key]: side }))}
+                            />
+                            <span>{side === 'mine' ? 'Yours' : "Server's"}</span>
+                            <p>{display(field[side])}</p>
+                          </label>
+                        ))}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+
+            <div className="conflict-dialog__actions">
+              <button type="button" className="btn btn--secondary" onClick={() => resolve(() => 'theirs')}>
+                Discard Mine
+              </button>
+              <button
+                type="button"
+                className="btn btn--primary"
+                onClick={() => resolve((field) => choices[field.key] || 'mine')}
+              >
+                Apply to Form
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
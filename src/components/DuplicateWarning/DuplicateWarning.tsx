@@ -0,0 +1,69 @@
+import type { Book } from '../../types/api';
+import type { DuplicateMatch } from '../../services/duplicateBooks';
+import './DuplicateWarning.scss';
+
+interface DuplicateWarningProps {
+  matches: DuplicateMatch[];
+  message?: string; // What happens next, e.g. "Press Add Anyway to create it regardless"
+  onOpen?: (book: Book) => void; // Open the existing book instead
+  actionLabel?: string; // Proceed despite the warning (only offered when no ISBN matches)
+  onAction?: () => void;
+}
+
+const REASON_LABELS: Record<DuplicateMatch['reason'], string> = {
+  isbn: 'Same ISBN',
+  similar: 'Similar title and author',
+  'similar-title': 'Similar title',
+};
+
+/**
+ * Books already in the library that the one being added probably duplicates
+ */
+export const DuplicateWarning: React.FC<DuplicateWarningProps> = ({ matches, message, onOpen, actionLabel, onAction }) => {
+  if (matches.length === 0) return null;
+  const isCertain = matches.some((match) => match.reason === 'isbn');
+
+  return (
+    <div className={`duplicate-warning ${isCertain ? 'duplicate-warning--certain' : ''}`} role="alert">
+      <p className="duplicate-warning__title">
+        ⚠️ {isCertain ? 'This book is already in your library' : 'This book may already be in your library'}
+      </p>
+      {message && <p className="duplicate-warning__message">{message}</p>}
+
+      <ul className="duplicate-warning__list">
+        {matches.map(({ book, reason, similarity }) => {
+          const cover = book.details?.smallThumbnail || book.details?.thumbnail;
+          return (
+            <li key={book.id} className="duplicate-warning__item">
+              {cover ? (
+                <img className="duplicate-warning__cover" src={cover} alt="" />
+              ) : (
+                <span className="duplicate-warning__cover duplicate-warning__cover--empty">📖</span>
+              )}
+              <div className="duplicate-warning__book">
+                <span className="duplicate-warning__book-title">{book.title}</span>
+                <span className="duplicate-warning__book-meta">
+                  {[book.author?.name, book.year, book.isbn && `ISBN ${book.isbn}`].filter(Boolean).join(' · ')}
+                </span>
+                <span className={`duplicate-warning__reason duplicate-warning__reason--${reason}`}>
+                  {reason === 'isbn' ? REASON_LABELS.isbn : `${REASON_LABELS[reason]} · ${Math.round(similarity * 100)}%`}
+                </span>
+              </div>
+              {onOpen && (
+                <button type="button" className="duplicate-warning__open" onClick={() => onOpen(book)}>
+                  Open
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {!isCertain && actionLabel && onAction && (
+        <button type="button" className="duplicate-warning__action" onClick={onAction}>
+          {actionLabel}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { DuplicateWarning } from './DuplicateWarning';
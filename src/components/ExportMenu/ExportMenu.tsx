@@ -0,0 +1,170 @@
+import { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { exportCatalog } from '../../services/catalogExport';
+import type { ExportColumn, ExportFile, ExportFormat } from '../../services/catalogExport';
+import './ExportMenu.scss';
+
+interface ExportMenuProps<T> {
+  name: string; // Plural noun for labels and the file name ('books', 'authors')
+  columns: ExportColumn<T>[];
+  items: T[]; // The list as currently shown (filtered and sorted)
+  totalCount: number; // Size of the whole list
+  allLabel?: string; // Label of the whole-list option (default "All <name>")
+  loadAll: () => Promise<T[] | null> | T[]; // The whole list, null if it could not be loaded
+}
+
+type ExportScope = 'shown' | 'all';
+
+const saveFile = ({ content, mimeType, filename }: ExportFile) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  // Firefox and older Safari only download from a link in the document, and need the URL until the download starts
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/**
+ * Export button with a small panel to pick the format, the rows (shown or all)
+ * and the columns, then download the list as CSV or JSON
+ */
+export function ExportMenu<T>({ name, columns, items, totalCount, allLabel = `All ${name}`, loadAll }: ExportMenuProps<T>) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [scope, setScope] = useState<ExportScope>('shown');
+  const [selectedKeys, setSelectedKeys] = useState(() => columns.map((column) => column.key));
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Only offer a choice when the shown list is not the whole list
+  const hasScopeChoice = items.length !== totalCount;
+  const selectedColumns = columns.filter((column) => selectedKeys.includes(column.key));
+  const rowCount = hasScopeChoice && scope === 'all' ? totalCount : items.length;
+
+  // Close on Escape or a click outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+    const handleClickOutside = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+
+    window.addEventListener('keydown', handleEscape);
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      window.removeEventListener('keydown', handleEscape);
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const toggleColumn = (key: string) => {
+    setSelectedKeys((prev) => (prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]));
+  };
+
+  const handleExport = async () => {
+    setError(null);
+    let rows = items;
+
+    if (hasScopeChoice && scope === 'all') {
+      setIsExporting(true);
+      const all = await loadAll();
+      setIsExporting(false);
+      if (!all) {
+        setError(`Could not load all ${name} - try again, or export the ${items.length} shown.`);
+        return;
+      }
+      rows = all;
+    }
+
+    saveFile(exportCatalog(rows, selectedColumns, format, name));
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="export-menu" ref={menuRef}>
+      <button
+        type="button"
+        className="export-menu__toggle"
+        onClick={() => setIsOpen((open) => !open)}
+        aria-expanded={isOpen}
+        aria-haspopup="dialog"
+      >
+        <span className="export-menu__toggle-icon">⤓</span>
+        Export
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            className="export-menu__panel"
+            role="dialog"
+            aria-label={`Export ${name}`}
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            transition={{ duration: 0.15 }}
+          >
+            <fieldset className="export-menu__group" disabled={isExporting}>
+              <legend className="export-menu__legend">Format</legend>
+              <div className="export-menu__options">
+                {(['csv', 'json'] as const).map((option) => (
+                  <label key={option} className="export-menu__option">
+                    <input type="radio" name={`export-${name}-format`} checked={format === option} onChange={() => setFormat(option)} />
+                    {option.toUpperCase()}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            {hasScopeChoice && (
+              <fieldset className="export-menu__group" disabled={isExporting}>
+                <legend className="export-menu__legend">Rows</legend>
+                <div className="export-menu__options">
+                  <label className="export-menu__option">
+                    <input type="radio" name={`export-${name}-scope`} checked={scope === 'shown'} onChange={() => setScope('shown')} />
+                    Shown ({items.length})
+                  </label>
+                  <label className="export-menu__option">
+                    <input type="radio" name={`export-${name}-scope`} checked={scope === 'all'} onChange={() => setScope('all')} />
+                    {allLabel} ({totalCount})
+                  </label>
+                </div>
+              </fieldset>
+            )}
+
+            <fieldset className="export-menu__group" disabled={isExporting}>
+              <legend className="export-menu__legend">Columns</legend>
+              <div className="export-menu__columns">
+                {columns.map((column) => (
+                  <label key={column.key} className="export-menu__option">
+                    <input type="checkbox" checked={selectedKeys.includes(column.key)} onChange={() => toggleColumn(column.key)} />
+                    {column.label}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            {error && <p className="export-menu__error">{error}</p>}
+
+            <button
+              type="button"
+              className="export-menu__download"
+              onClick={handleExport}
+              disabled={isExporting || selectedColumns.length === 0 || rowCount === 0}
+            >
+              {isExporting ? `Loading ${name}...` : `Download ${rowCount} as ${format.toUpperCase()}`}
+            </button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
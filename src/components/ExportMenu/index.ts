@@ -0,0 +1 @@
+export { ExportMenu } from './ExportMenu';
@@ -3,10 +3,17 @@
 // ============================================
 
 import { useFontCycle } from '../../hooks/useFontCycle'
+import { useBackendProfiles } from '../../hooks/useBackendProfiles'
+import { isMockProfile } from '../../services/backendProfiles'
 import './Footer.scss'
 
-export const Footer = () => {
+interface FooterProps {
+  onOpenSettings?: () => void // Open the backend settings panel
+}
+
+export const Footer = ({ onOpenSettings }: FooterProps) => {
   const cyclingFont = useFontCycle()
+  const { activeProfile } = useBackendProfiles()
 
   return (
     <footer className="footer" id="about">
@@ -18,6 +25,18 @@ export const Footer = () => {
           <p className="footer__author" style={{ fontFamily: cyclingFont }}>
             Made by <strong>Ricky SDE</strong>
           </p>
+          <button
+            className="footer__backend"
+            onClick={onOpenSettings}
+            title={isMockProfile(activeProfile) ? 'In-browser mock backend' : activeProfile.baseUrl}
+            aria-label={`Backend: ${activeProfile.name}. Open backend settings`}
+          >
+            <span className="footer__backend-label">Backend</span>
+            <span className="footer__backend-name">{activeProfile.name}</span>
+            <span className="footer__backend-url">
+              {isMockProfile(activeProfile) ? 'mock' : activeProfile.baseUrl.replace(/^https?:\/\//, '')}
+            </span>
+          </button>
         </div>
 
         {/* Floating decimal patterns */}
@@ -0,0 +1,216 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import type { BookSearchResult } from '../../types/api';
+import './ImportPreview.scss';
+
+/**
+ * The (possibly edited) values to import the book with
+ */
+export interface ImportPreviewValues {
+  title: string;
+  authorName: string; // The author to link the book to
+  publisherName: string;
+  year: string;
+  description: string;
+  thumbnail: string;
+}
+
+interface ImportPreviewProps {
+  result: BookSearchResult;
+  libraryAuthors: string[]; // Names of authors already in the library
+  isImporting: boolean;
+  confirmLabel: string;
+  onConfirm: (values: ImportPreviewValues) => void;
+  onCancel: () => void;
+}
+
+type PreviewErrors = Partial<Record<keyof ImportPreviewValues, string>>;
+
+const OTHER_AUTHOR = -1;
+
+const isInLibrary = (name: string, libraryAuthors: string[]) =>
+  libraryAuthors.some((author) => author.toLowerCase() === name.trim().toLowerCase());
+
+/**
+ * Google Books result shown before it is imported - every field can be
+ * corrected, and for books with several authors the one to link is chosen here
+ */
+export const ImportPreview: React.FC<ImportPreviewProps> = ({ result, libraryAuthors, isImporting, confirmLabel, onConfirm, onCancel }) => {
+  // Link to an author the library already has, if the result lists one
+  const [authorIndex, setAuthorIndex] = useState(() => {
+    if (result.authors.length === 0) return OTHER_AUTHOR;
+    return Math.max(0, result.authors.findIndex((name) => isInLibrary(name, libraryAuthors)));
+  });
+  const [otherAuthor, setOtherAuthor] = useState('');
+  const [values, setValues] = useState<Omit<ImportPreviewValues, 'authorName'>>({
+    title: result.title,
+    publisherName: result.publisher || '',
+    year: result.year ? String(result.year) : '',
+    description: result.description || '',
+    thumbnail: result.thumbnail || '',
+  });
+  const [errors, setErrors] = useState<PreviewErrors>({});
+
+  const authorName = authorIndex === OTHER_AUTHOR ? otherAuthor : result.authors[authorIndex];
+
+  const handleChange = (field: keyof typeof values, value: string) => {
+    setValues((prev) => ({ ...prev, [field]: value }));
+    if (errors[field]) setErrors((prev) => ({ ...prev, [field]: undefined }));
+  };
+
+  const handleConfirm = () => {
+    const nextErrors: PreviewErrors = {};
+    if (!values.title.trim()) nextErrors.title = 'Title is required';
+    if (!authorName.trim()) nextErrors.authorName = 'Choose or enter an author';
+    const year = Number(values.year);
+    if (!values.year.trim()) {
+      nextErrors.year = 'Publication year is required';
+    } else if (!Number.isInteger(year) || year < 0 || year > 3000) {
+      nextErrors.year = 'Year must be between 0 and 3000';
+    }
+
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length === 0) {
+      onConfirm({ ...values, authorName: authorName.trim() });
+    }
+  };
+
+  return (
+    <motion.div
+      className="import-preview"
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.2 }}
+    >
+      <div className="import-preview__header">
+        <h3 className="import-preview__heading">Check before importing</h3>
+        <span className="import-preview__source">
+          From Google Books{result.isbn ? ` · ISBN ${result.isbn}` : ' · no ISBN'}
+        </span>
+      </div>
+
+      <div className="import-preview__body">
+        <div className="import-preview__cover">
+          {values.thumbnail ? (
+            <img src={values.thumbnail} alt={`Cover of ${values.title}`} />
+          ) : (
+            <span className="import-preview__cover-placeholder">📖</span>
+          )}
+          {result.averageRating != null && (
+            <span
+              className="import-preview__rating"
+              title="Google Books rating - not stored in the library"
+              aria-label={`Rated ${result.averageRating} out of 5 on Google Books`}
+            >
+              {'★'.repeat(Math.round(result.averageRating))}
+              {'☆'.repeat(5 - Math.round(result.averageRating))}
+              <span className="import-preview__rating-value">{result.averageRating.toFixed(1)}</span>
+            </span>
+          )}
+        </div>
+
+        <div className="import-preview__fields">
+          <label className="import-preview__field">
+            <span className="import-preview__label">Title *</span>
+            <input
+              type="text"
+              className={`import-preview__input ${errors.title ? 'import-preview__input--error' : ''}`}
+              value={values.title}
+              onChange={(e) => handleChange('title', e.target.value)}
+              disabled={isImporting}
+            />
+            {errors.title && <span className="import-preview__error">{errors.title}</span>}
+          </label>
+
+          <fieldset className="import-preview__field import-preview__authors" disabled={isImporting}>
+            <legend className="import-preview__label">Link to author *</legend>
+            {result.authors.map((name, index) => (
+              <label key={name} className="import-preview__author">
+                <input type="radio" name="import-preview-author" checked={authorIndex === index} onChange={() => setAuthorIndex(index)} />
+                {name}
+                {isInLibrary(name, libraryAuthors) && <span className="import-preview__badge">in library</span>}
+              </label>
+            ))}
+            <label className="import-preview__author">
+              <input
+                type="radio"
+                name="import-preview-author"
+                checked={authorIndex === OTHER_AUTHOR}
+                onChange={() => setAuthorIndex(OTHER_AUTHOR)}
+              />
+              <input
+                type="text"
+                className="import-preview__input import-preview__input--inline"
+                placeholder={result.authors.length > 0 ? 'Someone else…' : 'Author name'}
+                value={otherAuthor}
+                onFocus={() => setAuthorIndex(OTHER_AUTHOR)}
+                onChange={(e) => {
+                  setOtherAuthor(e.target.value);
+                  setErrors((prev) => ({ ...prev, authorName: undefined }));
+                }}
+              />
+            </label>
+            {errors.authorName && <span className="import-preview__error">{errors.authorName}</span>}
+          </fieldset>
+
+          <div className="import-preview__row">
+            <label className="import-preview__field">
+              <span className="import-preview__label">Publisher</span>
+              <input
+                type="text"
+                className="import-preview__input"
+                value={values.publisherName}
+                onChange={(e) => handleChange('publisherName', e.target.value)}
+                disabled={isImporting}
+              />
+            </label>
+            <label className="import-preview__field import-preview__field--year">
+              <span className="import-preview__label">Year *</span>
+              <input
+                type="number"
+                className={`import-preview__input ${errors.year ? 'import-preview__input--error' : ''}`}
+                value={values.year}
+                onChange={(e) => handleChange('year', e.target.value)}
+                disabled={isImporting}
+                min="0"
+                max="3000"
+              />
+              {errors.year && <span className="import-preview__error">{errors.year}</span>}
+            </label>
+          </div>
+
+          <label className="import-preview__field">
+            <span className="import-preview__label">Description</span>
+            <textarea
+              className="import-preview__input import-preview__textarea"
+              value={values.description}
+              onChange={(e) => handleChange('description', e.target.value)}
+              disabled={isImporting}
+              rows={4}
+            />
+          </label>
+
+          <label className="import-preview__field">
+            <span className="import-preview__label">Cover Image URL</span>
+            <input
+              type="url"
+              className="import-preview__input"
+              value={values.thumbnail}
+              onChange={(e) => handleChange('thumbnail', e.target.value)}
+              disabled={isImporting}
+            />
+          </label>
+        </div>
+      </div>
+
+      <div className="import-preview__actions">
+        <button type="button" className="import-preview__btn" onClick={onCancel} disabled={isImporting}>
+          Back
+        </button>
+        <button type="button" className="import-preview__btn import-preview__btn--primary" onClick={handleConfirm} disabled={isImporting}>
+          {isImporting ? 'Importing...' : confirmLabel}
+        </button>
+      </div>
+    </motion.div>
+  );
+};
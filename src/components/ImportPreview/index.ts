@@ -0,0 +1,2 @@
+export { ImportPreview } from './ImportPreview';
+export type { ImportPreviewValues } from './ImportPreview';
@@ -5,6 +5,7 @@
 
 import { useEffect, useState, useRef } from 'react';
 import { useFontCycle } from '../../hooks/useFontCycle';
+import { healthMonitor } from '../../services/healthMonitor';
 import './LoadingScreen.scss';
 
 interface LoadingScreenProps {
@@ -43,6 +44,11 @@ const tickerLines = [
   'Almost ready! ',
 ];
 
+  // Start waking a sleeping backend while the intro plays
+  useEffect(() => {
+    healthMonitor.prewarm();
+  }, []);
+
   // Animate progress bar (120fps)
   useEffect(() => {
     let frame: number;
@@ -0,0 +1,173 @@
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useAuth, useLogin } from '../../hooks/useAuth';
+import './LoginModal.scss';
+
+interface LoginModalProps {
+  onSuccess?: (displayName: string) => void;
+}
+
+interface FormData {
+  username: string;
+  password: string;
+}
+
+/**
+ * Sign-in prompt. Opened from the navigation, or by the API client when a
+ * session expires mid-request (the request is replayed once the user signs in).
+ */
+export const LoginModal: React.FC<LoginModalProps> = ({ onSuccess }) => {
+  const { isLoginOpen, loginReason, closeLogin } = useAuth();
+  const { login, loading, error } = useLogin();
+
+  const [formData, setFormData] = useState<FormData>({ username: '', password: '' });
+
+  // Clear the password whenever the prompt opens or closes
+  useEffect(() => {
+    setFormData((prev) => ({ ...prev, password: '' }));
+  }, [isLoginOpen]);
+
+  // Close modal on Escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isLoginOpen) {
+        closeLogin();
+      }
+    };
+
+    window.addEventListener('keydown', handleEscape);
+    return () => window.removeEventListener('keydown', handleEscape);
+  }, [isLoginOpen, closeLogin]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.username.trim() || !formData.password) return;
+
+    // On success the session store closes the prompt itself
+    const user = await login({ username: formData.username.trim(), password: formData.password });
+    if (user) {
+      onSuccess?.(user.displayName || user.username);
+    }
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget && !loading) {
+      closeLogin();
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isLoginOpen && (
+        <motion.div
+          className="login-modal"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.2 }}
+          onClick={handleBackdropClick}
+        >
+          <motion.div
+            className="login-modal__content"
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="login-modal-title"
+            initial={{ scale: 0.9, opacity: 0, y: 20 }}
+            animate={{ scale: 1, opacity: 1, y: 0 }}
+            exit={{ scale: 0.9, opacity: 0, y: 20 }}
+            transition={{ duration: 0.3, ease: 'easeOut' }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <button
+              className="login-modal__close"
+              onClick={closeLogin}
+              aria-label="Close sign in"
+            >
+              ✕
+            </button>
+
+            <div className="login-modal__header">
+              <h1 id="login-modal-title" className="login-modal__title">
+                Sign In
+              </h1>
+              {loginReason === 'expired' ? (
+                <p className="login-modal__subtitle login-modal__subtitle--expired">
+                  Your session has expired. Sign in again to finish what you were doing.
+                </p>
+              ) : (
+                <p className="login-modal__subtitle">
+                  Sign in to add, edit and delete books and authors
+                </p>
+              )}
+            </div>
+
+            <form onSubmit={handleSubmit} className="login-form">
+              {error && (
+                <div className="login-form__error-banner" role="alert">
+                  <span>⚠</span>
+                  <p>{error.message}</p>
+                </div>
+              )}
+
+              <div className="login-form__field">
+                <label htmlFor="login-username" className="login-form__label">
+                  Username
+                </label>
+                <input
+                  id="login-username"
+                  name="username"
+                  type="text"
+                  autoComplete="username"
+                  value={formData.username}
+                  onChange={handleChange}
+                  disabled={loading}
+                  autoFocus
+                  className="login-form__input"
+                />
+              </div>
+
+              <div className="login-form__field">
+                <label htmlFor="login-password" className="login-form__label">
+                  Password
+                </label>
+                <input
+                  id="login-password"
+                  name="password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={formData.password}
+                  onChange={handleChange}
+                  disabled={loading}
+                  className="login-form__input"
+                />
+              </div>
+
+              <div className="login-form__actions">
+                <button
+                  type="button"
+                  onClick={closeLogin}
+                  className="btn btn--secondary"
+                  disabled={loading}
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="btn btn--primary"
+                  disabled={loading || !formData.username.trim() || !formData.password}
+                >
+                  {loading ? 'Signing in...' : 'Sign In'}
+                </button>
+              </div>
+            </form>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1 @@
+export { LoginModal } from './LoginModal';
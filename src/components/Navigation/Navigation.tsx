@@ -6,13 +6,23 @@
 import { useEffect, useRef, useState } from 'react';
 import gsap from 'gsap';
 import { ScrollTrigger } from 'gsap/ScrollTrigger';
+import { useAuth } from '../../hooks/useAuth';
+import { useServerHealth } from '../../hooks/useServerHealth';
+import type { HealthStatus } from '../../services/healthMonitor';
 import './Navigation.scss';
 
 // Register ScrollTrigger plugin
 gsap.registerPlugin(ScrollTrigger);
 
+const HEALTH_LABELS: Record<HealthStatus, string> = {
+  unknown: 'Checking…',
+  online: 'Online',
+  degraded: 'Degraded',
+  offline: 'Offline',
+};
+
 interface NavigationProps {
-  onNavigate?: (section: 'hero' | 'books' | 'authors' | 'about') => void;
+  onNavigate?: (section: 'hero' | 'books' | 'authors' | 'publishers' | 'about') => void;
   isHidden?: boolean; // Hide navigation when modals are open
 }
 
@@ -20,6 +30,21 @@ function Navigation({ onNavigate, isHidden = false }: NavigationProps) {
   const navRef = useRef<HTMLElement>(null);
   const [isVisible, setIsVisible] = useState(false);
   const [activeSection, setActiveSection] = useState<string>('hero');
+  const { user, openLogin, logout } = useAuth();
+  const health = useServerHealth();
+
+  const healthLabel =
+    health.status === 'online' && health.latency !== null
+      ? `${HEALTH_LABELS.online} · ${health.latency} ms`
+      : HEALTH_LABELS[health.status];
+  const healthTitle = [
+    health.reason,
+    health.averageLatency !== null && `Average latency ${health.averageLatency} ms`,
+    health.checkedAt ? `Last checked ${new Date(health.checkedAt).toLocaleTimeString()}` : 'Not checked yet',
+    'Click to check now',
+  ]
+    .filter(Boolean)
+    .join('\n');
 
   // ScrollTrigger for navigation appearance
   useEffect(() => {
@@ -60,6 +85,7 @@ function Navigation({ onNavigate, isHidden = false }: NavigationProps) {
       { id: 'hero', element: document.querySelector('.hero') },
       { id: 'books', element: document.querySelector('.books-section') },
       { id: 'authors', element: document.querySelector('.authors-section') },
+      { id: 'publishers', element: document.querySelector('.publishers-section') },
     ];
 
     const triggers = sections
@@ -80,7 +106,7 @@ function Navigation({ onNavigate, isHidden = false }: NavigationProps) {
   }, []);
 
   const handleNavClick = (
-    section: 'hero' | 'books' | 'authors' | 'about',
+    section: 'hero' | 'books' | 'authors' | 'publishers' | 'about',
     sectionClass: string
   ) => {
     const element = document.querySelector(sectionClass);
@@ -135,6 +161,16 @@ function Navigation({ onNavigate, isHidden = false }: NavigationProps) {
               Authors
             </button>
           </li>
+          <li>
+            <button
+              className={`navigation__link ${
+                activeSection === 'publishers' ? 'navigation__link--active' : ''
+              }`}
+              onClick={() => handleNavClick('publishers', '.publishers-section')}
+            >
+              Publishers
+            </button>
+          </li>
           <li>
             <button
               className="navigation__link"
@@ -143,6 +179,36 @@ function Navigation({ onNavigate, isHidden = false }: NavigationProps) {
               About
             </button>
           </li>
+          <li className="navigation__status">
+            <button
+              className={`navigation__health navigation__health--${health.status} ${
+                health.isChecking ? 'navigation__health--checking' : ''
+              }`}
+              onClick={health.checkNow}
+              disabled={health.isChecking}
+              title={healthTitle}
+              aria-label={`API status: ${healthLabel}. Check now`}
+            >
+              <span className="navigation__health-dot" aria-hidden="true"></span>
+              <span className="navigation__health-label">{healthLabel}</span>
+            </button>
+          </li>
+          <li className="navigation__account">
+            {user ? (
+              <>
+                <span className="navigation__user" title={user.username}>
+                  {user.displayName || user.username}
+                </span>
+                <button className="navigation__link" onClick={logout}>
+                  Sign out
+                </button>
+              </>
+            ) : (
+              <button className="navigation__link navigation__link--accent" onClick={openLogin}>
+                Sign in
+              </button>
+            )}
+          </li>
         </ul>
 
         {/* Mobile Menu Toggle */}
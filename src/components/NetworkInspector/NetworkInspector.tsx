@@ -0,0 +1,302 @@
+// ============================================
+// NETWORK INSPECTOR COMPONENT
+// Opt-in developer panel for apiClient traffic (Alt+Shift+N)
+// ============================================
+
+import { useState, useEffect, useMemo } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { useNetworkLog } from '../../hooks/useNetworkLog'
+import { backendProfiles } from '../../services/backendProfiles'
+import { toCurl } from '../../services/networkLog'
+import type { NetworkEntry } from '../../services/networkLog'
+import './NetworkInspector.scss'
+
+type StatusFilter = 'all' | 'errors' | 'pending' | 'success'
+
+const METHODS = ['ALL', 'GET', 'POST', 'PUT', 'DELETE']
+
+const STATUS_FILTERS: Record<StatusFilter, (entry: NetworkEntry) => boolean> = {
+  all: () => true,
+  errors: (entry) => entry.state === 'error',
+  pending: (entry) => entry.state === 'pending',
+  success: (entry) => entry.state === 'success',
+}
+
+const isShortcut = (e: KeyboardEvent) => e.altKey && e.shiftKey && e.code === 'KeyN'
+
+// Path + query, without the origin - the full URL is in the details
+const shortUrl = (url: string) => url.replace(/^https?:\/\/[^/]+/, '') || '/'
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString(undefined, { hour12: false }) +
+  `.${String(timestamp % 1000).padStart(3, '0')}`
+
+const formatBody = (body: unknown) => (typeof body === 'string' ? body : JSON.stringify(body, null, 2))
+
+const describeStatus = (entry: NetworkEntry) => {
+  if (entry.state === 'pending') return '…'
+  if (entry.state === 'cancelled') return 'cancelled'
+  return entry.status ?? entry.error?.kind ?? '?'
+}
+
+export const NetworkInspector = () => {
+  const { entries, isRecording, isOpen, toggle, close, clear, setRecording, exportSession } = useNetworkLog()
+
+  const [search, setSearch] = useState('')
+  const [method, setMethod] = useState('ALL')
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all')
+  const [showHealthChecks, setShowHealthChecks] = useState(false)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [copied, setCopied] = useState<string | null>(null)
+
+  // Toggle with the keyboard shortcut, close with Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isShortcut(e)) {
+        e.preventDefault()
+        toggle()
+      } else if (e.key === 'Escape' && isOpen) {
+        close()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [isOpen, toggle, close])
+
+  // Reset the "Copied" feedback
+  useEffect(() => {
+    if (!copied) return
+    const timeout = setTimeout(() => setCopied(null), 1500)
+    return () => clearTimeout(timeout)
+  }, [copied])
+
+  const visibleEntries = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    return entries
+      .filter((entry) => showHealthChecks || !entry.background)
+      .filter((entry) => method === 'ALL' || entry.method === method)
+      .filter(STATUS_FILTERS[statusFilter])
+      .filter((entry) => !term || entry.url.toLowerCase().includes(term) || String(entry.status ?? '').includes(term))
+  }, [entries, search, method, statusFilter, showHealthChecks])
+
+  const selected = entries.find((entry) => entry.id === selectedId) || null
+
+  const copy = async (text: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(text)
+      setCopied(label)
+    } catch {
+      setCopied('Copy failed')
+    }
+  }
+
+  const handleExport = () => {
+    const { name, baseUrl } = backendProfiles.getActiveProfile()
+    const blob = new Blob([exportSession({ backend: { name, baseUrl } })], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `network-log-${new Date().toISOString().replace(/[:.]/g, '-')}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleClear = () => {
+    clear()
+    setSelectedId(null)
+  }
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.section
+          className="network-inspector"
+          aria-label="Network inspector"
+          initial={{ y: '100%' }}
+          animate={{ y: 0 }}
+          exit={{ y: '100%' }}
+          transition={{ duration: 0.25, ease: 'easeOut' }}
+        >
+          {/* Toolbar */}
+          <div className="network-inspector__toolbar">
+            <h2 className="network-inspector__title">
+              Network
+              <span className="network-inspector__count">
+                {visibleEntries.length}/{entries.length}
+              </span>
+            </h2>
+
+            <button
+              className={`network-inspector__btn ${isRecording ? 'network-inspector__btn--recording' : ''}`}
+              onClick={() => setRecording(!isRecording)}
+              title={isRecording ? 'Stop recording (kept across reloads)' : 'Start recording (kept across reloads)'}
+            >
+              {isRecording ? '● Recording' : '○ Paused'}
+            </button>
+
+            <input
+              type="search"
+              className="network-inspector__search"
+              placeholder="Filter by URL or status"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              aria-label="Filter requests"
+            />
+
+            <select
+              className="network-inspector__select"
+              value={method}
+              onChange={(e) => setMethod(e.target.value)}
+              aria-label="Filter by method"
+            >
+              {METHODS.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+
+            <select
+              className="network-inspector__select"
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+              aria-label="Filter by result"
+            >
+              <option value="all">All results</option>
+              <option value="errors">Errors</option>
+              <option value="pending">Pending</option>
+              <option value="success">Success</option>
+            </select>
+
+            <label className="network-inspector__checkbox">
+              <input
+                type="checkbox"
+                checked={showHealthChecks}
+                onChange={(e) => setShowHealthChecks(e.target.checked)}
+              />
+              Health pings
+            </label>
+
+            <div className="network-inspector__toolbar-actions">
+              <button className="network-inspector__btn" onClick={handleClear} disabled={entries.length === 0}>
+                Clear
+              </button>
+              <button className="network-inspector__btn" onClick={handleExport} disabled={entries.length === 0}>
+                Export JSON
+              </button>
+              <button className="network-inspector__close" onClick={close} aria-label="Close network inspector">
+                ✕
+              </button>
+            </div>
+          </div>
+
+          <div className="network-inspector__body">
+            {/* Request list */}
+            <ul className="network-inspector__list">
+              {visibleEntries.length === 0 && (
+                <li className="network-inspector__empty">
+                  {isRecording ? 'No requests recorded yet' : 'Recording is paused - press Record to capture requests'}
+                </li>
+              )}
+              {visibleEntries.map((entry) => (
+                <li key={entry.id}>
+                  <button
+                    className={`network-inspector__row network-inspector__row--${entry.state} ${
+                      entry.id === selectedId ? 'network-inspector__row--selected' : ''
+                    }`}
+                    onClick={() => setSelectedId(entry.id)}
+                  >
+                    <span className="network-inspector__method">{entry.method}</span>
+                    <span className="network-inspector__status">{describeStatus(entry)}</span>
+                    <span className="network-inspector__url" title={entry.url}>
+                      {shortUrl(entry.url)}
+                      {entry.retryCount > 0 && (
+                        <span className="network-inspector__retry"> retry {entry.retryCount}</span>
+                      )}
+                    </span>
+                    <span className="network-inspector__duration">
+                      {entry.duration !== undefined ? `${entry.duration} ms` : ''}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {/* Details */}
+            <div className="network-inspector__details">
+              {selected ? (
+                <>
+                  <div className="network-inspector__details-actions">
+                    <button className="network-inspector__btn" onClick={() => copy(toCurl(selected), 'cURL copied')}>
+                      Copy as cURL
+                    </button>
+                    {selected.responseBody !== undefined && (
+                      <button
+                        className="network-inspector__btn"
+                        onClick={() => copy(formatBody(selected.responseBody), 'Response copied')}
+                      >
+                        Copy response
+                      </button>
+                    )}
+                    {copied && <span className="network-inspector__copied">{copied}</span>}
+                  </div>
+
+                  <dl className="network-inspector__general">
+                    <dt>URL</dt>
+                    <dd>{selected.url}</dd>
+                    <dt>Method</dt>
+                    <dd>{selected.method}</dd>
+                    <dt>Status</dt>
+                    <dd>{describeStatus(selected)}</dd>
+                    <dt>Started</dt>
+                    <dd>{formatTime(selected.startedAt)}</dd>
+                    <dt>Duration</dt>
+                    <dd>{selected.duration !== undefined ? `${selected.duration} ms` : 'pending'}</dd>
+                    {selected.retryCount > 0 && (
+                      <>
+                        <dt>Retry</dt>
+                        <dd>{selected.retryCount}</dd>
+                      </>
+                    )}
+                    {selected.error && (
+                      <>
+                        <dt>Error</dt>
+                        <dd className="network-inspector__error">
+                          {selected.error.kind}: {selected.error.message}
+                        </dd>
+                      </>
+                    )}
+                  </dl>
+
+                  <h3 className="network-inspector__heading">Request headers</h3>
+                  <pre className="network-inspector__code">
+                    {Object.entries(selected.requestHeaders)
+                      .map(([name, value]) => `${name}: ${value}`)
+                      .join('\n') || '(none)'}
+                  </pre>
+
+                  {selected.requestBody !== undefined && (
+                    <>
+                      <h3 className="network-inspector__heading">Request body</h3>
+                      <pre className="network-inspector__code">{formatBody(selected.requestBody)}</pre>
+                    </>
+                  )}
+
+                  {selected.responseBody !== undefined && (
+                    <>
+                      <h3 className="network-inspector__heading">Response body</h3>
+                      <pre className="network-inspector__code">{formatBody(selected.responseBody)}</pre>
+                    </>
+                  )}
+                </>
+              ) : (
+                <p className="network-inspector__placeholder">Select a request to see its details</p>
+              )}
+            </div>
+          </div>
+        </motion.section>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -0,0 +1,105 @@
+// ============================================
+// OFFLINE BANNER COMPONENT
+// Connection state, queued offline changes and sync conflicts
+// ============================================
+
+import { motion, AnimatePresence } from 'framer-motion'
+import { useOnlineStatus } from '../../hooks/useOnlineStatus'
+import { useOutbox } from '../../hooks/useOutbox'
+import type { OutboxEntry } from '../../services/outbox'
+import './OfflineBanner.scss'
+
+const ACTION_LABELS: Record<OutboxEntry['action'], string> = {
+  create: 'Create',
+  update: 'Update',
+  delete: 'Delete',
+}
+
+const describeEntry = (entry: OutboxEntry) =>
+  `${ACTION_LABELS[entry.action]} ${entry.kind === 'books' ? 'book' : 'author'} "${entry.label}"`
+
+const pluralize = (count: number) => `${count} change${count === 1 ? '' : 's'}`
+
+export const OfflineBanner = () => {
+  const isOnline = useOnlineStatus()
+  const { queuedCount, isSyncing, conflicts, syncNow, dismissConflict } = useOutbox()
+
+  const showStatus = !isOnline || queuedCount > 0
+  const isVisible = showStatus || conflicts.length > 0
+
+  const renderStatus = () => {
+    if (!isOnline) {
+      return (
+        <>
+          <span className="offline-banner__icon" aria-hidden="true">📴</span>
+          <div className="offline-banner__text">
+            <p className="offline-banner__title">You're offline</p>
+            <p className="offline-banner__hint">
+              {queuedCount > 0
+                ? `${pluralize(queuedCount)} will sync when the connection returns`
+                : 'Showing the last saved library - changes will sync later'}
+            </p>
+          </div>
+        </>
+      )
+    }
+
+    if (isSyncing) {
+      return (
+        <>
+          <span className="offline-banner__spinner" aria-hidden="true" />
+          <p className="offline-banner__title">Syncing {pluralize(queuedCount)} made offline...</p>
+        </>
+      )
+    }
+
+    // Online, but the last replay stopped on a server error
+    return (
+      <>
+        <span className="offline-banner__icon" aria-hidden="true">⏳</span>
+        <p className="offline-banner__title">{pluralize(queuedCount)} waiting to sync</p>
+        <button className="offline-banner__btn" onClick={() => syncNow()}>
+          Sync now
+        </button>
+      </>
+    )
+  }
+
+  return (
+    <AnimatePresence>
+      {isVisible && (
+        <motion.div
+          className="offline-banner"
+          role="status"
+          aria-live="polite"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 20 }}
+          transition={{ duration: 0.3, ease: 'easeOut' }}
+        >
+          {showStatus && <div className="offline-banner__status">{renderStatus()}</div>}
+
+          {conflicts.length > 0 && (
+            <ul className="offline-banner__conflicts">
+              {conflicts.map(({ entry, message }) => (
+                <li key={entry.id} className="offline-banner__conflict">
+                  <div className="offline-banner__text">
+                    <p className="offline-banner__conflict-title">Couldn't sync: {describeEntry(entry)}</p>
+                    <p className="offline-banner__hint">{message} Your local change was reverted.</p>
+                  </div>
+                  <button
+                    className="offline-banner__dismiss"
+                    onClick={() => dismissConflict(entry.id)}
+                    aria-label="Dismiss"
+                  >
+                    ✕
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
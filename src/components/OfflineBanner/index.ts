@@ -0,0 +1 @@
+export { OfflineBanner } from './OfflineBanner'
@@ -0,0 +1,190 @@
+import { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { Publisher } from '../../types/api';
+import { usePublisher, useDeletePublisher } from '../../hooks/useAPI';
+import { useAuth } from '../../hooks/useAuth';
+import './PublisherDetailModal.scss';
+
+interface PublisherDetailModalProps {
+  publisherId: number | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onEdit: (publisher: Publisher) => void;
+  onDeleted: () => void;
+  onError?: (message: string) => void;
+}
+
+export const PublisherDetailModal = ({ publisherId, isOpen, onClose, onEdit, onDeleted, onError }: PublisherDetailModalProps) => {
+  const { data: publisher, loading, error: fetchError, execute: fetchPublisher } = usePublisher(publisherId || 0, false);
+  const { deletePublisher, loading: isDeleting, error: deleteError } = useDeletePublisher();
+  const { isAuthenticated } = useAuth();
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+
+  // Revalidate when the modal opens - cached publisher data is shown meanwhile
+  useEffect(() => {
+    if (isOpen && publisherId) {
+      setShowDeleteConfirm(false);
+      fetchPublisher();
+    }
+  }, [isOpen, publisherId, fetchPublisher]);
+
+  // Surface delete failures from the hook (the publisher is still there)
+  useEffect(() => {
+    if (deleteError) {
+      onError?.(deleteError.message || 'Failed to delete publisher');
+    }
+  }, [deleteError, onError]);
+
+  const handleDelete = async () => {
+    if (!publisherId) return;
+
+    // Not optimistic - wait for the server before closing
+    if (await deletePublisher(publisherId)) {
+      setShowDeleteConfirm(false);
+      onClose();
+      onDeleted();
+    }
+  };
+
+  // A failed background refresh keeps showing the cached publisher
+  const errorMessage = fetchError && !publisher ? fetchError.message || 'Failed to load publisher details' : null;
+
+  const handleEditClick = () => {
+    if (publisher) {
+      onEdit(publisher);
+    }
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget && !isDeleting) {
+      onClose();
+    }
+  };
+
+  const bookCount = publisher?.books?.length || 0;
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          className="publisher-detail-modal"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.2 }}
+          onClick={handleBackdropClick}
+        >
+          <motion.div
+            className="publisher-detail-modal__content"
+            initial={{ scale: 0.9, opacity: 0, y: 20 }}
+            animate={{ scale: 1, opacity: 1, y: 0 }}
+            exit={{ scale: 0.9, opacity: 0, y: 20 }}
+            transition={{ duration: 0.3, ease: 'easeOut' }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            {loading && (
+              <div className="publisher-detail-modal__loading">
+                <div className="spinner"></div>
+                <p>Loading publisher details...</p>
+              </div>
+            )}
+
+            {errorMessage && (
+              <div className="publisher-detail-modal__error">
+                <p>{errorMessage}</p>
+                <button onClick={onClose} className="btn btn--secondary">
+                  Close
+                </button>
+              </div>
+            )}
+
+            {!loading && !errorMessage && publisher && (
+              <>
+                <button
+                  className="publisher-detail-modal__close"
+                  onClick={onClose}
+                  aria-label="Close modal"
+                >
+                  ✕
+                </button>
+
+                <div className="publisher-detail-modal__header">
+                  <h1 className="publisher-detail-modal__name">{publisher.name}</h1>
+                  <div className="publisher-detail-modal__stats">
+                    <span className="stat">
+                      <strong>{bookCount}</strong> {bookCount === 1 ? 'book' : 'books'}
+                    </span>
+                  </div>
+                </div>
+
+                <div className="publisher-detail-modal__body">
+                  {publisher.books && publisher.books.length > 0 ? (
+                    <div className="publisher-detail-modal__books">
+                      <h2>Published by {publisher.name}</h2>
+                      <div className="books-grid">
+                        {publisher.books.map((book) => (
+                          <div key={book.id} className="book-item">
+                            <h3 className="book-item__title">{book.title}</h3>
+                            <span className="book-item__year">
+                              {[book.author?.name, book.year].filter((part) => part != null && part !== '').join(' · ')}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="publisher-detail-modal__empty">
+                      <p>No books from this publisher yet.</p>
+                    </div>
+                  )}
+                </div>
+
+                {isAuthenticated && (
+                  <div className="publisher-detail-modal__actions">
+                    <button
+                      onClick={handleEditClick}
+                      className="btn btn--primary"
+                    >
+                      Edit Publisher
+                    </button>
+
+                    {!showDeleteConfirm ? (
+                      <button
+                        onClick={() => setShowDeleteConfirm(true)}
+                        className="btn btn--danger"
+                      >
+                        Delete Publisher
+                      </button>
+                    ) : (
+                      <div className="delete-confirm">
+                        <p>
+                          {bookCount > 0
+                            ? `Its ${bookCount} ${bookCount === 1 ? 'book stays' : 'books stay'} in the library without a publisher.`
+                            : 'Are you sure? This cannot be undone.'}
+                        </p>
+                        <button
+                          onClick={handleDelete}
+                          disabled={isDeleting}
+                          className="btn btn--danger"
+                        >
+                          {isDeleting ? 'Deleting...' : 'Confirm Delete'}
+                        </button>
+                        <button
+                          onClick={() => setShowDeleteConfirm(false)}
+                          disabled={isDeleting}
+                          className="btn btn--secondary"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1 @@
+export { PublisherDetailModal } from './PublisherDetailModal';
@@ -0,0 +1,239 @@
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { Publisher, CreatePublisherDTO, UpdatePublisherDTO } from '../../types/api';
+import { useCreatePublisher, useUpdatePublisher } from '../../hooks/useAPI';
+import { mapFieldErrors } from '../../services/apiErrors';
+import './PublisherFormModal.scss';
+
+interface PublisherFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess?: (publisher: Publisher, isUpdate: boolean) => void; // Server confirmed the change
+  editPublisher?: Publisher | null; // If provided, we're editing; otherwise, creating
+}
+
+interface FormData {
+  name: string;
+}
+
+interface FormErrors {
+  name?: string;
+}
+
+// Server-side field names (camelCase) -> form inputs
+const SERVER_FIELDS: Record<string, keyof FormErrors> = {
+  name: 'name',
+};
+
+/**
+ * Add/edit a publisher. Unlike books and authors, the form stays open until
+ * the server answers, so its errors are shown right here.
+ */
+export const PublisherFormModal: React.FC<PublisherFormModalProps> = ({
+  isOpen,
+  onClose,
+  onSuccess,
+  editPublisher,
+}) => {
+  const { createPublisher, loading: creating, error: createError } = useCreatePublisher();
+  const { updatePublisher, loading: updating, error: updateError } = useUpdatePublisher();
+
+  const isEditMode = !!editPublisher;
+  const isSubmitting = creating || updating;
+  const [formData, setFormData] = useState<FormData>({
+    name: '',
+  });
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  // Populate form when editing
+  useEffect(() => {
+    setFormData({ name: editPublisher?.name || '' });
+    setErrors({});
+    setSubmitError(null);
+  }, [editPublisher, isOpen]);
+
+  // Surface submit failures - server field errors next to the input, the rest in the banner
+  const mutationError = isEditMode ? updateError : createError;
+  useEffect(() => {
+    if (!mutationError) return;
+
+    const { mapped, unmapped } = mapFieldErrors(mutationError.fieldErrors, SERVER_FIELDS);
+    setErrors(mapped);
+    setSubmitError(
+      Object.keys(mapped).length > 0 ? unmapped.join(' ') || null : mutationError.message || 'Failed to save publisher. Please try again.'
+    );
+  }, [mutationError]);
+
+  // Close modal on Escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen && !isSubmitting) {
+        onClose();
+      }
+    };
+
+    window.addEventListener('keydown', handleEscape);
+    return () => window.removeEventListener('keydown', handleEscape);
+  }, [isOpen, isSubmitting, onClose]);
+
+  // Prevent body scroll when modal is open
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = 'hidden';
+    } else {
+      document.body.style.overflow = '';
+    }
+
+    return () => {
+      document.body.style.overflow = '';
+    };
+  }, [isOpen]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+
+    // Clear error when user starts typing
+    if (errors[name as keyof FormErrors]) {
+      setErrors((prev) => ({ ...prev, [name]: undefined }));
+    }
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors: FormErrors = {};
+
+    // Name is required
+    if (!formData.name.trim()) {
+      newErrors.name = 'Publisher name is required';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setSubmitError(null);
+
+    let result: Publisher | null;
+    if (isEditMode && editPublisher) {
+      const updateData: UpdatePublisherDTO = {
+        name: formData.name.trim(),
+      };
+      result = await updatePublisher(editPublisher.id, updateData);
+    } else {
+      const createData: CreatePublisherDTO = {
+        name: formData.name.trim(),
+      };
+      result = await createPublisher(createData);
+    }
+
+    // Failures are shown by the mutation error effect above
+    if (result) {
+      onSuccess?.(result, isEditMode);
+      onClose();
+    }
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget && !isSubmitting) {
+      onClose();
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          className="publisher-form-modal"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.2 }}
+          onClick={handleBackdropClick}
+        >
+          <motion.div
+            className="publisher-form-modal__content"
+            initial={{ scale: 0.9, opacity: 0, y: 20 }}
+            animate={{ scale: 1, opacity: 1, y: 0 }}
+            exit={{ scale: 0.9, opacity: 0, y: 20 }}
+            transition={{ duration: 0.3, ease: 'easeOut' }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <button
+              className="publisher-form-modal__close"
+              onClick={onClose}
+              disabled={isSubmitting}
+              aria-label="Close modal"
+            >
+              ✕
+            </button>
+
+            <div className="publisher-form-modal__header">
+              <h1 className="publisher-form-modal__title">
+                {isEditMode ? 'Edit Publisher' : 'Add New Publisher'}
+              </h1>
+              <p className="publisher-form-modal__subtitle">
+                {isEditMode
+                  ? 'Update publisher information'
+                  : 'Add a new publisher to your library'}
+              </p>
+            </div>
+
+            <form onSubmit={handleSubmit} className="publisher-form">
+              {submitError && (
+                <div className="publisher-form__error-banner">
+                  <span>⚠</span>
+                  <p>{submitError}</p>
+                </div>
+              )}
+
+              <div className="publisher-form__field">
+                <label htmlFor="publisher-name" className="publisher-form__label">
+                  Publisher Name <span className="required">*</span>
+                </label>
+                <input
+                  id="publisher-name"
+                  name="name"
+                  type="text"
+                  value={formData.name}
+                  onChange={handleChange}
+                  placeholder="e.g., Penguin Random House"
+                  disabled={isSubmitting}
+                  className={`publisher-form__input ${errors.name ? 'error' : ''}`}
+                />
+                {errors.name && (
+                  <span className="publisher-form__error">{errors.name}</span>
+                )}
+              </div>
+
+              <div className="publisher-form__actions">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  disabled={isSubmitting}
+                  className="btn btn--secondary"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="btn btn--primary"
+                >
+                  {isSubmitting ? 'Saving...' : isEditMode ? 'Update Publisher' : 'Add Publisher'}
+                </button>
+              </div>
+            </form>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1 @@
+export { PublisherFormModal } from './PublisherFormModal';
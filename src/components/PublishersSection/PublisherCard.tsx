@@ -0,0 +1,108 @@
+import { motion } from 'framer-motion';
+import type { Publisher } from '../../types/api';
+import './PublisherCard.scss';
+
+interface PublisherCardProps {
+  publisher: Publisher;
+  onClick?: () => void;
+}
+
+export const PublisherCard: React.FC<PublisherCardProps> = ({ publisher, onClick }) => {
+  const bookCount = publisher.books?.length || 0;
+  const recentBooks = publisher.books?.slice(0, 3) || [];
+
+  // Generate gradient background based on publisher name
+  const generateGradient = (name: string): string => {
+    const gradients = [
+      'linear-gradient(135deg, #6EC7D7 0%, #C89AD9 100%)', // Cyan → Lavender
+      'linear-gradient(135deg, #6EC7D7 0%, #EA7ACF 100%)', // Cyan → Sakura
+      'linear-gradient(135deg, #C89AD9 0%, #6EC7D7 100%)', // Lavender → Cyan
+      'linear-gradient(135deg, #6EC7D7 10%, #EA7ACF 50%, #C89AD9 90%)', // Triple gradient
+      'linear-gradient(135deg, #EA7ACF 0%, #6EC7D7 100%)', // Sakura → Cyan
+    ];
+
+    let hash = 0;
+    for (let i = 0; i < name.length; i++) {
+      hash = name.charCodeAt(i) + ((hash << 5) - hash);
+    }
+
+    return gradients[Math.abs(hash) % gradients.length];
+  };
+
+  // Get initials for the imprint badge (skips "and", "&", "Books"...)
+  const getInitials = (name: string): string => {
+    const words = name.split(' ').filter((word) => /^[A-Za-z]/.test(word) && !/^(and|of|the|books|press)$/i.test(word));
+    if (words.length >= 2) {
+      return `${words[0][0]}${words[1][0]}`.toUpperCase();
+    }
+    return (words[0] || name).substring(0, 2).toUpperCase();
+  };
+
+  const cardVariants = {
+    hidden: { opacity: 0, y: 30, scale: 0.95 },
+    visible: {
+      opacity: 1,
+      y: 0,
+      scale: 1,
+      transition: {
+        duration: 0.5,
+        ease: 'easeOut' as const,
+      },
+    },
+  };
+
+  return (
+    <motion.div
+      className="publisher-card"
+      variants={cardVariants}
+      whileHover={{ y: -8, scale: 1.02 }}
+      onClick={onClick}
+    >
+      {/* Avatar */}
+      <div
+        className="publisher-card__avatar"
+        style={{ background: generateGradient(publisher.name) }}
+      >
+        <span className="publisher-card__initials">{getInitials(publisher.name)}</span>
+      </div>
+
+      {/* Content */}
+      <div className="publisher-card__content">
+        <h3 className="publisher-card__name">{publisher.name}</h3>
+
+        <div className="publisher-card__stats">
+          <span className="publisher-card__stat">
+            <span className="publisher-card__stat-icon">📚</span>
+            <span className="publisher-card__stat-value">{bookCount}</span>
+            <span className="publisher-card__stat-label">
+              {bookCount === 1 ? 'book' : 'books'}
+            </span>
+          </span>
+        </div>
+
+        {/* Recent Books */}
+        {recentBooks.length > 0 && (
+          <div className="publisher-card__books">
+            <h4 className="publisher-card__books-title">Published:</h4>
+            <ul className="publisher-card__books-list">
+              {recentBooks.map((book) => (
+                <li key={book.id} className="publisher-card__book-item">
+                  <span className="publisher-card__book-title">{book.title}</span>
+                  {book.year != null && <span className="publisher-card__book-year">({book.year})</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      {/* Hover Indicator */}
+      <div className="publisher-card__hover-indicator">
+        <span>View Details</span>
+        <span className="publisher-card__arrow">→</span>
+      </div>
+    </motion.div>
+  );
+};
+
+export default PublisherCard;
@@ -0,0 +1,214 @@
+import { useState, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import type { Publisher, APIError } from '../../types/api';
+import { PublisherCard } from './PublisherCard';
+import { useDebounce } from '../../hooks/useDebounce';
+import { useAuth } from '../../hooks/useAuth';
+import './PublishersSection.scss';
+
+interface PublishersSectionProps {
+  publishers?: Publisher[];
+  loading?: boolean;
+  error?: APIError | null;
+  onPublisherClick?: (publisher: Publisher) => void;
+  onAddPublisher?: () => void;
+}
+
+export const PublishersSection: React.FC<PublishersSectionProps> = ({
+  publishers = [],
+  loading = false,
+  error = null,
+  onPublisherClick,
+  onAddPublisher,
+}) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [sortBy, setSortBy] = useState<'name' | 'bookCount'>('name');
+  const debouncedSearchTerm = useDebounce(searchTerm, 300);
+  const { isAuthenticated } = useAuth();
+
+  // Filter and sort publishers with debounced search
+  const sortedPublishers = useMemo(() => {
+    // Filter publishers by debounced search term
+    const filtered = publishers.filter((publisher) =>
+      publisher.name.toLowerCase().includes(debouncedSearchTerm.toLowerCase())
+    );
+
+    // Sort publishers
+    return [...filtered].sort((a, b) => {
+      if (sortBy === 'name') {
+        return a.name.localeCompare(b.name);
+      } else {
+        return (b.books?.length || 0) - (a.books?.length || 0);
+      }
+    });
+  }, [publishers, debouncedSearchTerm, sortBy]);
+
+  // Keep showing cached (e.g. offline) publishers when a refresh fails
+  const showError = !!error && publishers.length === 0;
+
+  const renderContent = () => {
+    // Loading state
+    if (loading) {
+      return (
+        <div className="publishers-section__loading">
+          <div className="publishers-section__spinner" />
+          <p>Loading publishers...</p>
+        </div>
+      );
+    }
+
+    // Error state
+    if (showError && error) {
+      return (
+        <div className="publishers-section__error">
+          <div className="publishers-section__error-icon">⚠️</div>
+          <h3>Failed to Load Publishers</h3>
+          <p>{error.message || 'An error occurred while fetching publishers.'}</p>
+        </div>
+      );
+    }
+
+    // Empty state
+    if (publishers.length === 0) {
+      return (
+        <div className="publishers-section__empty">
+          <div className="publishers-section__empty-icon">🏛️</div>
+          <h3>No Publishers Yet</h3>
+          <p>Be the first to add an publisher to the library!</p>
+          {onAddPublisher && isAuthenticated && (
+            <button className="publishers-section__add-btn" onClick={onAddPublisher}>
+              <span className="publishers-section__add-icon">+</span>
+              Add First Publisher
+            </button>
+          )}
+        </div>
+      );
+    }
+
+    // No search results
+    if (sortedPublishers.length === 0) {
+      return (
+        <div className="publishers-section__empty">
+          <div className="publishers-section__empty-icon">🔍</div>
+          <h3>No Publishers Found</h3>
+          <p>Try a different search term.</p>
+        </div>
+      );
+    }
+
+    // Publishers grid
+    return (
+      <motion.div
+        className="publishers-section__grid"
+        initial="hidden"
+        animate="visible"
+        variants={{
+          visible: {
+            transition: {
+              staggerChildren: 0.08,
+            },
+          },
+        }}
+      >
+        {sortedPublishers.map((publisher) => (
+          <PublisherCard
+            key={publisher.id}
+            publisher={publisher}
+            onClick={() => onPublisherClick?.(publisher)}
+          />
+        ))}
+      </motion.div>
+    );
+  };
+
+  return (
+    <section className="publishers-section" id="publishers">
+      <div className="publishers-section__container">
+        {/* Section Header */}
+        <motion.div
+          className="publishers-section__header"
+          initial={{ opacity: 0, y: -30 }}
+          whileInView={{ opacity: 1, y: 0 }}
+          viewport={{ once: true, margin: '-100px' }}
+          transition={{ duration: 0.8, ease: 'easeOut' }}
+        >
+          <span className="publishers-section__eyebrow">Publishing Houses</span>
+          <h2 className="publishers-section__title">Behind the Imprint</h2>
+          <p className="publishers-section__subtitle">
+            Discover the houses that brought your favorite books to print
+          </p>
+        </motion.div>
+
+        {/* Controls */}
+        <motion.div
+          className="publishers-section__controls"
+          initial={{ opacity: 0, y: 20 }}
+          whileInView={{ opacity: 1, y: 0 }}
+          viewport={{ once: true, margin: '-100px' }}
+          transition={{ duration: 0.6, delay: 0.2 }}
+        >
+          {/* Search Bar */}
+          <div className="publishers-section__search">
+            <span className="publishers-section__search-icon">🔍</span>
+            <input
+              id="search-publishers"
+              name="search-publishers"
+              type="text"
+              placeholder="Search publishers..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="publishers-section__search-input"
+            />
+            {searchTerm && (
+              <button
+                className="publishers-section__search-clear"
+                onClick={() => setSearchTerm('')}
+                aria-label="Clear search"
+              >
+                ✕
+              </button>
+            )}
+          </div>
+
+          {/* Sort Dropdown */}
+          <div className="publishers-section__sort">
+            <label htmlFor="sort-publishers">Sort by:</label>
+            <select
+              id="sort-publishers"
+              value={sortBy}
+              onChange={(e) => setSortBy(e.target.value as 'name' | 'bookCount')}
+              className="publishers-section__sort-select"
+            >
+              <option value="name">Name (A-Z)</option>
+              <option value="bookCount">Book Count</option>
+            </select>
+          </div>
+
+          {/* Add Publisher Button */}
+          {onAddPublisher && isAuthenticated && (
+            <button className="publishers-section__add-btn" onClick={onAddPublisher}>
+              <span className="publishers-section__add-icon">+</span>
+              Add Publisher
+            </button>
+          )}
+        </motion.div>
+
+        {/* Results Count */}
+        {!loading && !showError && publishers.length > 0 && (
+          <motion.div
+            className="publishers-section__results"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 0.4 }}
+          >
+            Showing {sortedPublishers.length} of {publishers.length} publisher
+            {publishers.length !== 1 ? 's' : ''}
+          </motion.div>
+        )}
+
+        {/* Content */}
+        {renderContent()}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,2 @@
+export { PublishersSection } from './PublishersSection';
+export { PublisherCard } from './PublisherCard';
@@ -8,7 +8,20 @@ import './Toast.scss'
 
 export type ToastType = 'success' | 'error' | 'info'
 
-export interface ToastProps {
+/**
+ * Button shown next to the message (e.g. "Undo") - clicking it closes the toast
+ */
+export interface ToastAction {
+  label: string
+  onClick: () => void
+}
+
+export interface ToastOptions {
+  action?: ToastAction
+  onDismiss?: () => void // The user closed the toast with × (not called on timeout or action)
+}
+
+export interface ToastProps extends ToastOptions {
   id: string
   message: string
   type: ToastType
@@ -16,7 +29,7 @@ export interface ToastProps {
   onClose: (id: string) => void
 }
 
-export const Toast = ({ id, message, type, duration = 4000, onClose }: ToastProps) => {
+export const Toast = ({ id, message, type, duration = 4000, action, onDismiss, onClose }: ToastProps) => {
   useEffect(() => {
     const timer = setTimeout(() => {
       onClose(id)
@@ -25,6 +38,16 @@ export const Toast = ({ id, message, type, duration = 4000, onClose }: ToastProp
     return () => clearTimeout(timer)
   }, [id, duration, onClose])
 
+  const handleAction = () => {
+    action?.onClick()
+    onClose(id)
+  }
+
+  const handleDismiss = () => {
+    onDismiss?.()
+    onClose(id)
+  }
+
   const icons = {
     success: '✓',
     error: '✕',
@@ -42,13 +65,20 @@ export const Toast = ({ id, message, type, duration = 4000, onClose }: ToastProp
     >
       <div className="toast__icon">{icons[type]}</div>
       <p className="toast__message">{message}</p>
+      {action && (
+        <button className="toast__action" onClick={handleAction}>
+          {action.label}
+        </button>
+      )}
       <button
         className="toast__close"
-        onClick={() => onClose(id)}
+        onClick={handleDismiss}
         aria-label="Close notification"
       >
         ×
       </button>
+      {/* Time left to use the action */}
+      {action && <span className="toast__countdown" style={{ animationDuration: `${duration}ms` }} />}
     </motion.div>
   )
 }
@@ -1,2 +1,2 @@
 export { Toast, ToastContainer } from './Toast'
-export type { ToastProps, ToastType } from './Toast'
+export type { ToastProps, ToastType, ToastAction, ToastOptions } from './Toast'
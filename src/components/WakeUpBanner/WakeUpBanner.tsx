@@ -0,0 +1,39 @@
+// ============================================
+// WAKE-UP BANNER COMPONENT
+// Shown while the backend is starting from a cold sleep
+// ============================================
+
+import { motion, AnimatePresence } from 'framer-motion'
+import { useServerWakeUp } from '../../hooks/useServerWakeUp'
+import './WakeUpBanner.scss'
+
+export const WakeUpBanner = () => {
+  const { isWakingUp, elapsedSeconds, attempt, maxAttempts } = useServerWakeUp()
+
+  return (
+    <AnimatePresence>
+      {isWakingUp && (
+        <motion.div
+          className="wake-up-banner"
+          role="status"
+          aria-live="polite"
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -20 }}
+          transition={{ duration: 0.3, ease: 'easeOut' }}
+        >
+          <span className="wake-up-banner__spinner" aria-hidden="true" />
+          <div className="wake-up-banner__text">
+            <p className="wake-up-banner__title">
+              Waking up the server... <span className="wake-up-banner__timer">{elapsedSeconds}s</span>
+            </p>
+            <p className="wake-up-banner__hint">
+              The backend sleeps when idle and can take up to a minute to start
+              {attempt > 0 && ` (retry ${attempt}/${maxAttempts})`}
+            </p>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -0,0 +1 @@
+export { WakeUpBanner } from './WakeUpBanner'
@@ -2,185 +2,575 @@
 // CUSTOM API HOOKS
 // ============================================
 
-import { useState, useEffect, useCallback } from 'react';
-import { booksAPI, authorsAPI, getErrorMessage } from '../services/api';
-import type { Book, Author, CreateBookDTO, UpdateBookDTO, CreateAuthorDTO, UpdateAuthorDTO, APIError, BookSearchResult } from '../types/api';
-
-// Helper to safely extract status from error
-const getErrorStatus = (err: unknown): number | undefined => {
-  if (err && typeof err === 'object' && 'response' in err) {
-    const response = (err as { response?: { status?: number } }).response;
-    return response?.status;
-  }
-  return undefined;
-};
+import { useState, useEffect, useCallback, useMemo, useRef, useSyncExternalStore } from 'react';
+import { booksAPI, authorsAPI, publishersAPI, isCancelledError } from '../services/api';
+import { toAPIError, getErrorKind, isVersionConflict } from '../services/apiErrors';
+import { entityStore, selectBook, selectBooks, selectAuthor, selectAuthors, selectPublisher, selectPublishers } from '../services/entityStore';
+import type { EntityState } from '../services/entityStore';
+import { queryCache, DEFAULT_STALE_TIME } from '../services/queryCache';
+import type { QueryEntry, Fetcher, FetchOptions } from '../services/queryCache';
+import { pageBooks, matchesSearch, DEFAULT_PAGE_SIZE, BOOK_PAGES_KEY } from '../services/bookQuery';
+import { isbnKey, matchesISBN } from '../services/isbn';
+import { useOnlineStatus } from './useOnlineStatus';
+import { outbox, isOffline, isOfflineError } from '../services/outbox';
+import type { NewOutboxEntry } from '../services/outbox';
+import { tabSync } from '../services/tabSync';
+import { undoableDeletes } from '../services/undoableDeletes';
+import type { DeleteOutcome } from '../services/undoableDeletes';
+import type { Book, Author, Publisher, CreateBookDTO, UpdateBookDTO, CreateAuthorDTO, UpdateAuthorDTO, CreatePublisherDTO, UpdatePublisherDTO, APIError, BookSearchResult, BookPageQuery } from '../types/api';
+
+// ============================================
+// ENTITY STORE BINDINGS
+// ============================================
+
+/**
+ * Subscribe a component to the shared entity store
+ */
+function useEntityState(): EntityState {
+  return useSyncExternalStore(entityStore.subscribe, entityStore.getState);
+}
+
+// ============================================
+// QUERY CACHE BINDINGS
+// ============================================
+
+export interface QueryOptions {
+  staleTime?: number; // Cached data younger than this (ms) is served without refetching
+  revalidateOnFocus?: boolean; // Refetch stale data when the window regains focus
+  revalidateOnReconnect?: boolean; // Refetch when the browser comes back online
+  pollInterval?: number; // Refetch in the background every N ms (0 = off)
+}
+
+interface UseQueryReturn<T> {
+  entry: QueryEntry<T>;
+  error: APIError | null;
+  isValidating: boolean; // A request for this key is in flight (with or without cached data)
+  revalidate: (force?: boolean, replace?: boolean) => Promise<void>;
+}
+
+/**
+ * Bind a component to one query cache key.
+ * Fetches on mount when stale, revalidates on focus/reconnect and optionally polls.
+ * The request is aborted once no component is subscribed to the key anymore.
+ */
+function useQuery<T>(
+  key: string | null,
+  fetcher: Fetcher<T>,
+  options: QueryOptions & { enabled?: boolean } = {}
+): UseQueryReturn<T> {
+  const {
+    staleTime = DEFAULT_STALE_TIME,
+    revalidateOnFocus = true,
+    revalidateOnReconnect = true,
+    pollInterval = 0,
+    enabled = true,
+  } = options;
+
+  // Always call the latest fetcher without making it an effect dependency
+  const fetcherRef = useRef(fetcher);
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  }, [fetcher]);
+
+  const subscribe = useCallback(
+    (listener: () => void) => (key ? queryCache.subscribe(key, listener) : () => {}),
+    [key]
+  );
+  const getSnapshot = useCallback(() => queryCache.get<T>(key || ''), [key]);
+  const entry = useSyncExternalStore(subscribe, getSnapshot);
+
+  const revalidate = useCallback(
+    (force = true, replace = false) => {
+      if (!key) return Promise.resolve();
+      return queryCache.fetch(key, (signal) => fetcherRef.current(signal), { force, replace, staleTime });
+    },
+    [key, staleTime]
+  );
+
+  // Initial fetch (skipped while cached data is fresh)
+  useEffect(() => {
+    if (enabled) {
+      revalidate(false);
+    }
+  }, [enabled, revalidate]);
+
+  // Fetch again if the entry is dropped while mounted (cache cleared after a backend switch)
+  const isCleared = entry.updatedAt === 0 && !entry.isFetching && !entry.error;
+  useEffect(() => {
+    if (enabled && isCleared) {
+      revalidate(false);
+    }
+  }, [enabled, isCleared, revalidate]);
+
+  // Background revalidation on focus / reconnect
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleFocus = () => {
+      if (document.visibilityState === 'visible') {
+        revalidate(false);
+      }
+    };
+    const handleOnline = () => {
+      revalidate(true);
+    };
+
+    if (revalidateOnFocus) {
+      window.addEventListener('focus', handleFocus);
+      document.addEventListener('visibilitychange', handleFocus);
+    }
+    if (revalidateOnReconnect) {
+      window.addEventListener('online', handleOnline);
+    }
+
+    return () => {
+      window.removeEventListener('focus', handleFocus);
+      document.removeEventListener('visibilitychange', handleFocus);
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [enabled, revalidate, revalidateOnFocus, revalidateOnReconnect]);
+
+  // Optional polling
+  useEffect(() => {
+    if (!enabled || pollInterval <= 0) return;
+
+    const interval = setInterval(() => {
+      revalidate(true);
+    }, pollInterval);
+
+    return () => clearInterval(interval);
+  }, [enabled, pollInterval, revalidate]);
+
+  const error = useMemo(() => (entry.error ? toAPIError(entry.error) : null), [entry.error]);
+
+  return { entry, error, isValidating: entry.isFetching, revalidate };
+}
 
 // ============================================
 // GENERIC API HOOK
 // ============================================
 
-interface UseAPIOptions {
+interface UseAPIOptions extends QueryOptions {
   immediate?: boolean; // Execute immediately on mount
+  key?: string; // Cache key - include every request parameter. Omit to disable caching.
 }
 
 interface UseAPIReturn<T> {
   data: T | null;
-  loading: boolean;
+  loading: boolean; // True only while there is no data to show yet
+  isValidating: boolean; // True during any request, including background refreshes
   error: APIError | null;
   execute: () => Promise<void>;
   reset: () => void;
 }
 
+let anonymousQueryId = 0;
+const nextAnonymousKey = () => `anonymous:${++anonymousQueryId}`;
+
 /**
- * Generic hook for API calls with loading and error states
+ * Generic hook for API calls with loading and error states.
+ * With a `key`, results are cached and shared (stale-while-revalidate);
+ * without one, every call hits the network as before.
  */
 export function useAPI<T>(
-  apiFunction: () => Promise<T>,
+  apiFunction: (signal?: AbortSignal) => Promise<T>,
   options: UseAPIOptions = { immediate: true }
 ): UseAPIReturn<T> {
-  const [data, setData] = useState<T | null>(null);
-  const [loading, setLoading] = useState<boolean>(options.immediate || false);
+  const { immediate = false, key, ...queryOptions } = options;
+  const [anonymousKey] = useState(nextAnonymousKey);
+  const cacheKey = key || anonymousKey;
+  const isCached = !!key;
+
+  const { entry, error, isValidating, revalidate } = useQuery(cacheKey, apiFunction, {
+    ...(isCached ? {} : { staleTime: 0, revalidateOnFocus: false, revalidateOnReconnect: false }),
+    ...queryOptions,
+    enabled: immediate,
+  });
+
+  // Uncached calls re-run whenever the API function changes (e.g. new parameters),
+  // aborting the request made with the previous parameters
+  useEffect(() => {
+    if (immediate && !isCached) {
+      revalidate(true, true);
+    }
+  }, [apiFunction, immediate, isCached, revalidate]);
+
+  const execute = useCallback(() => revalidate(true), [revalidate]);
+
+  const reset = useCallback(() => {
+    queryCache.remove(cacheKey);
+  }, [cacheKey]);
+
+  const hasData = entry.updatedAt > 0;
+
+  return {
+    data: hasData ? (entry.data as T) : null,
+    loading: !hasData && (entry.isFetching || (immediate && !error)),
+    isValidating,
+    error,
+    execute,
+    reset,
+  };
+}
+
+// ============================================
+// OPTIMISTIC UPDATE HELPERS
+// ============================================
+
+// Temporary ids for optimistically created entities (negative, never sent to the API).
+// Always below any temporary id restored from the offline outbox.
+let nextTempId = -1;
+const createTempId = () => {
+  const { books, authors } = entityStore.getState();
+  const lowest = Math.min(0, ...Object.keys(books).map(Number), ...Object.keys(authors).map(Number));
+  nextTempId = Math.min(nextTempId, lowest - 1);
+  return nextTempId--;
+};
+
+/**
+ * After a version conflict: load the record as the server has it now and show
+ * it everywhere (null if it could not be loaded - the plain error is shown then)
+ */
+const fetchLatest = async <T>(load: () => Promise<T>, store: (latest: T) => void): Promise<T | null> => {
+  try {
+    const latest = await load();
+    store(latest);
+    return latest;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Build the book the server is expected to return for a create/update DTO
+ */
+const buildOptimisticBook = (id: number, dto: CreateBookDTO | UpdateBookDTO, base?: Book | null): Book => {
+  const { authors, publishers } = entityStore.getState();
+  const publisherId = dto.publisherId ?? null;
+
+  return {
+    ...base,
+    id,
+    title: dto.title,
+    isbn: dto.isbn,
+    year: dto.year,
+    authorId: dto.authorId,
+    publisherId,
+    author: authors[dto.authorId] || base?.author || { id: dto.authorId, name: 'Unknown Author' },
+    publisher: publisherId ? publishers[publisherId] || null : null,
+    details: {
+      id: base?.details?.id || 0,
+      bookId: id,
+      description: dto.description ?? null,
+      smallThumbnail: dto.smallThumbnail ?? null,
+      thumbnail: dto.thumbnail ?? null,
+    },
+  };
+};
+
+// ============================================
+// BOOKS HOOKS
+// ============================================
+
+const fetchAllBooks = async (signal: AbortSignal) => {
+  entityStore.replaceBooks(await booksAPI.getAll(signal));
+};
+
+/**
+ * Fetch all books - cached under the 'books' key and stored in the entity store,
+ * so every caller shares one GET /books and sees the same data
+ */
+export function useBooks(options: QueryOptions = {}) {
+  const state = useEntityState();
+  const { entry, error, isValidating, revalidate } = useQuery('books', fetchAllBooks, options);
+  const loaded = entry.updatedAt > 0;
+
+  const refetch = useCallback(() => revalidate(true), [revalidate]);
+
+  const data = useMemo(() => (loaded ? selectBooks(state) : null), [loaded, state]);
+
+  return { data, pending: state.pendingBooks, loading: !loaded && !error, isValidating, error, refetch };
+}
+
+/**
+ * Load the whole catalog on demand (e.g. for an export), past the pages loaded so far
+ */
+export function useLoadAllBooks() {
+  const [loading, setLoading] = useState(false);
   const [error, setError] = useState<APIError | null>(null);
 
-  const execute = useCallback(async () => {
+  const loadAllBooks = useCallback(async (): Promise<Book[] | null> => {
     setLoading(true);
     setError(null);
-    
+
     try {
-      const result = await apiFunction();
-      setData(result);
+      const result = await booksAPI.getAll();
+      entityStore.upsertBooks(result);
+      return result;
     } catch (err) {
-      const errorMessage = getErrorMessage(err);
-      setError({
-        message: errorMessage,
-        status: getErrorStatus(err),
-      });
+      setError(toAPIError(err));
+      return null;
     } finally {
       setLoading(false);
     }
-  }, [apiFunction]);
-
-  const reset = useCallback(() => {
-    setData(null);
-    setLoading(false);
-    setError(null);
   }, []);
 
-  useEffect(() => {
-    if (options.immediate) {
-      execute();
-    }
-  }, [execute, options.immediate]);
+  return { loadAllBooks, loading, error };
+}
 
-  return { data, loading, error, execute, reset };
+// Cached per page: the ids on the page (the books themselves live in the entity store)
+interface BookPage {
+  ids: number[];
+  totalCount: number;
 }
 
-// ============================================
-// BOOKS HOOKS
-// ============================================
+const fetchBookPage = async (query: BookPageQuery, signal: AbortSignal): Promise<BookPage> => {
+  const result = await booksAPI.getPage(query, signal);
+  entityStore.upsertBooks(result.items);
+  return { ids: result.items.map((book) => book.id), totalCount: result.totalCount };
+};
+
+const EMPTY_PAGES: QueryEntry<BookPage>[] = [];
 
 /**
- * Fetch all books - with stable reference to prevent infinite loops
+ * Fetch books page by page, searched and sorted by the server.
+ * Pages are cached per query; `loadMore` appends the next one.
+ * Books created in this session (temporary ids) are listed first. While offline,
+ * or when the backend cannot be reached, the books already in the entity store are paged locally.
  */
-export function useBooks() {
-  const [data, setData] = useState<Book[] | null>(null);
-  const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<APIError | null>(null);
-  const [refetchTrigger, setRefetchTrigger] = useState(0);
-
-  const refetch = useCallback(() => {
-    setRefetchTrigger(prev => prev + 1);
-  }, []);
-
+export function useBookPages(query: Omit<BookPageQuery, 'page' | 'pageSize'> & { pageSize?: number } = {}, options: QueryOptions = {}) {
+  const { search = '', sortBy = 'title', sortOrder = 'asc', pageSize = DEFAULT_PAGE_SIZE } = query;
+  const { staleTime = DEFAULT_STALE_TIME, revalidateOnFocus = true, revalidateOnReconnect = true } = options;
+  const term = search.trim();
+  const baseKey = `${BOOK_PAGES_KEY}:${JSON.stringify([term, sortBy, sortOrder, pageSize])}`;
+
+  const state = useEntityState();
+  const isOnline = useOnlineStatus();
+
+  // Number of pages shown - back to one whenever the query changes
+  const [pages, setPages] = useState({ baseKey, count: 1 });
+  const pageCount = pages.baseKey === baseKey ? pages.count : 1;
+
+  const keys = useMemo(
+    () => Array.from({ length: pageCount }, (_, index) => `${baseKey}:${index + 1}`),
+    [baseKey, pageCount]
+  );
+
+  // One snapshot array for all pages, rebuilt only when one of the entries changes
+  const snapshotRef = useRef<QueryEntry<BookPage>[]>(EMPTY_PAGES);
+  const subscribe = useCallback(
+    (listener: () => void) => {
+      const unsubscribers = keys.map((key) => queryCache.subscribe(key, listener));
+      return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+    },
+    [keys]
+  );
+  const getSnapshot = useCallback(() => {
+    const next = keys.map((key) => queryCache.get<BookPage>(key));
+    const previous = snapshotRef.current;
+    if (next.length !== previous.length || next.some((entry, index) => entry !== previous[index])) {
+      snapshotRef.current = next;
+    }
+    return snapshotRef.current;
+  }, [keys]);
+  const entries = useSyncExternalStore(subscribe, getSnapshot);
+
+  const fetchPage = useCallback(
+    (page: number, fetchOptions: FetchOptions = {}) =>
+      queryCache.fetch(
+        `${baseKey}:${page}`,
+        (signal) => fetchBookPage({ page, pageSize, search: term, sortBy, sortOrder }, signal),
+        { staleTime, ...fetchOptions }
+      ),
+    [baseKey, pageSize, term, sortBy, sortOrder, staleTime]
+  );
+
+  // Fetch missing and invalidated pages. A page that failed is not retried until
+  // the user asks (retry, load more, focus, reconnect) - `attempted` remembers the
+  // version of each page that was already requested.
+  const attemptedRef = useRef(new Map<string, number>());
   useEffect(() => {
-    let isMounted = true;
-
-    const fetchBooks = async () => {
-      setLoading(true);
-      setError(null);
-      
-      try {
-        const result = await booksAPI.getAll();
-        if (isMounted) {
-          setData(result);
-        }
-      } catch (err) {
-        if (isMounted) {
-          const errorMessage = getErrorMessage(err);
-          setError({
-            message: errorMessage,
-            status: getErrorStatus(err),
-          });
-        }
-      } finally {
-        if (isMounted) {
-          setLoading(false);
-        }
+    if (!isOnline) return;
+    keys.forEach((key, index) => {
+      const entry = queryCache.get(key);
+      if (entry.isFetching || !queryCache.isStale(key, staleTime)) return;
+      if (attemptedRef.current.get(key) === entry.updatedAt) return;
+      attemptedRef.current.set(key, entry.updatedAt);
+      fetchPage(index + 1);
+    });
+  }, [entries, keys, isOnline, staleTime, fetchPage]);
+
+  const revalidateAll = useCallback(
+    async (force: boolean) => {
+      attemptedRef.current.clear();
+      await Promise.all(keys.map((_, index) => fetchPage(index + 1, { force })));
+    },
+    [keys, fetchPage]
+  );
+
+  const refetch = useCallback(() => revalidateAll(true), [revalidateAll]);
+
+  // Background revalidation on focus / reconnect
+  useEffect(() => {
+    const handleFocus = () => {
+      if (document.visibilityState === 'visible') {
+        revalidateAll(false);
       }
     };
+    const handleOnline = () => {
+      revalidateAll(true);
+    };
 
-    fetchBooks();
+    if (revalidateOnFocus) {
+      window.addEventListener('focus', handleFocus);
+      document.addEventListener('visibilitychange', handleFocus);
+    }
+    if (revalidateOnReconnect) {
+      window.addEventListener('online', handleOnline);
+    }
 
     return () => {
-      isMounted = false;
+      window.removeEventListener('focus', handleFocus);
+      document.removeEventListener('visibilitychange', handleFocus);
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [revalidateAll, revalidateOnFocus, revalidateOnReconnect]);
+
+  const firstError = entries.find((entry) => entry.error)?.error;
+  const error = useMemo(() => (firstError ? toAPIError(firstError) : null), [firstError]);
+
+  const firstPage = entries[0]?.data;
+  const lastPage = entries[entries.length - 1];
+  const useLocal = !isOnline || (!firstPage && !!firstError && isOfflineError(firstError));
+
+  const result = useMemo(() => {
+    const pageQuery = { search: term, sortBy, sortOrder };
+
+    if (useLocal) {
+      const local = pageBooks(selectBooks(state), { ...pageQuery, page: 1, pageSize: pageCount * pageSize });
+      return { data: local.items, totalCount: local.totalCount, hasMore: local.items.length < local.totalCount };
+    }
+    if (!firstPage) {
+      return { data: null, totalCount: 0, hasMore: false };
+    }
+
+    // Created in this session but not on a server page yet
+    const created = Object.keys(state.books)
+      .map(Number)
+      .filter((id) => id < 0)
+      .map((id) => selectBook(state, id))
+      .filter((book): book is Book => !!book && matchesSearch(book, term));
+
+    // Pages can overlap when books were added or removed between fetches
+    const seen = new Set<number>();
+    let removed = 0;
+    const listed: Book[] = [];
+    for (const entry of entries) {
+      for (const id of entry.data?.ids || []) {
+        if (seen.has(id)) continue;
+        seen.add(id);
+        const book = selectBook(state, id);
+        if (book) listed.push(book);
+        else removed++;
+      }
+    }
+
+    const data = [...created, ...listed];
+    const serverTotal = lastPage?.data?.totalCount ?? firstPage.totalCount;
+    return {
+      data,
+      totalCount: Math.max(data.length, serverTotal + created.length - removed),
+      hasMore: !!lastPage?.data && pageCount * pageSize < lastPage.data.totalCount,
     };
-  }, [refetchTrigger]); // Refetch when trigger changes
+  }, [useLocal, firstPage, lastPage, entries, state, term, sortBy, sortOrder, pageCount, pageSize]);
 
-  return { data, loading, error, refetch };
+  // Keep showing the previous query's books until the first page of a new one arrives
+  const lastResultRef = useRef(result);
+  useEffect(() => {
+    if (result.data) lastResultRef.current = result;
+  }, [result]);
+  const shown = !result.data && !error && lastResultRef.current.data ? lastResultRef.current : result;
+
+  /**
+   * Show the next page (or retry the last one if it failed)
+   */
+  const loadMore = useCallback(() => {
+    if (lastPage?.error && !lastPage.data) {
+      attemptedRef.current.delete(keys[keys.length - 1]);
+      fetchPage(keys.length, { force: true });
+      return;
+    }
+    if (!result.hasMore || lastPage?.isFetching) return;
+    setPages({ baseKey, count: pageCount + 1 });
+  }, [lastPage, keys, fetchPage, result.hasMore, baseKey, pageCount]);
+
+  return {
+    data: shown.data,
+    pending: state.pendingBooks,
+    totalCount: shown.totalCount,
+    hasMore: result.hasMore,
+    loading: !shown.data && !error,
+    loadingMore: !useLocal && pageCount > 1 && !!lastPage?.isFetching && !lastPage.data,
+    isValidating: entries.some((entry) => entry.isFetching),
+    error: useLocal ? null : error,
+    loadMore,
+    refetch,
+  };
 }
 
 /**
- * Fetch single book by ID
+ * Fetch single book by ID - cached data from the entity store is shown
+ * immediately while the book is revalidated in the background.
+ * Switching to another id or unmounting aborts the request.
  */
-export function useBook(id: number, immediate = true) {
-  const [data, setData] = useState<Book | null>(null);
-  const [loading, setLoading] = useState<boolean>(immediate);
-  const [error, setError] = useState<APIError | null>(null);
+export function useBook(id: number, immediate = true, options: QueryOptions = {}) {
+  const state = useEntityState();
 
-  const execute = useCallback(async () => {
-    if (!id) return;
-    
-    setLoading(true);
-    setError(null);
-    
+  const fetchBook = useCallback(async (signal: AbortSignal) => {
     try {
-      const result = await booksAPI.getById(id);
-      setData(result);
+      entityStore.upsertBooks([await booksAPI.getById(id, signal)]);
     } catch (err) {
-      const errorMessage = getErrorMessage(err);
-      setError({
-        message: errorMessage,
-        status: getErrorStatus(err),
-      });
-    } finally {
-      setLoading(false);
+      if (getErrorKind(err) === 'not-found') {
+        entityStore.removeBook(id);
+      }
+      throw err;
     }
   }, [id]);
 
-  const reset = useCallback(() => {
-    setData(null);
-    setLoading(false);
-    setError(null);
-  }, []);
+  const key = id > 0 ? `book:${id}` : null; // Temporary (optimistic) ids are never fetched
+  const { error, isValidating, revalidate } = useQuery(key, fetchBook, {
+    ...options,
+    enabled: immediate && !!id,
+  });
 
-  useEffect(() => {
-    if (immediate && id) {
-      execute();
-    }
-  }, [execute, immediate, id]);
+  const data = useMemo(() => (id ? selectBook(state, id) : null), [state, id]);
+
+  const execute = useCallback(() => revalidate(true), [revalidate]);
+
+  const reset = useCallback(() => {
+    if (key) queryCache.remove(key);
+  }, [key]);
 
-  return { data, loading, error, execute, reset };
+  return { data, loading: isValidating && !data, isValidating, error, execute, reset };
 }
 
 /**
  * Fetch book by ISBN
  */
 export function useBookByISBN(isbn: string, immediate = false) {
-  return useAPI(() => booksAPI.getByISBN(isbn), { immediate });
+  const fetchByISBN = useCallback(async (signal?: AbortSignal) => {
+    const result = await booksAPI.getByISBN(isbn, signal);
+    entityStore.upsertBooks([result]);
+    return result;
+  }, [isbn]);
+
+  return useAPI(fetchByISBN, { immediate, key: `book-isbn:${isbnKey(isbn)}` });
 }
 
 /**
- * Create new book
+ * Create new book - shown immediately as a pending card, replaced by the
+ * server's book on success and removed again on failure
+ * (queued in the outbox while offline)
  */
 export function useCreateBook() {
   const [loading, setLoading] = useState(false);
@@ -190,15 +580,31 @@ export function useCreateBook() {
     setLoading(true);
     setError(null);
     
+    const tempId = createTempId();
+    const change: NewOutboxEntry = { kind: 'books', action: 'create', entityId: tempId, payload: book, label: book.title };
+    entityStore.upsertBooks([buildOptimisticBook(tempId, book)]);
+    
     try {
+      // Offline, or written by an author that only exists offline - sync later
+      if (isOffline() || book.authorId < 0) {
+        outbox.enqueue(change);
+        return selectBook(entityStore.getState(), tempId);
+      }
+
+      entityStore.setPending('books', tempId, 'creating');
       const result = await booksAPI.create(book);
+      entityStore.removeBook(tempId);
+      entityStore.upsertBooks([result]);
+      queryCache.invalidate(BOOK_PAGES_KEY);
+      tabSync.broadcast({ kind: 'books', action: 'created', id: result.id, label: result.title, record: result });
       return result;
     } catch (err) {
-      const errorMessage = getErrorMessage(err);
-      setError({
-        message: errorMessage,
-        status: getErrorStatus(err),
-      });
+      if (isOfflineError(err)) {
+        outbox.enqueue(change);
+        return selectBook(entityStore.getState(), tempId);
+      }
+      entityStore.removeBook(tempId);
+      setError(toAPIError(err));
       return null;
     } finally {
       setLoading(false);
@@ -209,58 +615,111 @@ export function useCreateBook() {
 }
 
 /**
- * Update existing book
+ * Update existing book - applied optimistically, rolled back on failure
+ * (queued in the outbox instead while offline)
  */
 export function useUpdateBook() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<APIError | null>(null);
-
-  const updateBook = useCallback(async (id: number, book: UpdateBookDTO): Promise<Book | null> => {
+  const [conflict, setConflict] = useState<Book | null>(null);
+
+  /**
+   * `version` is the one the book had when the form was opened - if someone
+   * else saved it since, the server rejects the update and `conflict` holds
+   * their version
+   */
+  const updateBook = useCallback(async (id: number, book: UpdateBookDTO, version?: string | null): Promise<Book | null> => {
     setLoading(true);
     setError(null);
+    setConflict(null);
+    
+    const change: NewOutboxEntry = { kind: 'books', action: 'update', entityId: id, payload: book, label: book.title, version };
+    const rollback = entityStore.capture({ books: [id] });
+    entityStore.upsertBooks([buildOptimisticBook(id, book, selectBook(entityStore.getState(), id))]);
     
     try {
-      const result = await booksAPI.update(id, book);
+      // Offline, or the book itself only exists offline - sync later
+      if (isOffline() || id < 0 || book.authorId < 0) {
+        outbox.enqueue(change);
+        return selectBook(entityStore.getState(), id);
+      }
+
+      entityStore.setPending('books', id, 'updating');
+      const result = await booksAPI.update(id, book, version);
+      entityStore.upsertBooks([result]);
+      entityStore.setPending('books', id, null);
+      queryCache.invalidate(BOOK_PAGES_KEY); // The new title/year may move it to another page
+      tabSync.broadcast({ kind: 'books', action: 'updated', id, label: result.title, record: result });
       return result;
     } catch (err) {
-      const errorMessage = getErrorMessage(err);
-      setError({
-        message: errorMessage,
-        status: getErrorStatus(err),
-      });
+      if (isOfflineError(err)) {
+        outbox.enqueue(change);
+        return selectBook(entityStore.getState(), id);
+      }
+      rollback();
+      if (isVersionConflict(err)) {
+        setConflict(await fetchLatest(() => booksAPI.getById(id), (latest) => entityStore.upsertBooks([latest])));
+      }
+      setError(toAPIError(err));
       return null;
     } finally {
       setLoading(false);
     }
   }, []);
 
-  return { updateBook, loading, error };
+  return { updateBook, loading, error, conflict };
 }
 
 /**
- * Delete book
+ * Delete book - removed from every list immediately; the DELETE is sent after
+ * the undo grace period (see undoableDeletes), and the book is restored on failure
+ * (queued in the outbox instead while offline)
  */
 export function useDeleteBook() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<APIError | null>(null);
 
-  const deleteBook = useCallback(async (id: number): Promise<boolean> => {
-    setLoading(true);
+  const deleteBook = useCallback(async (id: number): Promise<DeleteOutcome> => {
     setError(null);
     
-    try {
-      await booksAPI.delete(id);
-      return true;
-    } catch (err) {
-      const errorMessage = getErrorMessage(err);
-      setError({
-        message: errorMessage,
-        status: getErrorStatus(err),
-      });
-      return false;
-    } finally {
-      setLoading(false);
-    }
+    const change: NewOutboxEntry = {
+      kind: 'books',
+      action: 'delete',
+      entityId: id,
+      label: entityStore.getState().books[id]?.title || `Book #${id}`,
+    };
+    const rollback = entityStore.capture({ books: [id] });
+    entityStore.removeBook(id);
+
+    const commit = async (): Promise<boolean> => {
+      setLoading(true);
+      try {
+        if (isOffline() || id < 0) {
+          outbox.enqueue(change);
+          return true;
+        }
+
+        await booksAPI.delete(id);
+        queryCache.invalidate(BOOK_PAGES_KEY);
+        tabSync.broadcast({ kind: 'books', action: 'deleted', id, label: change.label });
+        return true;
+      } catch (err) {
+        if (isOfflineError(err)) {
+          outbox.enqueue(change);
+          return true;
+        }
+        rollback();
+        setError(toAPIError(err));
+        return false;
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    // Closing the tab: a keepalive DELETE (offline or unsaved books go through commit - the outbox)
+    const commitOnPageExit = () => !isOffline() && id > 0 && booksAPI.deleteOnPageExit(id);
+
+    return undoableDeletes.schedule({ kind: 'books', id, commit, commitOnPageExit, restore: rollback });
   }, []);
 
   return { deleteBook, loading, error };
@@ -279,13 +738,12 @@ export function useImportBook() {
     
     try {
       const result = await booksAPI.importByISBN(isbn);
+      entityStore.upsertBooks([result]);
+      queryCache.invalidate(BOOK_PAGES_KEY);
+      tabSync.broadcast({ kind: 'books', action: 'created', id: result.id, label: result.title, record: result });
       return result;
     } catch (err) {
-      const errorMessage = getErrorMessage(err);
-      setError({
-        message: errorMessage,
-        status: getErrorStatus(err),
-      });
+      setError(toAPIError(err));
       return null;
     } finally {
       setLoading(false);
@@ -301,177 +759,426 @@ export function useImportBook() {
 export function useSearchBooks() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<APIError | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  /**
+   * Abort the search in flight, if any
+   */
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setLoading(false);
+  }, []);
+
+  // Never let a search resolve into an unmounted component
+  useEffect(() => () => controllerRef.current?.abort(), []);
 
-  const searchBooks = useCallback(async (title: string, maxResults: number = 40): Promise<BookSearchResult[]> => {
-    if (!title.trim()) return [];
+  /**
+   * Search by title. Starting a new search aborts the previous one;
+   * a superseded or cancelled search resolves to null.
+   */
+  const searchBooks = useCallback(async (title: string, maxResults: number = 40): Promise<BookSearchResult[] | null> => {
+    controllerRef.current?.abort();
+
+    if (!title.trim()) {
+      controllerRef.current = null;
+      setLoading(false);
+      return [];
+    }
     
+    const controller = new AbortController();
+    controllerRef.current = controller;
     setLoading(true);
     setError(null);
     
     try {
-      const result = await booksAPI.searchByTitle(title, Math.min(maxResults, 40)); // Cap at 40
-      return result;
+      const result = await booksAPI.searchByTitle(title, Math.min(maxResults, 40), controller.signal); // Cap at 40
+      return controller.signal.aborted ? null : result;
     } catch (err) {
-      const errorMessage = getErrorMessage(err);
-      setError({
-        message: errorMessage,
-        status: getErrorStatus(err),
-      });
+      if (controller.signal.aborted || isCancelledError(err)) return null;
+      setError(toAPIError(err));
       return [];
     } finally {
-      setLoading(false);
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setLoading(false);
+      }
     }
   }, []);
 
-  return { searchBooks, loading, error };
+  return { searchBooks, cancel, loading, error };
 }
 
 // ============================================
 // AUTHORS HOOKS
 // ============================================
 
+const fetchAllAuthors = async (signal: AbortSignal) => {
+  entityStore.replaceAuthors(await authorsAPI.getAll(signal));
+};
+
+/**
+ * Fetch all authors - cached under the 'authors' key and stored in the entity store
+ */
+export function useAuthors(options: QueryOptions = {}) {
+  const state = useEntityState();
+  const { entry, error, isValidating, revalidate } = useQuery('authors', fetchAllAuthors, options);
+  const loaded = entry.updatedAt > 0;
+
+  const refetch = useCallback(() => revalidate(true), [revalidate]);
+
+  const data = useMemo(() => (loaded ? selectAuthors(state) : null), [loaded, state]);
+
+  return { data, pending: state.pendingAuthors, loading: !loaded && !error, isValidating, error, refetch };
+}
+
 /**
- * Fetch all authors - with stable reference to prevent infinite loops
+ * Fetch single author by ID - cached data is shown while revalidating
  */
-export function useAuthors() {
-  const [data, setData] = useState<Author[] | null>(null);
-  const [loading, setLoading] = useState<boolean>(true);
+export function useAuthor(id: number, immediate = true, options: QueryOptions = {}) {
+  const state = useEntityState();
+
+  const fetchAuthor = useCallback(async (signal: AbortSignal) => {
+    try {
+      entityStore.upsertAuthors([await authorsAPI.getById(id, signal)]);
+    } catch (err) {
+      if (getErrorKind(err) === 'not-found') {
+        entityStore.removeAuthor(id);
+      }
+      throw err;
+    }
+  }, [id]);
+
+  const key = id > 0 ? `author:${id}` : null; // Temporary (optimistic) ids are never fetched
+  const { error, isValidating, revalidate } = useQuery(key, fetchAuthor, {
+    ...options,
+    enabled: immediate && !!id,
+  });
+
+  const data = useMemo(() => (id ? selectAuthor(state, id) : null), [state, id]);
+
+  const execute = useCallback(() => revalidate(true), [revalidate]);
+
+  const reset = useCallback(() => {
+    if (key) queryCache.remove(key);
+  }, [key]);
+
+  return { data, loading: isValidating && !data, isValidating, error, execute, reset };
+}
+
+/**
+ * Create new author - shown immediately as a pending card
+ * (queued in the outbox while offline)
+ */
+export function useCreateAuthor() {
+  const [loading, setLoading] = useState(false);
   const [error, setError] = useState<APIError | null>(null);
-  const [refetchTrigger, setRefetchTrigger] = useState(0);
 
-  const refetch = useCallback(() => {
-    setRefetchTrigger(prev => prev + 1);
+  const createAuthor = useCallback(async (author: CreateAuthorDTO): Promise<Author | null> => {
+    setLoading(true);
+    setError(null);
+    
+    const tempId = createTempId();
+    const change: NewOutboxEntry = { kind: 'authors', action: 'create', entityId: tempId, payload: author, label: author.name };
+    entityStore.upsertAuthors([{ id: tempId, name: author.name }]);
+    
+    try {
+      if (isOffline()) {
+        outbox.enqueue(change);
+        return selectAuthor(entityStore.getState(), tempId);
+      }
+
+      entityStore.setPending('authors', tempId, 'creating');
+      const result = await authorsAPI.create(author);
+      entityStore.removeAuthor(tempId);
+      entityStore.upsertAuthors([result]);
+      tabSync.broadcast({ kind: 'authors', action: 'created', id: result.id, label: result.name, record: result });
+      return result;
+    } catch (err) {
+      if (isOfflineError(err)) {
+        outbox.enqueue(change);
+        return selectAuthor(entityStore.getState(), tempId);
+      }
+      entityStore.removeAuthor(tempId);
+      setError(toAPIError(err));
+      return null;
+    } finally {
+      setLoading(false);
+    }
   }, []);
 
-  useEffect(() => {
-    let isMounted = true;
+  return { createAuthor, loading, error };
+}
+
+/**
+ * Update existing author - applied optimistically, rolled back on failure
+ * (queued in the outbox instead while offline)
+ */
+export function useUpdateAuthor() {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<APIError | null>(null);
+  const [conflict, setConflict] = useState<Author | null>(null);
 
-    const fetchAuthors = async () => {
+  /**
+   * `version` works like in useUpdateBook - on a conflict, `conflict` holds the
+   * author as the server has it now
+   */
+  const updateAuthor = useCallback(async (id: number, author: UpdateAuthorDTO, version?: string | null): Promise<Author | null> => {
+    setLoading(true);
+    setError(null);
+    setConflict(null);
+    
+    const change: NewOutboxEntry = { kind: 'authors', action: 'update', entityId: id, payload: author, label: author.name, version };
+    const rollback = entityStore.capture({ authors: [id] });
+    entityStore.upsertAuthors([{ id, name: author.name }]);
+    
+    try {
+      if (isOffline() || id < 0) {
+        outbox.enqueue(change);
+        return selectAuthor(entityStore.getState(), id);
+      }
+
+      entityStore.setPending('authors', id, 'updating');
+      const result = await authorsAPI.update(id, author, version);
+      entityStore.upsertAuthors([result]);
+      entityStore.setPending('authors', id, null);
+      tabSync.broadcast({ kind: 'authors', action: 'updated', id, label: result.name, record: result });
+      return result;
+    } catch (err) {
+      if (isOfflineError(err)) {
+        outbox.enqueue(change);
+        return selectAuthor(entityStore.getState(), id);
+      }
+      rollback();
+      if (isVersionConflict(err)) {
+        setConflict(await fetchLatest(() => authorsAPI.getById(id), (latest) => entityStore.upsertAuthors([latest])));
+      }
+      setError(toAPIError(err));
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return { updateAuthor, loading, error, conflict };
+}
+
+/**
+ * Delete author - the author and their books disappear immediately; the DELETE
+ * is sent after the undo grace period, and everything is restored on failure
+ * (queued in the outbox instead while offline)
+ */
+export function useDeleteAuthor() {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<APIError | null>(null);
+
+  const deleteAuthor = useCallback(async (id: number): Promise<DeleteOutcome> => {
+    setError(null);
+    
+    const authoredBookIds = Object.values(entityStore.getState().books)
+      .filter((book) => book.authorId === id)
+      .map((book) => book.id);
+    const change: NewOutboxEntry = {
+      kind: 'authors',
+      action: 'delete',
+      entityId: id,
+      label: entityStore.getState().authors[id]?.name || `Author #${id}`,
+    };
+    const rollback = entityStore.capture({ authors: [id], books: authoredBookIds });
+    entityStore.removeAuthor(id);
+
+    const commit = async (): Promise<boolean> => {
       setLoading(true);
-      setError(null);
-      
       try {
-        const result = await authorsAPI.getAll();
-        if (isMounted) {
-          setData(result);
+        if (isOffline() || id < 0) {
+          outbox.enqueue(change);
+          return true;
         }
+
+        await authorsAPI.delete(id);
+        queryCache.invalidate(BOOK_PAGES_KEY); // Their books are gone too
+        tabSync.broadcast({ kind: 'authors', action: 'deleted', id, label: change.label });
+        return true;
       } catch (err) {
-        if (isMounted) {
-          const errorMessage = getErrorMessage(err);
-          setError({
-            message: errorMessage,
-            status: getErrorStatus(err),
-          });
+        if (isOfflineError(err)) {
+          outbox.enqueue(change);
+          return true;
         }
+        rollback();
+        setError(toAPIError(err));
+        return false;
       } finally {
-        if (isMounted) {
-          setLoading(false);
-        }
+        setLoading(false);
       }
     };
 
-    fetchAuthors();
+    const commitOnPageExit = () => !isOffline() && id > 0 && authorsAPI.deleteOnPageExit(id);
 
-    return () => {
-      isMounted = false;
-    };
-  }, [refetchTrigger]); // Refetch when trigger changes
+    return undoableDeletes.schedule({ kind: 'authors', id, commit, commitOnPageExit, restore: rollback });
+  }, []);
+
+  return { deleteAuthor, loading, error };
+}
+
+// ============================================
+// PUBLISHERS HOOKS
+// ============================================
 
-  return { data, loading, error, refetch };
+// Publishers change rarely, so their mutations wait for the server instead of
+// being applied optimistically, and are not queued while offline
+const OFFLINE_PUBLISHER_ERROR: APIError = {
+  message: 'Publishers can only be changed while online.',
+  kind: 'network',
+};
+
+const fetchAllPublishers = async (signal: AbortSignal) => {
+  entityStore.replacePublishers(await publishersAPI.getAll(signal));
+};
+
+/**
+ * Fetch all publishers - cached under the 'publishers' key and stored in the entity store
+ */
+export function usePublishers(options: QueryOptions = {}) {
+  const state = useEntityState();
+  const { entry, error, isValidating, revalidate } = useQuery('publishers', fetchAllPublishers, options);
+  const loaded = entry.updatedAt > 0;
+
+  const refetch = useCallback(() => revalidate(true), [revalidate]);
+
+  const data = useMemo(() => (loaded ? selectPublishers(state) : null), [loaded, state]);
+
+  return { data, loading: !loaded && !error, isValidating, error, refetch };
 }
 
 /**
- * Fetch single author by ID
+ * Fetch single publisher by ID - cached data is shown while revalidating
  */
-export function useAuthor(id: number, immediate = true) {
-  return useAPI(() => authorsAPI.getById(id), { immediate });
+export function usePublisher(id: number, immediate = true, options: QueryOptions = {}) {
+  const state = useEntityState();
+
+  const fetchPublisher = useCallback(async (signal: AbortSignal) => {
+    try {
+      entityStore.upsertPublishers([await publishersAPI.getById(id, signal)]);
+    } catch (err) {
+      if (getErrorKind(err) === 'not-found') {
+        entityStore.removePublisher(id);
+      }
+      throw err;
+    }
+  }, [id]);
+
+  const key = id > 0 ? `publisher:${id}` : null;
+  const { error, isValidating, revalidate } = useQuery(key, fetchPublisher, {
+    ...options,
+    enabled: immediate && !!id,
+  });
+
+  const data = useMemo(() => (id ? selectPublisher(state, id) : null), [state, id]);
+
+  const execute = useCallback(() => revalidate(true), [revalidate]);
+
+  const reset = useCallback(() => {
+    if (key) queryCache.remove(key);
+  }, [key]);
+
+  return { data, loading: isValidating && !data, isValidating, error, execute, reset };
 }
 
 /**
- * Create new author
+ * Create new publisher
  */
-export function useCreateAuthor() {
+export function useCreatePublisher() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<APIError | null>(null);
 
-  const createAuthor = useCallback(async (author: CreateAuthorDTO): Promise<Author | null> => {
+  const createPublisher = useCallback(async (publisher: CreatePublisherDTO): Promise<Publisher | null> => {
     setLoading(true);
     setError(null);
-    
+
     try {
-      const result = await authorsAPI.create(author);
+      if (isOffline()) {
+        setError(OFFLINE_PUBLISHER_ERROR);
+        return null;
+      }
+
+      const result = await publishersAPI.create(publisher);
+      entityStore.upsertPublishers([result]);
+      tabSync.broadcast({ kind: 'publishers', action: 'created', id: result.id, label: result.name, record: result });
       return result;
     } catch (err) {
-      const errorMessage = getErrorMessage(err);
-      setError({
-        message: errorMessage,
-        status: getErrorStatus(err),
-      });
+      setError(toAPIError(err));
       return null;
     } finally {
       setLoading(false);
     }
   }, []);
 
-  return { createAuthor, loading, error };
+  return { createPublisher, loading, error };
 }
 
 /**
- * Update existing author
+ * Update existing publisher
  */
-export function useUpdateAuthor() {
+export function useUpdatePublisher() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<APIError | null>(null);
 
-  const updateAuthor = useCallback(async (id: number, author: UpdateAuthorDTO): Promise<Author | null> => {
+  const updatePublisher = useCallback(async (id: number, publisher: UpdatePublisherDTO): Promise<Publisher | null> => {
     setLoading(true);
     setError(null);
-    
+
     try {
-      const result = await authorsAPI.update(id, author);
+      if (isOffline()) {
+        setError(OFFLINE_PUBLISHER_ERROR);
+        return null;
+      }
+
+      const result = await publishersAPI.update(id, publisher);
+      entityStore.upsertPublishers([result]);
+      tabSync.broadcast({ kind: 'publishers', action: 'updated', id, label: result.name, record: result });
       return result;
     } catch (err) {
-      const errorMessage = getErrorMessage(err);
-      setError({
-        message: errorMessage,
-        status: getErrorStatus(err),
-      });
+      setError(toAPIError(err));
       return null;
     } finally {
       setLoading(false);
     }
   }, []);
 
-  return { updateAuthor, loading, error };
+  return { updatePublisher, loading, error };
 }
 
 /**
- * Delete author
+ * Delete publisher - its books stay in the library without a publisher
  */
-export function useDeleteAuthor() {
+export function useDeletePublisher() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<APIError | null>(null);
 
-  const deleteAuthor = useCallback(async (id: number): Promise<boolean> => {
+  const deletePublisher = useCallback(async (id: number): Promise<boolean> => {
     setLoading(true);
     setError(null);
-    
+
     try {
-      await authorsAPI.delete(id);
+      if (isOffline()) {
+        setError(OFFLINE_PUBLISHER_ERROR);
+        return false;
+      }
+
+      const label = entityStore.getState().publishers[id]?.name || `Publisher #${id}`;
+      await publishersAPI.delete(id);
+      entityStore.removePublisher(id);
+      tabSync.broadcast({ kind: 'publishers', action: 'deleted', id, label });
       return true;
     } catch (err) {
-      const errorMessage = getErrorMessage(err);
-      setError({
-        message: errorMessage,
-        status: getErrorStatus(err),
-      });
+      setError(toAPIError(err));
       return false;
     } finally {
       setLoading(false);
     }
   }, []);
 
-  return { deleteAuthor, loading, error };
+  return { deletePublisher, loading, error };
 }
 
 // ============================================
@@ -508,7 +1215,7 @@ export function useBookSearch(searchTerm: string, delay = 300) {
       const term = searchTerm.toLowerCase();
       const filtered = allBooks.filter(book => 
         book.title.toLowerCase().includes(term) ||
-        book.isbn.toLowerCase().includes(term) ||
+        matchesISBN(book.isbn, term) ||
         book.author?.name.toLowerCase().includes(term)
       );
       
@@ -0,0 +1,68 @@
+// ============================================
+// AUTH HOOKS
+// ============================================
+
+import { useState, useCallback, useSyncExternalStore } from 'react';
+import { authAPI } from '../services/api';
+import { getErrorMessage, toAPIError } from '../services/apiErrors';
+import { authSession } from '../services/authSession';
+import type { APIError, AuthUser, LoginDTO } from '../types/api';
+
+/**
+ * Current session and login prompt state
+ *
+ * @returns Signed-in user, prompt state and session actions
+ */
+export function useAuth() {
+  const { user, isLoginOpen, loginReason } = useSyncExternalStore(authSession.subscribe, authSession.getState);
+
+  // Revoke the refresh token server-side (best effort) and forget the session locally
+  const logout = useCallback(async () => {
+    const { refreshToken } = authSession.getState();
+    authSession.clearSession();
+    if (refreshToken) {
+      try {
+        await authAPI.logout(refreshToken);
+      } catch (err) {
+        console.warn('Logout request failed:', getErrorMessage(err));
+      }
+    }
+  }, []);
+
+  return {
+    user,
+    isAuthenticated: !!user,
+    isLoginOpen,
+    loginReason,
+    openLogin: authSession.openLogin,
+    closeLogin: authSession.closeLogin,
+    logout,
+  };
+}
+
+/**
+ * Sign in with username and password
+ */
+export function useLogin() {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<APIError | null>(null);
+
+  const login = useCallback(async (credentials: LoginDTO): Promise<AuthUser | null> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const session = await authAPI.login(credentials);
+      authSession.setSession(session);
+      return session.user;
+    } catch (err) {
+      const apiError = toAPIError(err);
+      setError(apiError.kind === 'unauthorized' ? { ...apiError, message: 'Invalid username or password.' } : apiError);
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return { login, loading, error };
+}
@@ -0,0 +1,71 @@
+// ============================================
+// BACKEND PROFILES HOOK
+// ============================================
+
+import { useCallback, useSyncExternalStore } from 'react';
+import { backendProfiles } from '../services/backendProfiles';
+import type { NewBackendProfile } from '../services/backendProfiles';
+import { authSession } from '../services/authSession';
+import { entityStore } from '../services/entityStore';
+import { healthMonitor } from '../services/healthMonitor';
+import { outbox } from '../services/outbox';
+import { queryCache } from '../services/queryCache';
+import { serverStatus } from '../services/serverStatus';
+import { undoableDeletes } from '../services/undoableDeletes';
+
+/**
+ * Drop everything that belongs to the previous backend - its records, cache
+ * entries, queued offline changes and deletes, and tokens - so the new one is loaded from scratch
+ */
+const resetBackendData = () => {
+  outbox.clear();
+  undoableDeletes.clear();
+  authSession.clearSession();
+  entityStore.reset();
+  queryCache.clear();
+  serverStatus.markAwake();
+  healthMonitor.reset();
+};
+
+/**
+ * Saved backend profiles and the one the API client talks to
+ *
+ * @returns Profiles, the active profile and actions that switch/edit them
+ */
+export function useBackendProfiles() {
+  const { profiles, activeId } = useSyncExternalStore(backendProfiles.subscribe, backendProfiles.getState);
+  const activeProfile = profiles.find((profile) => profile.id === activeId) || profiles[0];
+
+  // Runs the reset only if the API client now points somewhere else
+  const withReset = useCallback((change: () => void) => {
+    const previousUrl = backendProfiles.getActiveProfile().baseUrl;
+    change();
+    if (backendProfiles.getActiveProfile().baseUrl !== previousUrl) {
+      resetBackendData();
+    }
+  }, []);
+
+  const switchProfile = useCallback(
+    (id: string) => withReset(() => backendProfiles.setActive(id)),
+    [withReset]
+  );
+
+  const updateProfile = useCallback(
+    (id: string, changes: Partial<NewBackendProfile>) => withReset(() => backendProfiles.updateProfile(id, changes)),
+    [withReset]
+  );
+
+  const removeProfile = useCallback(
+    (id: string) => withReset(() => backendProfiles.removeProfile(id)),
+    [withReset]
+  );
+
+  return {
+    profiles,
+    activeProfile,
+    switchProfile,
+    addProfile: backendProfiles.addProfile,
+    updateProfile,
+    removeProfile,
+  };
+}
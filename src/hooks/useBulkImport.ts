@@ -0,0 +1,47 @@
+// ============================================
+// BULK IMPORT HOOK
+// ============================================
+
+import { useMemo, useSyncExternalStore } from 'react';
+import { bulkImport } from '../services/bulkImport';
+import type { BulkImportStatus } from '../services/bulkImport';
+
+/**
+ * The bulk ISBN import queue (keeps running while its modal is closed)
+ *
+ * @returns Queue items, per-status counts, progress and queue actions
+ */
+export function useBulkImport() {
+  const { items, isRunning, concurrency, finishedAt } = useSyncExternalStore(bulkImport.subscribe, bulkImport.getState);
+
+  const counts = useMemo(() => {
+    const result: Record<BulkImportStatus, number> = {
+      queued: 0,
+      importing: 0,
+      imported: 0,
+      duplicate: 0,
+      'not-found': 0,
+      failed: 0,
+    };
+    items.forEach((item) => result[item.status]++);
+    return result;
+  }, [items]);
+
+  const done = items.length - counts.queued - counts.importing;
+
+  return {
+    items,
+    counts,
+    progress: items.length > 0 ? done / items.length : 0,
+    isRunning,
+    isFinished: finishedAt !== null && items.length > 0,
+    concurrency,
+    add: bulkImport.add,
+    start: bulkImport.start,
+    pause: bulkImport.pause,
+    retry: bulkImport.retry,
+    setConcurrency: bulkImport.setConcurrency,
+    clearFinished: bulkImport.clearFinished,
+    clear: bulkImport.clear,
+  };
+}
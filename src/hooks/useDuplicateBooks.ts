@@ -0,0 +1,34 @@
+// ============================================
+// DUPLICATE BOOKS HOOK
+// ============================================
+
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { entityStore, selectBooks } from '../services/entityStore';
+import { findDuplicateBooks } from '../services/duplicateBooks';
+import type { DuplicateCandidate } from '../services/duplicateBooks';
+
+/**
+ * Books in the loaded catalog that a book about to be created or imported
+ * probably duplicates (same ISBN, or similar title and author)
+ *
+ * @param candidate - The book being entered (empty fields are ignored)
+ * @param excludeId - The book being edited, if any
+ * @returns Live matches for the candidate, and `check` for one-off candidates (imports)
+ */
+export function useDuplicateBooks({ title, authors = [], isbn }: DuplicateCandidate, excludeId?: number) {
+  const state = useSyncExternalStore(entityStore.subscribe, entityStore.getState);
+  const books = useMemo(() => selectBooks(state), [state]);
+  const authorsKey = authors.join('\n');
+
+  const matches = useMemo(
+    () => findDuplicateBooks({ title, authors: authorsKey ? authorsKey.split('\n') : [], isbn }, books, excludeId),
+    [books, title, authorsKey, isbn, excludeId]
+  );
+
+  const check = useCallback(
+    (candidate: DuplicateCandidate) => findDuplicateBooks(candidate, books, excludeId),
+    [books, excludeId]
+  );
+
+  return { matches, check };
+}
@@ -0,0 +1,27 @@
+// ============================================
+// LIVE UPDATES HOOK
+// ============================================
+
+import { useMemo, useSyncExternalStore } from 'react';
+import { entityStore } from '../services/entityStore';
+import { liveUpdates } from '../services/liveUpdates';
+
+/**
+ * Catalog changes pushed by the server
+ *
+ * @returns Stream status, books created elsewhere (not listed yet) and recent remote changes
+ */
+export function useLiveUpdates() {
+  const { status, incomingBooks, remoteChanges } = useSyncExternalStore(liveUpdates.subscribe, liveUpdates.getState);
+  const { books } = useSyncExternalStore(entityStore.subscribe, entityStore.getState);
+
+  // Our own creates can be announced before their response arrives - drop them once they are listed
+  const newBooks = useMemo(() => incomingBooks.filter((book) => !books[book.id]), [incomingBooks, books]);
+
+  return {
+    status,
+    newBooks,
+    remoteChanges,
+    showNewBooks: liveUpdates.showIncoming,
+  };
+}
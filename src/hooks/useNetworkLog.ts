@@ -0,0 +1,26 @@
+// ============================================
+// NETWORK LOG HOOK
+// ============================================
+
+import { useSyncExternalStore } from 'react';
+import { networkLog } from '../services/networkLog';
+
+/**
+ * Recorded apiClient traffic and inspector visibility
+ *
+ * @returns Entries, recording/open flags and inspector actions
+ */
+export function useNetworkLog() {
+  const { entries, isRecording, isOpen } = useSyncExternalStore(networkLog.subscribe, networkLog.getState);
+
+  return {
+    entries,
+    isRecording,
+    isOpen,
+    toggle: networkLog.toggle,
+    close: networkLog.close,
+    clear: networkLog.clear,
+    setRecording: networkLog.setRecording,
+    exportSession: networkLog.exportSession,
+  };
+}
@@ -0,0 +1,25 @@
+// ============================================
+// ONLINE STATUS HOOK
+// ============================================
+
+import { useSyncExternalStore } from 'react';
+
+const subscribe = (listener: () => void) => {
+  window.addEventListener('online', listener);
+  window.addEventListener('offline', listener);
+  return () => {
+    window.removeEventListener('online', listener);
+    window.removeEventListener('offline', listener);
+  };
+};
+
+const getSnapshot = () => navigator.onLine;
+
+/**
+ * Tracks the browser's network connection
+ *
+ * @returns True while the browser reports being online
+ */
+export function useOnlineStatus(): boolean {
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
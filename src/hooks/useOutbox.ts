@@ -0,0 +1,24 @@
+// ============================================
+// OUTBOX HOOK
+// ============================================
+
+import { useSyncExternalStore } from 'react';
+import { outbox } from '../services/outbox';
+
+/**
+ * Exposes the offline mutation queue to components
+ *
+ * @returns Queued entries, sync flag, rejected changes and queue actions
+ */
+export function useOutbox() {
+  const { entries, isSyncing, conflicts } = useSyncExternalStore(outbox.subscribe, outbox.getState);
+
+  return {
+    entries,
+    queuedCount: entries.length,
+    isSyncing,
+    conflicts,
+    syncNow: outbox.replay,
+    dismissConflict: outbox.dismissConflict,
+  };
+}
@@ -0,0 +1,21 @@
+// ============================================
+// SERVER HEALTH HOOK
+// ============================================
+
+import { useCallback, useSyncExternalStore } from 'react';
+import { healthMonitor } from '../services/healthMonitor';
+
+/**
+ * Backend reachability as tracked by the background health monitor
+ *
+ * @returns Health status, latency, last check time and a manual re-check
+ */
+export function useServerHealth() {
+  const health = useSyncExternalStore(healthMonitor.subscribe, healthMonitor.getState);
+
+  const checkNow = useCallback(() => {
+    healthMonitor.check();
+  }, []);
+
+  return { ...health, checkNow };
+}
@@ -0,0 +1,40 @@
+// ============================================
+// SERVER WAKE-UP HOOK
+// ============================================
+
+import { useState, useEffect, useSyncExternalStore } from 'react';
+import { serverStatus } from '../services/serverStatus';
+
+/**
+ * Tracks whether the API client is waiting for a cold backend to start
+ * and how long that has been going on (updated every second)
+ *
+ * @returns Wake-up flag, elapsed seconds and the current retry attempt
+ */
+export function useServerWakeUp() {
+  const { wakingUpSince, attempt, maxAttempts } = useSyncExternalStore(
+    serverStatus.subscribe,
+    serverStatus.getState
+  );
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (wakingUpSince === null) return;
+
+    setNow(Date.now());
+    const interval = setInterval(() => {
+      setNow(Date.now());
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [wakingUpSince]);
+
+  const elapsedSeconds = wakingUpSince === null ? 0 : Math.max(0, Math.floor((now - wakingUpSince) / 1000));
+
+  return {
+    isWakingUp: wakingUpSince !== null,
+    elapsedSeconds,
+    attempt,
+    maxAttempts,
+  };
+}
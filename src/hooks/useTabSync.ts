@@ -0,0 +1,17 @@
+// ============================================
+// TAB SYNC HOOK
+// ============================================
+
+import { useSyncExternalStore } from 'react';
+import { tabSync } from '../services/tabSync';
+
+/**
+ * Changes made in other tabs of the app (already applied to the entity store)
+ *
+ * @returns The latest change received from another tab
+ */
+export function useTabSync() {
+  const { lastChange } = useSyncExternalStore(tabSync.subscribe, tabSync.getState);
+
+  return { lastChange };
+}
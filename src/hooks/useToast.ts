@@ -3,7 +3,7 @@
 // ============================================
 
 import { useState, useCallback } from 'react'
-import type { ToastProps, ToastType } from '../components/Toast'
+import type { ToastProps, ToastType, ToastOptions } from '../components/Toast'
 
 export const useToast = () => {
   const [toasts, setToasts] = useState<ToastProps[]>([])
@@ -12,13 +12,14 @@ export const useToast = () => {
     setToasts((prev) => prev.filter((toast) => toast.id !== id))
   }, [])
 
-  const addToast = useCallback((message: string, type: ToastType = 'info', duration?: number) => {
+  const addToast = useCallback((message: string, type: ToastType = 'info', duration?: number, options: ToastOptions = {}) => {
     const id = `toast-${Date.now()}-${Math.random()}`
     const newToast: ToastProps = {
       id,
       message,
       type,
       duration,
+      ...options,
       onClose: removeToast,
     }
     
@@ -26,16 +27,16 @@ export const useToast = () => {
     return id
   }, [removeToast])
 
-  const success = useCallback((message: string, duration?: number) => {
-    return addToast(message, 'success', duration)
+  const success = useCallback((message: string, duration?: number, options?: ToastOptions) => {
+    return addToast(message, 'success', duration, options)
   }, [addToast])
 
-  const error = useCallback((message: string, duration?: number) => {
-    return addToast(message, 'error', duration)
+  const error = useCallback((message: string, duration?: number, options?: ToastOptions) => {
+    return addToast(message, 'error', duration, options)
   }, [addToast])
 
-  const info = useCallback((message: string, duration?: number) => {
-    return addToast(message, 'info', duration)
+  const info = useCallback((message: string, duration?: number, options?: ToastOptions) => {
+    return addToast(message, 'info', duration, options)
   }, [addToast])
 
   return {
@@ -2,6 +2,27 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './styles/global.scss'
 import App from './App.tsx'
+import { startOfflinePersistence } from './services/offlineStorage'
+import { outbox } from './services/outbox'
+import { healthMonitor } from './services/healthMonitor'
+import { liveUpdates } from './services/liveUpdates'
+import { tabSync } from './services/tabSync'
+import { undoableDeletes } from './services/undoableDeletes'
+
+// Restore the last saved catalog first, then replay changes queued offline
+startOfflinePersistence().then(() => outbox.start())
+
+// Background API pings (the first one is sent by the loading screen)
+healthMonitor.start()
+
+// Catalog changes made by other users, pushed by the server
+liveUpdates.start()
+
+// Changes saved in the other open tabs
+tabSync.start()
+
+// Deletes still inside their undo window are sent when the page is left
+undoableDeletes.start()
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -2,54 +2,261 @@
 // API SERVICE - Core HTTP Client
 // ============================================
 
-import axios from 'axios';
-import type { AxiosInstance, AxiosError } from 'axios';
-import type { Book, Author, CreateBookDTO, UpdateBookDTO, CreateAuthorDTO, UpdateAuthorDTO, BookSearchResult } from '../types/api';
+import axios, { CanceledError } from 'axios';
+import type { AxiosInstance, AxiosError, AxiosAdapter, AxiosResponse } from 'axios';
+import type { Book, Author, CreateBookDTO, UpdateBookDTO, CreateAuthorDTO, UpdateAuthorDTO, Publisher, CreatePublisherDTO, UpdatePublisherDTO, BookSearchResult, AuthResponse, LoginDTO, BookPageQuery, PagedResult } from '../types/api';
+import { serverStatus } from './serverStatus';
+import { authSession } from './authSession';
+import { backendProfiles, isMockProfile, MOCK_BASE_URL } from './backendProfiles';
+import type { BackendProfile } from './backendProfiles';
+import { isColdStartError } from './apiErrors';
+import { networkLog } from './networkLog';
+import { pageBooks } from './bookQuery';
+import { isbnKey, isValidISBN } from './isbn';
+import { validateResponse, bookSchema, bookListSchema, bookPageSchema, authorSchema, authorListSchema, publisherSchema, publisherListSchema, bookSearchResultListSchema } from './schemas';
 
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'https://library-app-dot-net.onrender.com';
+// Loaded on first request, so the mock dataset never ships in normal builds
+const lazyMockAdapter: AxiosAdapter = (config) =>
+  import('./mockBackend').then(({ mockAdapter }) => mockAdapter(config));
+
+declare module 'axios' {
+  interface InternalAxiosRequestConfig {
+    retryCount?: number; // Number of retries already performed for this request
+    authRetried?: boolean; // Already replayed once after re-authenticating
+    logId?: string; // Network inspector entry for this attempt
+  }
+
+  interface AxiosRequestConfig {
+    background?: boolean; // Health probe - never retried or logged, the monitor handles failures
+  }
+}
+
+// ============================================
+// RETRY POLICY (Render cold start)
+// ============================================
+
+export const RETRY_POLICY = {
+  maxRetries: 5,
+  baseDelay: 1000, // First retry waits ~1s, then doubles
+  maxDelay: 15000, // Cap for a single backoff
+  // Only idempotent requests are replayed - a retried POST could create duplicates
+  methods: ['get', 'head', 'options', 'put', 'delete'],
+};
+
+/**
+ * True if the request was aborted through its AbortSignal
+ */
+export const isCancelledError = (error: unknown): boolean => axios.isCancel(error);
+
+/**
+ * Exponential backoff with jitter: half of the delay is fixed, half is random,
+ * so many clients retrying at once don't hit the backend in lockstep
+ */
+const getBackoffDelay = (retryCount: number): number => {
+  const exponential = Math.min(RETRY_POLICY.maxDelay, RETRY_POLICY.baseDelay * 2 ** (retryCount - 1));
+  return exponential / 2 + Math.random() * (exponential / 2);
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
 // ============================================
 // AXIOS INSTANCE CONFIGURATION
 // ============================================
 
-const apiClient: AxiosInstance = axios.create({
-  baseURL: API_BASE_URL,
-  timeout: 60000, // 60 second timeout for Render cold start
-  headers: {
-    'Content-Type': 'application/json',
-  },
-});
+// Login/refresh/logout answer 401 for bad credentials - never try to refresh on those
+const isAuthRequest = (url?: string) => !!url && url.startsWith('/auth/');
 
-// Request Interceptor - Add auth token if needed in the future
-apiClient.interceptors.request.use(
-  (config) => {
-    // Future: Add authorization token here
-    // const token = localStorage.getItem('authToken');
-    // if (token) config.headers.Authorization = `Bearer ${token}`;
-    return config;
-  },
-  (error) => {
-    return Promise.reject(error);
+let refreshRequest: Promise<boolean> | null = null;
+
+/**
+ * Rotate the token pair with the stored refresh token.
+ * Concurrent 401s share one refresh; resolves false if there is no valid session.
+ */
+const refreshSession = (): Promise<boolean> => {
+  if (!refreshRequest) {
+    const { refreshToken } = authSession.getState();
+    refreshRequest = (refreshToken ? authAPI.refresh(refreshToken) : Promise.reject(new Error('No refresh token')))
+      .then((session) => {
+        authSession.setSession(session);
+        return true;
+      })
+      .catch(() => {
+        authSession.clearSession();
+        return false;
+      })
+      .finally(() => {
+        refreshRequest = null;
+      });
   }
-);
-
-// Response Interceptor - Handle common errors
-apiClient.interceptors.response.use(
-  (response) => response,
-  (error: AxiosError) => {
-    if (error.response) {
-      // Server responded with error status
-      console.error('API Error:', error.response.status, error.response.data);
-    } else if (error.request) {
-      // Request made but no response
-      console.error('Network Error:', error.message);
-    } else {
-      // Something else happened
-      console.error('Error:', error.message);
-    }
-    return Promise.reject(error);
+  return refreshRequest;
+};
+
+/**
+ * Axios instance for a backend profile. The 'mock' profile serves every request
+ * from the in-browser mock backend instead of the .NET API.
+ */
+const createApiClient = (profile: BackendProfile): AxiosInstance => {
+  const useMock = isMockProfile(profile);
+  if (useMock) {
+    console.info('Using the in-browser mock backend - no requests leave the browser');
   }
-);
+
+  const client = axios.create({
+    baseURL: useMock ? '' : profile.baseUrl,
+    adapter: useMock ? lazyMockAdapter : undefined,
+    timeout: 20000, // Per attempt - cold starts are covered by the retry policy above
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+
+  // Request Interceptor - Attach the current access token, record the attempt in the inspector
+  client.interceptors.request.use(
+    (config) => {
+      const { accessToken } = authSession.getState();
+      if (accessToken && !isAuthRequest(config.url)) {
+        config.headers.Authorization = `Bearer ${accessToken}`;
+      }
+      config.logId = networkLog.recordRequest(config);
+      return config;
+    },
+    (error) => {
+      return Promise.reject(error);
+    }
+  );
+
+  // Response Interceptor - Re-authenticate, retry cold starts, handle common errors
+  client.interceptors.response.use(
+    (response) => {
+      networkLog.recordResponse(response.config.logId, response);
+
+      // Health probes accept any status - a 5xx there does not mean the server is up
+      if (!response.config.background || response.status < 500) {
+        serverStatus.markAwake();
+      }
+      return response;
+    },
+    async (error: AxiosError) => {
+      const config = error.config;
+      networkLog.recordError(config?.logId, error);
+
+      const method = config?.method?.toLowerCase() || '';
+      const retryCount = config?.retryCount || 0;
+
+      // Expired or missing token - refresh it (or ask the user to sign in) and replay once
+      if (error.response?.status === 401 && config && !config.authRetried && !isAuthRequest(config.url)) {
+        config.authRetried = true;
+        const hadSession = !!authSession.getState().refreshToken;
+        const authenticated = (await refreshSession()) || (await authSession.requestLogin(hadSession ? 'expired' : null));
+        if (authenticated) {
+          return client(config);
+        }
+      }
+
+      if (
+        config &&
+        !config.background &&
+        isColdStartError(error) &&
+        RETRY_POLICY.methods.includes(method) &&
+        retryCount < RETRY_POLICY.maxRetries
+      ) {
+        config.retryCount = retryCount + 1;
+        serverStatus.markWakingUp(config.retryCount, RETRY_POLICY.maxRetries);
+        console.warn(`Server waking up - retry ${config.retryCount}/${RETRY_POLICY.maxRetries}:`, config.url);
+
+        await wait(getBackoffDelay(config.retryCount));
+
+        // The caller gave up while we were backing off
+        if (config.signal?.aborted) {
+          serverStatus.markAwake();
+          return Promise.reject(new CanceledError(undefined, undefined, config));
+        }
+
+        return client(config);
+      }
+
+      if (retryCount > 0) {
+        // Out of retries - stop the wake-up banner, the caller shows the error
+        serverStatus.markAwake();
+      }
+
+      if (isCancelledError(error) || config?.background) {
+        // Aborted by the caller (superseded search, closed modal) or a failed health probe - not an error
+        return Promise.reject(error);
+      }
+
+      if (error.response) {
+        // Server responded with error status
+        console.error('API Error:', error.response.status, error.response.data);
+      } else if (error.request) {
+        // Request made but no response
+        console.error('Network Error:', error.message);
+      } else {
+        // Something else happened
+        console.error('Error:', error.message);
+      }
+      return Promise.reject(error);
+    }
+  );
+
+  return client;
+};
+
+let activeBaseUrl = backendProfiles.getActiveProfile().baseUrl;
+let apiClient: AxiosInstance = createApiClient(backendProfiles.getActiveProfile());
+
+/**
+ * True while the active profile is the in-browser mock
+ * (the default with VITE_API_BASE_URL=mock or VITE_USE_MOCK_API=true)
+ */
+export const isUsingMockAPI = (): boolean => activeBaseUrl === MOCK_BASE_URL;
+
+// Switching (or editing) the active profile swaps the client - every API call below reads it at call time
+backendProfiles.subscribe(() => {
+  const profile = backendProfiles.getActiveProfile();
+  if (profile.baseUrl === activeBaseUrl) return;
+  activeBaseUrl = profile.baseUrl;
+  apiClient = createApiClient(profile);
+});
+
+// ============================================
+// OPTIMISTIC CONCURRENCY (ETag / If-Match)
+// ============================================
+
+/**
+ * Record version from the ETag header (single-record responses), falling back
+ * to the `version` field of the body. Quotes and the weak prefix are dropped.
+ */
+const withVersion = <T extends { version?: string }>(entity: T, response: AxiosResponse): T => {
+  const etag = response.headers.etag;
+  if (typeof etag !== 'string' || !etag) return entity;
+  return { ...entity, version: etag.replace(/^W\//, '').replace(/"/g, '') };
+};
+
+const ifMatch = (version?: string | null) => (version ? { 'If-Match': `"${version}"` } : undefined);
+
+// ============================================
+// PAGE EXIT REQUESTS
+// ============================================
+
+/**
+ * Send a request that outlives the page (fetch with keepalive) - axios requests
+ * are cancelled when the tab closes. Fire-and-forget: no retry, no token refresh.
+ * Returns false if it cannot be sent this way (mock profile, no fetch).
+ */
+const sendOnPageExit = (method: 'DELETE', path: string): boolean => {
+  if (isUsingMockAPI() || typeof fetch === 'undefined') return false;
+
+  const { accessToken } = authSession.getState();
+  fetch(`${activeBaseUrl.replace(/\/+$/, '')}${path}`, {
+    method,
+    keepalive: true,
+    headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : undefined,
+  }).catch(() => {
+    // The page is gone - nothing left to report to
+  });
+  return true;
+};
 
 // ============================================
 // BOOKS API
@@ -60,62 +267,86 @@ export const booksAPI = {
    * Fetch all books
    * GET /books
    */
-  getAll: async (): Promise<Book[]> => {
-    const response = await apiClient.get<Book[]>('/books');
-    return response.data;
+  getAll: async (signal?: AbortSignal): Promise<Book[]> => {
+    const response = await apiClient.get<Book[]>('/books', { signal });
+    return validateResponse(bookListSchema, response.data, 'GET /books');
+  },
+
+  /**
+   * Fetch one page of books, searched and sorted server-side
+   * GET /books?page={page}&pageSize={pageSize}&search={search}&sortBy={sortBy}&sortOrder={sortOrder}
+   * NOTE: A backend without paging answers with the full array - it is paged locally then
+   * NOTE: An ISBN search term is sent in the stored (canonical ISBN-13) form, so any format finds it
+   */
+  getPage: async (query: BookPageQuery, signal?: AbortSignal): Promise<PagedResult<Book>> => {
+    const search = query.search?.trim();
+    const response = await apiClient.get<PagedResult<Book> | Book[]>('/books', {
+      params: { ...query, search: search && isValidISBN(search) ? isbnKey(search) : search || undefined },
+      signal,
+    });
+    if (Array.isArray(response.data)) {
+      return pageBooks(validateResponse(bookListSchema, response.data, 'GET /books'), query);
+    }
+    return validateResponse(bookPageSchema, response.data, 'GET /books (paged)');
   },
 
   /**
    * Fetch single book by ID
    * GET /books/{id}
    */
-  getById: async (id: number): Promise<Book> => {
-    const response = await apiClient.get<Book>(`/books/${id}`);
-    return response.data;
+  getById: async (id: number, signal?: AbortSignal): Promise<Book> => {
+    const response = await apiClient.get<Book>(`/books/${id}`, { signal });
+    return withVersion(validateResponse(bookSchema, response.data, 'GET /books/{id}'), response);
   },
 
   /**
-   * Fetch book by ISBN
+   * Fetch book by ISBN (any format - sent as the canonical ISBN-13)
    * GET /books/isbn/{isbn}
    */
-  getByISBN: async (isbn: string): Promise<Book> => {
-    const response = await apiClient.get<Book>(`/books/isbn/${isbn}`);
-    return response.data;
+  getByISBN: async (isbn: string, signal?: AbortSignal): Promise<Book> => {
+    const response = await apiClient.get<Book>(`/books/isbn/${encodeURIComponent(isbnKey(isbn))}`, { signal });
+    return validateResponse(bookSchema, response.data, 'GET /books/isbn/{isbn}');
   },
 
   /**
    * Create new book
    * POST /books
    */
-  create: async (book: CreateBookDTO): Promise<Book> => {
-    const response = await apiClient.post<Book>('/books', book);
-    return response.data;
+  create: async (book: CreateBookDTO, signal?: AbortSignal): Promise<Book> => {
+    const response = await apiClient.post<Book>('/books', book, { signal });
+    return validateResponse(bookSchema, response.data, 'POST /books');
   },
 
   /**
    * Update existing book
    * PUT /books/{id}
    */
-  update: async (id: number, book: UpdateBookDTO): Promise<Book> => {
-    const response = await apiClient.put<Book>(`/books/${id}`, book);
-    return response.data;
+  update: async (id: number, book: UpdateBookDTO, version?: string | null, signal?: AbortSignal): Promise<Book> => {
+    const response = await apiClient.put<Book>(`/books/${id}`, book, { headers: ifMatch(version), signal });
+    return withVersion(validateResponse(bookSchema, response.data, 'PUT /books/{id}'), response);
   },
 
   /**
    * Delete book
    * DELETE /books/{id}
    */
-  delete: async (id: number): Promise<void> => {
-    await apiClient.delete(`/books/${id}`);
+  delete: async (id: number, signal?: AbortSignal): Promise<void> => {
+    await apiClient.delete(`/books/${id}`, { signal });
   },
 
   /**
-   * Import book by ISBN
+   * Delete book while the page is being left (see sendOnPageExit)
+   * DELETE /books/{id}
+   */
+  deleteOnPageExit: (id: number): boolean => sendOnPageExit('DELETE', `/books/${id}`),
+
+  /**
+   * Import book by ISBN (any format - sent as the canonical ISBN-13)
    * POST /books/import/isbn/{isbn}
    */
-  importByISBN: async (isbn: string): Promise<Book> => {
-    const response = await apiClient.post<Book>(`/books/import/isbn/${isbn}`);
-    return response.data;
+  importByISBN: async (isbn: string, signal?: AbortSignal): Promise<Book> => {
+    const response = await apiClient.post<Book>(`/books/import/isbn/${encodeURIComponent(isbnKey(isbn))}`, undefined, { signal });
+    return validateResponse(bookSchema, response.data, 'POST /books/import/isbn/{isbn}');
   },
 
   /**
@@ -124,11 +355,12 @@ export const booksAPI = {
    * NOTE: This does NOT save to database - just returns search results
    * Maximum allowed by API: 40 results
    */
-  searchByTitle: async (title: string, maxResults: number = 40): Promise<BookSearchResult[]> => {
+  searchByTitle: async (title: string, maxResults: number = 40, signal?: AbortSignal): Promise<BookSearchResult[]> => {
     const response = await apiClient.get<BookSearchResult[]>('/books/search', {
-      params: { title, maxResults: Math.min(maxResults, 40) } // Cap at 40 (API limit)
+      params: { title, maxResults: Math.min(maxResults, 40) }, // Cap at 40 (API limit)
+      signal,
     });
-    return response.data;
+    return validateResponse(bookSearchResultListSchema, response.data, 'GET /books/search');
   },
 };
 
@@ -141,84 +373,170 @@ export const authorsAPI = {
    * Fetch all authors
    * GET /authors
    */
-  getAll: async (): Promise<Author[]> => {
-    const response = await apiClient.get<Author[]>('/authors');
-    return response.data;
+  getAll: async (signal?: AbortSignal): Promise<Author[]> => {
+    const response = await apiClient.get<Author[]>('/authors', { signal });
+    return validateResponse(authorListSchema, response.data, 'GET /authors');
   },
 
   /**
    * Fetch single author by ID
    * GET /authors/{id}
    */
-  getById: async (id: number): Promise<Author> => {
-    const response = await apiClient.get<Author>(`/authors/${id}`);
-    return response.data;
+  getById: async (id: number, signal?: AbortSignal): Promise<Author> => {
+    const response = await apiClient.get<Author>(`/authors/${id}`, { signal });
+    return withVersion(validateResponse(authorSchema, response.data, 'GET /authors/{id}'), response);
   },
 
   /**
    * Create new author
    * POST /authors
    */
-  create: async (author: CreateAuthorDTO): Promise<Author> => {
-    const response = await apiClient.post<Author>('/authors', author);
-    return response.data;
+  create: async (author: CreateAuthorDTO, signal?: AbortSignal): Promise<Author> => {
+    const response = await apiClient.post<Author>('/authors', author, { signal });
+    return validateResponse(authorSchema, response.data, 'POST /authors');
   },
 
   /**
    * Update existing author
    * PUT /authors/{id}
    */
-  update: async (id: number, author: UpdateAuthorDTO): Promise<Author> => {
-    const response = await apiClient.put<Author>(`/authors/${id}`, author);
-    return response.data;
+  update: async (id: number, author: UpdateAuthorDTO, version?: string | null, signal?: AbortSignal): Promise<Author> => {
+    const response = await apiClient.put<Author>(`/authors/${id}`, author, { headers: ifMatch(version), signal });
+    return withVersion(validateResponse(authorSchema, response.data, 'PUT /authors/{id}'), response);
   },
 
   /**
    * Delete author
    * DELETE /authors/{id}
    */
-  delete: async (id: number): Promise<void> => {
-    await apiClient.delete(`/authors/${id}`);
+  delete: async (id: number, signal?: AbortSignal): Promise<void> => {
+    await apiClient.delete(`/authors/${id}`, { signal });
   },
+
+  /**
+   * Delete author while the page is being left (see sendOnPageExit)
+   * DELETE /authors/{id}
+   */
+  deleteOnPageExit: (id: number): boolean => sendOnPageExit('DELETE', `/authors/${id}`),
 };
 
 // ============================================
-// UTILITY FUNCTIONS
+// PUBLISHERS API
 // ============================================
 
-/**
- * Extract error message from API error
- */
-export const getErrorMessage = (error: unknown): string => {
-  if (axios.isAxiosError(error)) {
-    if (error.response?.data?.message) {
-      return error.response.data.message;
-    }
-    if (error.response?.data?.title) {
-      return error.response.data.title;
-    }
-    if (error.message) {
-      return error.message;
-    }
-  }
-  
-  if (error instanceof Error) {
-    return error.message;
-  }
-  
-  return 'An unexpected error occurred';
+export const publishersAPI = {
+  /**
+   * Fetch all publishers
+   * GET /publishers
+   */
+  getAll: async (signal?: AbortSignal): Promise<Publisher[]> => {
+    const response = await apiClient.get<Publisher[]>('/publishers', { signal });
+    return validateResponse(publisherListSchema, response.data, 'GET /publishers');
+  },
+
+  /**
+   * Fetch single publisher by ID
+   * GET /publishers/{id}
+   */
+  getById: async (id: number, signal?: AbortSignal): Promise<Publisher> => {
+    const response = await apiClient.get<Publisher>(`/publishers/${id}`, { signal });
+    return validateResponse(publisherSchema, response.data, 'GET /publishers/{id}');
+  },
+
+  /**
+   * Create new publisher
+   * POST /publishers
+   */
+  create: async (publisher: CreatePublisherDTO, signal?: AbortSignal): Promise<Publisher> => {
+    const response = await apiClient.post<Publisher>('/publishers', publisher, { signal });
+    return validateResponse(publisherSchema, response.data, 'POST /publishers');
+  },
+
+  /**
+   * Update existing publisher
+   * PUT /publishers/{id}
+   */
+  update: async (id: number, publisher: UpdatePublisherDTO, signal?: AbortSignal): Promise<Publisher> => {
+    const response = await apiClient.put<Publisher>(`/publishers/${id}`, publisher, { signal });
+    return validateResponse(publisherSchema, response.data, 'PUT /publishers/{id}');
+  },
+
+  /**
+   * Delete publisher (its books are kept, without a publisher)
+   * DELETE /publishers/{id}
+   */
+  delete: async (id: number, signal?: AbortSignal): Promise<void> => {
+    await apiClient.delete(`/publishers/${id}`, { signal });
+  },
 };
 
+// ============================================
+// AUTH API
+// ============================================
+
+export const authAPI = {
+  /**
+   * Sign in with username and password
+   * POST /auth/login
+   */
+  login: async (credentials: LoginDTO, signal?: AbortSignal): Promise<AuthResponse> => {
+    const response = await apiClient.post<AuthResponse>('/auth/login', credentials, { signal });
+    return response.data;
+  },
+
+  /**
+   * Exchange a refresh token for a new token pair (the old refresh token is revoked)
+   * POST /auth/refresh
+   */
+  refresh: async (refreshToken: string, signal?: AbortSignal): Promise<AuthResponse> => {
+    const response = await apiClient.post<AuthResponse>('/auth/refresh', { refreshToken }, { signal });
+    return response.data;
+  },
+
+  /**
+   * Revoke a refresh token
+   * POST /auth/logout
+   */
+  logout: async (refreshToken: string, signal?: AbortSignal): Promise<void> => {
+    await apiClient.post('/auth/logout', { refreshToken }, { signal });
+  },
+};
+
+// ============================================
+// HEALTH API
+// ============================================
+
+export const healthAPI = {
+  /**
+   * Lightweight reachability probe - resolves with any HTTP status,
+   * rejects only when there is no answer (network error or timeout)
+   * GET /health
+   */
+  ping: async (timeout?: number): Promise<{ status: number; latency: number }> => {
+    const startedAt = performance.now();
+    const response = await apiClient.get('/health', {
+      timeout,
+      validateStatus: () => true,
+      background: true,
+    });
+    return { status: response.status, latency: Math.round(performance.now() - startedAt) };
+  },
+};
+
+// ============================================
+// UTILITY FUNCTIONS
+// ============================================
+
 /**
- * Check if API is reachable
+ * Check if API is reachable (any answer below 500 counts)
  */
 export const checkAPIHealth = async (): Promise<boolean> => {
   try {
-    await apiClient.get('/books');
-    return true;
+    const { status } = await healthAPI.ping();
+    return status < 500;
   } catch {
     return false;
   }
 };
 
-export default apiClient;
+export { apiClient as default };
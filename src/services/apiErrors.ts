@@ -0,0 +1,198 @@
+// ============================================
+// API ERRORS - Classification and ProblemDetails Parsing
+// ============================================
+
+import axios from 'axios';
+import type { APIError, APIErrorKind, ProblemDetails } from '../types/api';
+import { ContractError } from './schemas';
+
+// Gateway errors Render returns while the instance is booting
+const COLD_START_STATUSES = [502, 503, 504];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * True if the error looks like a sleeping backend that is still starting up
+ * (gateway error, timeout, or no response at all while the browser is online)
+ */
+export const isColdStartError = (error: unknown): boolean => {
+  if (!axios.isAxiosError(error)) return false;
+
+  if (error.response) {
+    return COLD_START_STATUSES.includes(error.response.status);
+  }
+
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+    return true;
+  }
+
+  return error.code === 'ERR_NETWORK' && navigator.onLine;
+};
+
+/**
+ * Classify a failed request
+ */
+export const getErrorKind = (error: unknown): APIErrorKind => {
+  if (axios.isCancel(error)) return 'cancelled';
+  if (error instanceof ContractError) return 'contract';
+  if (!axios.isAxiosError(error)) return 'unknown';
+
+  const status = error.response?.status;
+  if (status === undefined) {
+    return error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT' ? 'timeout' : 'network';
+  }
+  if (status === 400 || status === 422) return 'validation';
+  if (status === 401 || status === 403) return 'unauthorized';
+  if (status === 404) return 'not-found';
+  if (status === 409 || status === 412) return 'conflict';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status >= 500) return 'server';
+  return 'unknown';
+};
+
+/**
+ * True if an update was rejected because the record changed on the server since
+ * it was loaded (412 for a stale If-Match, or a 409 that names no field - a 409
+ * with field errors is a duplicate value, shown next to the field instead)
+ */
+export const isVersionConflict = (error: unknown): boolean => {
+  if (!axios.isAxiosError(error)) return false;
+  const status = error.response?.status;
+  return status === 412 || (status === 409 && !getProblemDetails(error)?.errors);
+};
+
+/**
+ * ProblemDetails body of an error response (null if the body is something else)
+ */
+export const getProblemDetails = (error: unknown): ProblemDetails | null => {
+  if (!axios.isAxiosError(error)) return null;
+  const data = error.response?.data;
+  if (!isRecord(data) || !('title' in data || 'detail' in data || 'errors' in data)) return null;
+
+  const errors: Record<string, string[]> = {};
+  if (isRecord(data.errors)) {
+    for (const [field, messages] of Object.entries(data.errors)) {
+      const list = (Array.isArray(messages) ? messages : [messages]).filter((m): m is string => typeof m === 'string');
+      if (list.length > 0) errors[field] = list;
+    }
+  }
+
+  const read = (key: string) => (typeof data[key] === 'string' ? (data[key] as string) : undefined);
+  return {
+    type: read('type'),
+    title: read('title'),
+    status: typeof data.status === 'number' ? data.status : error.response?.status,
+    detail: read('detail'),
+    instance: read('instance'),
+    traceId: read('traceId'),
+    errors: Object.keys(errors).length > 0 ? errors : undefined,
+  };
+};
+
+/**
+ * "Title", "$.year", "book.AuthorId", "Authors[0]" -> "title", "year", "authorId", "authors"
+ */
+const toFieldName = (key: string): string => {
+  const last = key.replace(/^\$\.?/, '').split('.').pop() || key;
+  const name = last.replace(/\[\d+\]$/, '');
+  return name.charAt(0).toLowerCase() + name.slice(1);
+};
+
+/**
+ * First server message per field, keyed by camelCase field name
+ */
+export const getFieldErrors = (problem: ProblemDetails | null): Record<string, string> | undefined => {
+  if (!problem?.errors) return undefined;
+
+  const fieldErrors: Record<string, string> = {};
+  for (const [key, messages] of Object.entries(problem.errors)) {
+    const field = toFieldName(key);
+    if (field && !fieldErrors[field]) fieldErrors[field] = messages[0];
+  }
+  return fieldErrors;
+};
+
+const FALLBACK_MESSAGES: Partial<Record<APIErrorKind, string>> = {
+  network: 'Could not reach the server. Check your connection and try again.',
+  timeout: 'The server took too long to respond. Please try again.',
+  cancelled: 'The request was cancelled.',
+};
+
+/**
+ * Extract error message from API error
+ */
+export const getErrorMessage = (error: unknown): string => {
+  if (axios.isAxiosError(error)) {
+    const data = error.response?.data;
+    if (isRecord(data) && typeof data.error === 'string') {
+      return data.error;
+    }
+    if (isRecord(data) && typeof data.message === 'string') {
+      return data.message;
+    }
+
+    const problem = getProblemDetails(error);
+    if (problem?.errors && !problem.detail) {
+      // Validation errors - the field messages say more than the generic title
+      return Object.values(problem.errors).map((messages) => messages[0]).join(' ');
+    }
+    if (problem?.title) {
+      return problem.detail ? `${problem.title}: ${problem.detail}` : problem.title;
+    }
+    if (problem?.detail) {
+      return problem.detail;
+    }
+
+    const fallback = FALLBACK_MESSAGES[getErrorKind(error)];
+    if (fallback) {
+      return fallback;
+    }
+    if (error.message) {
+      return error.message;
+    }
+  }
+
+  if (error instanceof Error) {
+    return error.message;
+  }
+
+  return 'An unexpected error occurred';
+};
+
+/**
+ * Typed error model for hooks and components
+ */
+export const toAPIError = (error: unknown): APIError => {
+  const problem = getProblemDetails(error);
+  return {
+    message: getErrorMessage(error),
+    kind: getErrorKind(error),
+    status: axios.isAxiosError(error) ? error.response?.status : undefined,
+    details: problem?.traceId ? `Trace ID: ${problem.traceId}` : undefined,
+    fieldErrors: getFieldErrors(problem),
+    isColdStart: isColdStartError(error),
+  };
+};
+
+/**
+ * Split server field errors into the ones a form can show next to an input
+ * (renamed through `fieldMap`, keyed by camelCase server field) and the rest.
+ */
+export const mapFieldErrors = <F extends string>(
+  fieldErrors: Record<string, string> | undefined,
+  fieldMap: Record<string, F>
+): { mapped: Partial<Record<F, string>>; unmapped: string[] } => {
+  const mapped: Partial<Record<F, string>> = {};
+  const unmapped: string[] = [];
+
+  for (const [field, message] of Object.entries(fieldErrors || {})) {
+    const formField = fieldMap[field];
+    if (formField) {
+      mapped[formField] = message;
+    } else {
+      unmapped.push(message);
+    }
+  }
+  return { mapped, unmapped };
+};
@@ -0,0 +1,132 @@
+// ============================================
+// AUTH SESSION - Tokens and Login Prompt State
+// ============================================
+
+import type { AuthResponse, AuthUser } from '../types/api';
+
+/**
+ * Current session. Tokens are kept in localStorage so a reload stays signed in;
+ * the access token is short-lived and rotated through the refresh token.
+ */
+export interface AuthSessionState {
+  user: AuthUser | null;
+  accessToken: string | null;
+  refreshToken: string | null;
+  expiresAt: number | null; // Access token expiry timestamp
+  isLoginOpen: boolean;
+  loginReason: 'expired' | null; // Why the login prompt was opened (null = user clicked Sign in)
+}
+
+type Listener = () => void;
+
+const STORAGE_KEY = 'library-auth';
+
+type StoredSession = Pick<AuthSessionState, 'user' | 'accessToken' | 'refreshToken' | 'expiresAt'>;
+
+const loadStoredSession = (): StoredSession | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as StoredSession) : null;
+  } catch {
+    return null;
+  }
+};
+
+const stored = typeof localStorage !== 'undefined' ? loadStoredSession() : null;
+
+let state: AuthSessionState = {
+  user: stored?.user ?? null,
+  accessToken: stored?.accessToken ?? null,
+  refreshToken: stored?.refreshToken ?? null,
+  expiresAt: stored?.expiresAt ?? null,
+  isLoginOpen: false,
+  loginReason: null,
+};
+
+const listeners = new Set<Listener>();
+
+// Requests waiting for the user to sign in again (resolved with true once they do)
+let loginWaiters: ((signedIn: boolean) => void)[] = [];
+
+const setState = (next: AuthSessionState) => {
+  state = next;
+  listeners.forEach((listener) => listener());
+};
+
+const persist = () => {
+  try {
+    if (state.refreshToken) {
+      const session: StoredSession = {
+        user: state.user,
+        accessToken: state.accessToken,
+        refreshToken: state.refreshToken,
+        expiresAt: state.expiresAt,
+      };
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch {
+    // Storage unavailable (private mode) - the session just won't survive a reload
+  }
+};
+
+const settleLoginWaiters = (signedIn: boolean) => {
+  const waiters = loginWaiters;
+  loginWaiters = [];
+  waiters.forEach((resolve) => resolve(signedIn));
+};
+
+export const authSession = {
+  getState: (): AuthSessionState => state,
+
+  subscribe: (listener: Listener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  /**
+   * Store a fresh token pair (login or refresh). Closes the login prompt and
+   * releases any requests that were waiting for it.
+   */
+  setSession: ({ accessToken, refreshToken, expiresIn, user }: AuthResponse) => {
+    setState({
+      ...state,
+      user,
+      accessToken,
+      refreshToken,
+      expiresAt: Date.now() + expiresIn * 1000,
+      isLoginOpen: false,
+      loginReason: null,
+    });
+    persist();
+    settleLoginWaiters(true);
+  },
+
+  clearSession: () => {
+    setState({ ...state, user: null, accessToken: null, refreshToken: null, expiresAt: null });
+    persist();
+  },
+
+  /**
+   * Open the login prompt. Resolves true once the user signs in, false if they dismiss it.
+   */
+  requestLogin: (reason: AuthSessionState['loginReason'] = null): Promise<boolean> =>
+    new Promise((resolve) => {
+      loginWaiters.push(resolve);
+      setState({ ...state, isLoginOpen: true, loginReason: reason ?? state.loginReason });
+    }),
+
+  openLogin: () => {
+    setState({ ...state, isLoginOpen: true, loginReason: null });
+  },
+
+  closeLogin: () => {
+    setState({ ...state, isLoginOpen: false, loginReason: null });
+    settleLoginWaiters(false);
+  },
+};
+
+export default authSession;
@@ -0,0 +1,152 @@
+// ============================================
+// BACKEND PROFILES - Runtime-Switchable API Targets
+// ============================================
+
+/**
+ * A named API target. `baseUrl` is either an http(s) URL or 'mock'
+ * for the in-browser mock backend.
+ */
+export interface BackendProfile {
+  id: string;
+  name: string;
+  baseUrl: string;
+  builtIn?: boolean; // Comes from the build config - cannot be edited or removed
+}
+
+export interface BackendProfilesState {
+  profiles: BackendProfile[];
+  activeId: string;
+}
+
+export type NewBackendProfile = Pick<BackendProfile, 'name' | 'baseUrl'>;
+
+type Listener = () => void;
+
+export const MOCK_BASE_URL = 'mock';
+
+const STORAGE_KEY = 'library-backend-profiles';
+
+const BUILD_BASE_URL =
+  import.meta.env.VITE_USE_MOCK_API === 'true'
+    ? MOCK_BASE_URL
+    : import.meta.env.VITE_API_BASE_URL || 'https://library-app-dot-net.onrender.com';
+
+// The build's own backend, plus the mock unless the build already targets it
+const BUILT_IN_PROFILES: BackendProfile[] = [
+  { id: 'default', name: 'Default', baseUrl: BUILD_BASE_URL, builtIn: true },
+  ...(BUILD_BASE_URL === MOCK_BASE_URL
+    ? []
+    : [{ id: 'mock', name: 'Mock (in-browser)', baseUrl: MOCK_BASE_URL, builtIn: true }]),
+];
+
+export const isMockProfile = (profile: BackendProfile): boolean => profile.baseUrl === MOCK_BASE_URL;
+
+/**
+ * 'mock' or an http(s) URL without trailing slashes - null if the value is neither
+ */
+export const normalizeBaseUrl = (value: string): string | null => {
+  const trimmed = value.trim();
+  if (trimmed.toLowerCase() === MOCK_BASE_URL) return MOCK_BASE_URL;
+
+  try {
+    const url = new URL(trimmed);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    return `${url.origin}${url.pathname}`.replace(/\/+$/, '');
+  } catch {
+    return null;
+  }
+};
+
+type StoredProfiles = { profiles: BackendProfile[]; activeId: string };
+
+const loadStoredProfiles = (): StoredProfiles | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as StoredProfiles) : null;
+  } catch {
+    return null;
+  }
+};
+
+const stored = typeof localStorage !== 'undefined' ? loadStoredProfiles() : null;
+const storedProfiles = (stored?.profiles || []).filter((profile) => !profile.builtIn);
+const initialProfiles = [...BUILT_IN_PROFILES, ...storedProfiles];
+const storedActive = initialProfiles.find((profile) => profile.id === stored?.activeId);
+
+let state: BackendProfilesState = {
+  profiles: initialProfiles,
+  activeId: storedActive ? storedActive.id : 'default',
+};
+
+const listeners = new Set<Listener>();
+
+const setState = (next: BackendProfilesState) => {
+  state = next;
+  listeners.forEach((listener) => listener());
+  persist();
+};
+
+// Built-in profiles are rebuilt from the env on load, so only custom ones are saved
+const persist = () => {
+  try {
+    const profiles: StoredProfiles = {
+      profiles: state.profiles.filter((profile) => !profile.builtIn),
+      activeId: state.activeId,
+    };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  } catch {
+    // Storage unavailable (private mode) - custom profiles just won't survive a reload
+  }
+};
+
+let nextProfileId = 0;
+const createProfileId = () => `profile-${Date.now()}-${nextProfileId++}`;
+
+export const backendProfiles = {
+  getState: (): BackendProfilesState => state,
+
+  subscribe: (listener: Listener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  getActiveProfile: (): BackendProfile =>
+    state.profiles.find((profile) => profile.id === state.activeId) || state.profiles[0],
+
+  /**
+   * Add a custom profile (baseUrl must already be normalized)
+   */
+  addProfile: ({ name, baseUrl }: NewBackendProfile): BackendProfile => {
+    const profile: BackendProfile = { id: createProfileId(), name, baseUrl };
+    setState({ ...state, profiles: [...state.profiles, profile] });
+    return profile;
+  },
+
+  updateProfile: (id: string, changes: Partial<NewBackendProfile>) => {
+    setState({
+      ...state,
+      profiles: state.profiles.map((profile) =>
+        profile.id === id && !profile.builtIn ? { ...profile, ...changes } : profile
+      ),
+    });
+  },
+
+  /**
+   * Remove a custom profile. Removing the active one falls back to the default.
+   */
+  removeProfile: (id: string) => {
+    setState({
+      profiles: state.profiles.filter((profile) => profile.id !== id || profile.builtIn),
+      activeId: state.activeId === id ? 'default' : state.activeId,
+    });
+  },
+
+  setActive: (id: string) => {
+    if (id === state.activeId || !state.profiles.some((profile) => profile.id === id)) return;
+    setState({ ...state, activeId: id });
+  },
+};
+
+export default backendProfiles;
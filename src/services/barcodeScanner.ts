@@ -0,0 +1,289 @@
+// ============================================
+// BARCODE SCANNER - EAN-13 / ISBN from Photos, Decoded in the Browser
+// ============================================
+
+import { isValidISBN13 } from './isbn';
+
+/**
+ * A barcode read from the photo, with the number of scan lines (or native
+ * detections) that agreed on it
+ */
+export interface BarcodeCandidate {
+  code: string; // 13 digits, checksum verified
+  votes: number;
+  isISBN: boolean; // Bookland EAN (978/979) - the ISBN-13 itself
+}
+
+export interface BarcodeScanResult {
+  candidates: BarcodeCandidate[]; // Most votes first
+  isbn: string | null; // Set only when one ISBN clearly won - otherwise let the user choose/correct
+}
+
+export const BARCODE_POLICY = {
+  maxImageSize: 1200, // px - larger photos are scaled down before scanning
+  scanLines: 48, // Per direction (rows, then columns for photos taken sideways)
+  minVotes: 2, // Scan lines needed before a result counts as certain
+};
+
+// ============================================
+// EAN-13 PATTERNS
+// ============================================
+
+// Module widths (space, bar, space, bar) of the left-hand odd-parity "L" digits.
+// Right-hand digits use the same widths with colors swapped; even-parity "G" digits are mirrored.
+const L_PATTERNS = [
+  [3, 2, 1, 1], [2, 2, 2, 1], [2, 1, 2, 2], [1, 4, 1, 1], [1, 1, 3, 2],
+  [1, 2, 3, 1], [1, 1, 1, 4], [1, 3, 1, 2], [1, 2, 1, 3], [3, 1, 1, 2],
+];
+const G_PATTERNS = L_PATTERNS.map((pattern) => [...pattern].reverse());
+
+// Parity of the six left digits (L = odd, G = even) encodes the first digit
+const FIRST_DIGIT_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+// Guard + 6 digits + middle guard + 6 digits + guard, in alternating bar/space runs
+const EAN13_RUNS = 3 + 6 * 4 + 5 + 6 * 4 + 3;
+const EAN13_MODULES = 95;
+
+// Digit widths that are this far (in modules, summed) from every pattern are rejected
+const MAX_DIGIT_DISTANCE = 1.6;
+
+const isValidEAN13 = (digits: number[]): boolean => {
+  const sum = digits.slice(0, 12).reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10 === digits[12];
+};
+
+// ============================================
+// SCANLINE DECODER
+// ============================================
+
+/**
+ * Best matching digit for 4 run widths, or null if none is close enough
+ */
+const matchDigit = (runs: number[], patterns: number[][]): { digit: number; distance: number } | null => {
+  const total = runs.reduce((sum, run) => sum + run, 0);
+  let best: { digit: number; distance: number } | null = null;
+
+  for (let digit = 0; digit < patterns.length; digit++) {
+    const distance = runs.reduce((sum, run, index) => sum + Math.abs((run * 7) / total - patterns[digit][index]), 0);
+    if (!best || distance < best.distance) best = { digit, distance };
+  }
+  return best && best.distance <= MAX_DIGIT_DISTANCE ? best : null;
+};
+
+// Guard runs should each be about one module wide
+const isGuard = (runs: number[], module: number) => runs.every((run) => run > module * 0.4 && run < module * 1.8);
+
+/**
+ * Decode an EAN-13 starting at `start` (the first bar of the start guard)
+ */
+const decodeAt = (runs: number[], start: number): string | null => {
+  const window = runs.slice(start, start + EAN13_RUNS);
+  if (window.length < EAN13_RUNS) return null;
+
+  const module = window.reduce((sum, run) => sum + run, 0) / EAN13_MODULES;
+  if (!isGuard(window.slice(0, 3), module) || !isGuard(window.slice(27, 32), module) || !isGuard(window.slice(56, 59), module)) {
+    return null;
+  }
+
+  const digits: number[] = [];
+  let parity = '';
+
+  for (let i = 0; i < 6; i++) {
+    const digitRuns = window.slice(3 + i * 4, 7 + i * 4);
+    const odd = matchDigit(digitRuns, L_PATTERNS);
+    const even = matchDigit(digitRuns, G_PATTERNS);
+    if (!odd && !even) return null;
+    if (odd && (!even || odd.distance <= even.distance)) {
+      digits.push(odd.digit);
+      parity += 'L';
+    } else if (even) {
+      digits.push(even.digit);
+      parity += 'G';
+    }
+  }
+
+  for (let i = 0; i < 6; i++) {
+    const match = matchDigit(window.slice(32 + i * 4, 36 + i * 4), L_PATTERNS);
+    if (!match) return null;
+    digits.push(match.digit);
+  }
+
+  const first = FIRST_DIGIT_PARITY.indexOf(parity);
+  if (first < 0) return null;
+
+  const code = [first, ...digits];
+  return isValidEAN13(code) ? code.join('') : null;
+};
+
+/**
+ * Alternating run lengths of one line, starting with a bar (dark run).
+ * Thresholded against a moving average, so uneven lighting across the photo does not matter.
+ */
+const toRuns = (line: Float32Array): number[] => {
+  const radius = Math.max(8, Math.round(line.length / 40));
+  const prefix = new Float32Array(line.length + 1);
+  for (let i = 0; i < line.length; i++) prefix[i + 1] = prefix[i] + line[i];
+
+  const runs: number[] = [];
+  let dark = true;
+  let length = 0;
+  let started = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const from = Math.max(0, i - radius);
+    const to = Math.min(line.length, i + radius + 1);
+    const mean = (prefix[to] - prefix[from]) / (to - from);
+    const isDark = line[i] < mean - 4;
+
+    if (!started) {
+      if (!isDark) continue;
+      started = true;
+      length = 1;
+      continue;
+    }
+    if (isDark === dark) {
+      length++;
+    } else {
+      runs.push(length);
+      dark = isDark;
+      length = 1;
+    }
+  }
+  if (started) runs.push(length);
+  return runs;
+};
+
+/**
+ * All EAN-13 codes readable on one line, in either direction (upside-down photos)
+ */
+const decodeLine = (line: Float32Array): string[] => {
+  const found: string[] = [];
+  for (const values of [line, line.slice().reverse()]) {
+    const runs = toRuns(values);
+    // Bars sit at even indexes - try every bar as the start guard
+    for (let start = 0; start + EAN13_RUNS <= runs.length; start += 2) {
+      const code = decodeAt(runs, start);
+      if (code) {
+        found.push(code);
+        break;
+      }
+    }
+  }
+  return found;
+};
+
+const toLuminance = ({ data, width, height }: ImageData): Float32Array => {
+  const luminance = new Float32Array(width * height);
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return luminance;
+};
+
+/**
+ * Decode rows and columns across the whole image and count how often each code was read
+ */
+const scanImage = (image: ImageData): Map<string, number> => {
+  const { width, height } = image;
+  const luminance = toLuminance(image);
+  const votes = new Map<string, number>();
+  const vote = (codes: string[]) => new Set(codes).forEach((code) => votes.set(code, (votes.get(code) || 0) + 1));
+
+  for (let i = 1; i <= BARCODE_POLICY.scanLines; i++) {
+    const y = Math.floor((height * i) / (BARCODE_POLICY.scanLines + 1));
+    vote(decodeLine(luminance.subarray(y * width, (y + 1) * width)));
+  }
+
+  for (let i = 1; i <= BARCODE_POLICY.scanLines; i++) {
+    const x = Math.floor((width * i) / (BARCODE_POLICY.scanLines + 1));
+    const column = new Float32Array(height);
+    for (let y = 0; y < height; y++) column[y] = luminance[y * width + x];
+    vote(decodeLine(column));
+  }
+
+  return votes;
+};
+
+// ============================================
+// IMAGE LOADING + NATIVE DETECTOR
+// ============================================
+
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface NativeBarcodeDetector {
+  detect: (image: ImageBitmapSource) => Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => NativeBarcodeDetector;
+
+// Shape Detection API - Chromium-based browsers only, so the scanline decoder is the fallback
+const getNativeDetector = (): NativeBarcodeDetector | null => {
+  const Detector = (globalThis as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+  if (!Detector) return null;
+  try {
+    return new Detector({ formats: ['ean_13'] });
+  } catch {
+    return null;
+  }
+};
+
+const loadImageData = async (bitmap: ImageBitmap): Promise<ImageData> => {
+  const scale = Math.min(1, BARCODE_POLICY.maxImageSize / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = Object.assign(document.createElement('canvas'), { width, height });
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('This browser cannot read images.');
+  context.drawImage(bitmap, 0, 0, width, height);
+  return context.getImageData(0, 0, width, height);
+};
+
+const toResult = (votes: Map<string, number>, minVotes: number): BarcodeScanResult => {
+  const candidates = [...votes.entries()]
+    .map(([code, count]) => ({ code, votes: count, isISBN: isValidISBN13(code) }))
+    .sort((a, b) => b.votes - a.votes || Number(b.isISBN) - Number(a.isISBN));
+
+  const isbns = candidates.filter((candidate) => candidate.isISBN);
+  const [best, runnerUp] = isbns;
+  const isClear = !!best && best.votes >= minVotes && (!runnerUp || best.votes >= runnerUp.votes * 2);
+
+  return { candidates, isbn: isClear ? best.code : null };
+};
+
+/**
+ * Read the EAN-13 barcode of a book from a photo (nothing is uploaded).
+ * Throws if the file cannot be opened as an image.
+ */
+export const scanBarcode = async (file: Blob): Promise<BarcodeScanResult> => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    throw new Error('This file could not be opened as an image.');
+  }
+
+  try {
+    const native = getNativeDetector();
+    if (native) {
+      try {
+        const detected = await native.detect(bitmap);
+        const votes = new Map<string, number>();
+        detected
+          .map((barcode) => barcode.rawValue)
+          .filter((code) => /^\d{13}$/.test(code) && isValidEAN13([...code].map(Number)))
+          .forEach((code) => votes.set(code, (votes.get(code) || 0) + 1));
+        // The native detector reports each barcode once - one hit is certain enough
+        if (votes.size > 0) return toResult(votes, 1);
+      } catch {
+        // Fall through to the scanline decoder
+      }
+    }
+
+    return toResult(scanImage(await loadImageData(bitmap)), BARCODE_POLICY.minVotes);
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,54 @@
+// ============================================
+// BOOK QUERY - Search, Sort and Paging Rules
+// ============================================
+
+import type { Book, BookPageQuery, PagedResult } from '../types/api';
+import { matchesISBN } from './isbn';
+
+export const DEFAULT_PAGE_SIZE = 24;
+
+// Query cache prefix of the paged book lists - invalidated by every change
+// that can move books between pages
+export const BOOK_PAGES_KEY = 'books:pages';
+
+/**
+ * True if the book's title or author name contains the search term, or its
+ * ISBN matches it (in any format - see matchesISBN)
+ */
+export const matchesSearch = (book: Book, search = ''): boolean => {
+  const term = search.trim().toLowerCase();
+  if (!term) return true;
+  return (
+    book.title.toLowerCase().includes(term) ||
+    matchesISBN(book.isbn, term) ||
+    !!book.author?.name.toLowerCase().includes(term)
+  );
+};
+
+/**
+ * Comparator for a sort field/order (ties broken by id so pages never overlap)
+ */
+export const compareBooks = ({ sortBy = 'title', sortOrder = 'asc' }: Pick<BookPageQuery, 'sortBy' | 'sortOrder'>) => {
+  const direction = sortOrder === 'desc' ? -1 : 1;
+  return (a: Book, b: Book): number => {
+    let result = 0;
+    if (sortBy === 'title') result = a.title.localeCompare(b.title);
+    else if (sortBy === 'year') result = (a.year || 0) - (b.year || 0);
+    return direction * (result || a.id - b.id);
+  };
+};
+
+/**
+ * Apply a page query to a full book list - what the paged endpoint does server-side.
+ * Used for backends that ignore the paging parameters and while offline.
+ */
+export const pageBooks = (books: Book[], query: BookPageQuery): PagedResult<Book> => {
+  const matching = books.filter((book) => matchesSearch(book, query.search)).sort(compareBooks(query));
+  const start = (query.page - 1) * query.pageSize;
+  return {
+    items: matching.slice(start, start + query.pageSize),
+    page: query.page,
+    pageSize: query.pageSize,
+    totalCount: matching.length,
+  };
+};
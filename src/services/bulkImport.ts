@@ -0,0 +1,252 @@
+// ============================================
+// BULK IMPORT - Queue of ISBNs Imported from Google Books
+// ============================================
+
+import { booksAPI } from './api';
+import { getErrorKind, getErrorMessage } from './apiErrors';
+import { entityStore } from './entityStore';
+import { queryCache } from './queryCache';
+import { BOOK_PAGES_KEY } from './bookQuery';
+import { tabSync } from './tabSync';
+import { isbnKey, isValidISBN } from './isbn';
+import type { Book } from '../types/api';
+
+/**
+ * 'duplicate' = already in the library (found locally, or a 409 from the server).
+ * 'not-found' = Google Books has no book with this ISBN.
+ */
+export type BulkImportStatus = 'queued' | 'importing' | 'imported' | 'duplicate' | 'not-found' | 'failed';
+
+export interface BulkImportItem {
+  id: string;
+  isbn: string; // As entered (hyphens kept), for display - the import sends its canonical ISBN-13
+  status: BulkImportStatus;
+  book?: Book; // Imported book, or the one already in the library
+  message?: string; // Why it failed
+  attempts: number;
+}
+
+export interface BulkImportState {
+  items: BulkImportItem[];
+  isRunning: boolean;
+  concurrency: number;
+  finishedAt: number | null; // Last run that emptied the queue (for the summary)
+}
+
+/**
+ * What a pasted text or dropped file contained
+ */
+export interface ParsedIsbnList {
+  isbns: string[];
+  invalid: string[]; // Entries that are not valid ISBNs (wrong length or check digit)
+}
+
+export const BULK_IMPORT_POLICY = {
+  concurrencyOptions: [1, 2, 3, 5],
+  defaultConcurrency: 2, // Google Books lookups are slow - a few at a time keeps the backend responsive
+};
+
+type Listener = () => void;
+
+let state: BulkImportState = {
+  items: [],
+  isRunning: false,
+  concurrency: BULK_IMPORT_POLICY.defaultConcurrency,
+  finishedAt: null,
+};
+
+const listeners = new Set<Listener>();
+
+const setState = (next: BulkImportState) => {
+  state = next;
+  listeners.forEach((listener) => listener());
+};
+
+const controllers = new Map<string, AbortController>();
+let nextItemId = 0;
+let currentRun = 0; // A paused run's workers stop even if a new run started meanwhile
+
+// ============================================
+// PARSING
+// ============================================
+
+/**
+ * ISBNs from pasted text or a .txt/.csv file - one per line, or separated by
+ * commas, semicolons or tabs. In a CSV with a header row only the "isbn" column is read.
+ * Repeated ISBNs (in any format) are listed once.
+ */
+export const parseIsbnList = (text: string): ParsedIsbnList => {
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+  const header = lines[0]?.split(/[,;\t]/).map((cell) => cell.trim().replace(/^"|"$/g, '').toLowerCase());
+  const isbnColumn = header ? header.findIndex((cell) => cell === 'isbn' || cell === 'isbn13' || cell === 'isbn10') : -1;
+
+  const entries =
+    isbnColumn >= 0
+      ? lines.slice(1).map((line) => line.split(/[,;\t]/)[isbnColumn] || '')
+      : lines.flatMap((line) => line.split(/[,;\t]/));
+
+  const seen = new Set<string>();
+  const isbns: string[] = [];
+  const invalid: string[] = [];
+  for (const raw of entries) {
+    const entry = raw.trim().replace(/^"|"$/g, '').trim();
+    if (!entry) continue;
+    if (!isValidISBN(entry)) {
+      invalid.push(entry);
+      continue;
+    }
+    if (seen.has(isbnKey(entry))) continue;
+    seen.add(isbnKey(entry));
+    isbns.push(entry);
+  }
+  return { isbns, invalid };
+};
+
+// ============================================
+// QUEUE
+// ============================================
+
+const updateItem = (id: string, changes: Partial<BulkImportItem>) => {
+  setState({ ...state, items: state.items.map((item) => (item.id === id ? { ...item, ...changes } : item)) });
+};
+
+const findInLibrary = (isbn: string): Book | undefined => {
+  const key = isbnKey(isbn);
+  return Object.values(entityStore.getState().books).find((book) => book.isbn && isbnKey(book.isbn) === key);
+};
+
+const importItem = async (item: BulkImportItem) => {
+  const existing = findInLibrary(item.isbn);
+  if (existing) {
+    updateItem(item.id, { status: 'duplicate', book: existing, message: undefined });
+    return;
+  }
+
+  const controller = new AbortController();
+  controllers.set(item.id, controller);
+  updateItem(item.id, { status: 'importing', attempts: item.attempts + 1, message: undefined });
+
+  try {
+    const book = await booksAPI.importByISBN(item.isbn, controller.signal);
+    entityStore.upsertBooks([book]);
+    tabSync.broadcast({ kind: 'books', action: 'created', id: book.id, label: book.title, record: book });
+    updateItem(item.id, { status: 'imported', book });
+  } catch (err) {
+    const kind = getErrorKind(err);
+    if (kind === 'cancelled') {
+      updateItem(item.id, { status: 'queued' }); // Paused - picked up again on the next start
+    } else if (kind === 'conflict') {
+      updateItem(item.id, { status: 'duplicate', message: getErrorMessage(err) });
+    } else if (kind === 'not-found') {
+      updateItem(item.id, { status: 'not-found', message: getErrorMessage(err) });
+    } else {
+      updateItem(item.id, { status: 'failed', message: getErrorMessage(err) });
+    }
+  } finally {
+    controllers.delete(item.id);
+  }
+};
+
+// Each worker takes the next queued ISBN until none are left (or the run is paused)
+const worker = async (runId: number) => {
+  while (state.isRunning && runId === currentRun) {
+    const next = state.items.find((item) => item.status === 'queued');
+    if (!next) return;
+    await importItem(next);
+  }
+};
+
+const run = async () => {
+  if (state.isRunning || !state.items.some((item) => item.status === 'queued')) return;
+  const runId = ++currentRun;
+  setState({ ...state, isRunning: true, finishedAt: null });
+
+  await Promise.all(Array.from({ length: state.concurrency }, () => worker(runId)));
+  if (runId !== currentRun) return;
+
+  const finished = !state.items.some((item) => item.status === 'queued');
+  setState({ ...state, isRunning: false, finishedAt: finished ? Date.now() : null });
+  if (state.items.some((item) => item.status === 'imported')) {
+    queryCache.invalidate(BOOK_PAGES_KEY); // List the new books in their sorted place
+  }
+};
+
+export const bulkImport = {
+  getState: (): BulkImportState => state,
+
+  subscribe: (listener: Listener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  /**
+   * Queue ISBNs (ones already in the queue are skipped). Returns how many were added.
+   */
+  add: (isbns: string[]): number => {
+    const queued = new Set(state.items.map((item) => isbnKey(item.isbn)));
+    const added = isbns
+      .filter((isbn) => !queued.has(isbnKey(isbn)))
+      .map((isbn): BulkImportItem => ({ id: `import-${++nextItemId}`, isbn, status: 'queued', attempts: 0 }));
+    if (added.length > 0) {
+      setState({ ...state, items: [...state.items, ...added], finishedAt: null });
+    }
+    return added.length;
+  },
+
+  start: () => {
+    run();
+  },
+
+  /**
+   * Stop taking new ISBNs and cancel the requests in flight (they go back to the queue)
+   */
+  pause: () => {
+    currentRun++;
+    setState({ ...state, isRunning: false });
+    controllers.forEach((controller) => controller.abort());
+  },
+
+  /**
+   * Queue the given items again (failed or not found), or every failed one, and start importing
+   */
+  retry: (ids?: string[]) => {
+    const retryable: BulkImportStatus[] = ids ? ['failed', 'not-found'] : ['failed'];
+    setState({
+      ...state,
+      items: state.items.map((item) =>
+        retryable.includes(item.status) && (!ids || ids.includes(item.id)) ? { ...item, status: 'queued', message: undefined } : item
+      ),
+    });
+    run();
+  },
+
+  /**
+   * Parallel requests - applies from the next start
+   */
+  setConcurrency: (concurrency: number) => {
+    setState({ ...state, concurrency });
+  },
+
+  /**
+   * Drop everything that is not waiting or importing
+   */
+  clearFinished: () => {
+    setState({
+      ...state,
+      items: state.items.filter((item) => item.status === 'queued' || item.status === 'importing'),
+      finishedAt: null,
+    });
+  },
+
+  /**
+   * Empty the queue (pauses a running import first)
+   */
+  clear: () => {
+    bulkImport.pause();
+    setState({ ...state, items: [], finishedAt: null });
+  },
+};
+
+export default bulkImport;
@@ -0,0 +1,110 @@
+// ============================================
+// CATALOG EXPORT - Books and Authors as CSV or JSON
+// ============================================
+
+import type { Author, Book } from '../types/api';
+
+export type ExportFormat = 'csv' | 'json';
+
+export type ExportValue = string | number | null;
+
+/**
+ * One selectable column - `key` names the field in JSON, `label` heads the CSV column
+ */
+export interface ExportColumn<T> {
+  key: string;
+  label: string;
+  value: (item: T) => ExportValue;
+}
+
+/**
+ * A finished export, ready to be saved as a file
+ */
+export interface ExportFile {
+  content: string;
+  mimeType: string;
+  filename: string;
+}
+
+export const BOOK_EXPORT_COLUMNS: ExportColumn<Book>[] = [
+  { key: 'title', label: 'Title', value: (book) => book.title },
+  { key: 'isbn', label: 'ISBN', value: (book) => book.isbn || null },
+  { key: 'year', label: 'Year', value: (book) => book.year ?? null },
+  { key: 'author', label: 'Author', value: (book) => book.author?.name ?? null },
+  { key: 'publisher', label: 'Publisher', value: (book) => book.publisher?.name ?? null },
+  { key: 'description', label: 'Description', value: (book) => book.details?.description ?? null },
+  { key: 'thumbnail', label: 'Thumbnail', value: (book) => book.details?.thumbnail ?? null },
+];
+
+export const AUTHOR_EXPORT_COLUMNS: ExportColumn<Author>[] = [
+  { key: 'name', label: 'Name', value: (author) => author.name },
+  { key: 'bookCount', label: 'Book Count', value: (author) => author.books?.length ?? 0 },
+  {
+    key: 'books',
+    label: 'Books',
+    value: (author) => (author.books?.length ? author.books.map((book) => book.title).join('; ') : null),
+  },
+];
+
+// ============================================
+// FORMATS
+// ============================================
+
+// Byte order mark - without it Excel reads UTF-8 CSV as the system code page and mangles accents
+const UTF8_BOM = '\uFEFF';
+
+// Excel and Sheets run a cell starting with these as a formula (CSV injection)
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * A CSV field (RFC 4180) - quoted when it contains a comma, quote or line break,
+ * with inner quotes doubled: He said "hi", then left -> "He said ""hi"", then left".
+ * Text that a spreadsheet would run as a formula gets a leading ' and is quoted:
+ * =HYPERLINK("x") -> "'=HYPERLINK(""x"")"
+ */
+export const escapeCSVField = (value: ExportValue): string => {
+  if (value === null) return '';
+  if (typeof value === 'string' && FORMULA_START.test(value)) {
+    return `"'${value.replace(/"/g, '""')}"`;
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * CSV with a header row, CRLF line endings and a UTF-8 byte order mark
+ */
+export const toCSV = <T>(items: T[], columns: ExportColumn<T>[]): string => {
+  const rows = [
+    columns.map((column) => escapeCSVField(column.label)),
+    ...items.map((item) => columns.map((column) => escapeCSVField(column.value(item)))),
+  ];
+  return UTF8_BOM + rows.map((row) => row.join(',')).join('\r\n') + '\r\n';
+};
+
+/**
+ * Pretty-printed JSON array of objects keyed by column key (missing values as null)
+ */
+export const toJSON = <T>(items: T[], columns: ExportColumn<T>[]): string =>
+  JSON.stringify(
+    items.map((item) => Object.fromEntries(columns.map((column) => [column.key, column.value(item)]))),
+    null,
+    2
+  );
+
+/**
+ * The selected columns of `items` in the chosen format, named e.g. books-2026-03-14.csv
+ *
+ * @param name - File name prefix ('books', 'authors')
+ */
+export const exportCatalog = <T>(
+  items: T[],
+  columns: ExportColumn<T>[],
+  format: ExportFormat,
+  name: string
+): ExportFile => {
+  const date = new Date().toISOString().slice(0, 10);
+  return format === 'csv'
+    ? { content: toCSV(items, columns), mimeType: 'text/csv;charset=utf-8', filename: `${name}-${date}.csv` }
+    : { content: toJSON(items, columns), mimeType: 'application/json;charset=utf-8', filename: `${name}-${date}.json` };
+};
@@ -0,0 +1,135 @@
+// ============================================
+// DUPLICATE BOOKS - Same ISBN or Similar Title + Author in the Catalog
+// ============================================
+
+import { isbnKey } from './isbn';
+import type { Book } from '../types/api';
+
+/**
+ * A book about to be created or imported
+ */
+export interface DuplicateCandidate {
+  title?: string;
+  authors?: string[]; // Any of them matching the existing book's author counts
+  isbn?: string | null;
+}
+
+/**
+ * 'isbn' = the same ISBN in any format (a certain duplicate).
+ * 'similar' = title and author are close enough to probably be the same book.
+ * 'similar-title' = a near-identical title, compared alone because no author was entered.
+ */
+export interface DuplicateMatch {
+  book: Book;
+  reason: 'isbn' | 'similar' | 'similar-title';
+  similarity: number; // 0-1, 1 for ISBN matches
+}
+
+export const DUPLICATE_POLICY = {
+  minTitleSimilarity: 0.85,
+  minAuthorSimilarity: 0.75,
+  titleOnlySimilarity: 0.95, // When the candidate has no author yet
+  maxMatches: 3,
+};
+
+// ============================================
+// TEXT SIMILARITY
+// ============================================
+
+// Lowercase, accents and punctuation removed - "Cien años de soledad!" -> "cien anos de soledad"
+const normalizeText = (value: string) =>
+  value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+const normalizeTitle = (title: string) => normalizeText(title).replace(/^(the|a|an) /, '');
+
+// Name parts sorted, so "Tolkien, J.R.R." and "J. R. R. Tolkien" are equal
+const normalizeName = (name: string) => normalizeText(name).split(' ').sort().join(' ');
+
+// Title without its subtitle or edition note - "Dune: Deluxe Edition" -> "Dune"
+const mainTitle = (title: string) => title.split(/[:(\u2013\u2014]| - /)[0];
+
+const bigrams = (value: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < value.length - 1; i++) {
+    const pair = value.slice(i, i + 2);
+    counts.set(pair, (counts.get(pair) || 0) + 1);
+  }
+  return counts;
+};
+
+/**
+ * Dice coefficient of character pairs - 1 for equal strings, 0 for nothing in common
+ */
+const similarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const pairsA = bigrams(a);
+  const pairsB = bigrams(b);
+  let shared = 0;
+  pairsA.forEach((count, pair) => {
+    shared += Math.min(count, pairsB.get(pair) || 0);
+  });
+  return (2 * shared) / (a.length - 1 + (b.length - 1));
+};
+
+// A subtitle on only one side is ignored, but two different subtitles ("Mistborn: The Final Empire"
+// vs "Mistborn: The Well of Ascension") still tell books of a series apart
+const titleSimilarity = (a: string, b: string) =>
+  Math.max(
+    similarity(normalizeTitle(a), normalizeTitle(b)),
+    similarity(normalizeTitle(mainTitle(a)), normalizeTitle(b)),
+    similarity(normalizeTitle(a), normalizeTitle(mainTitle(b)))
+  );
+
+// ============================================
+// MATCHING
+// ============================================
+
+/**
+ * Books in `books` that the candidate probably duplicates, certain (ISBN) matches first.
+ * `excludeId` skips the book being edited.
+ */
+export const findDuplicateBooks = (candidate: DuplicateCandidate, books: Book[], excludeId?: number): DuplicateMatch[] => {
+  const key = candidate.isbn?.trim() ? isbnKey(candidate.isbn) : null;
+  const title = candidate.title?.trim() || '';
+  const authors = (candidate.authors || []).map(normalizeName).filter(Boolean);
+  const canCompareTitles = normalizeTitle(title).length >= 2;
+
+  const matches: DuplicateMatch[] = [];
+  for (const book of books) {
+    if (book.id === excludeId) continue;
+
+    if (key && book.isbn && isbnKey(book.isbn) === key) {
+      matches.push({ book, reason: 'isbn', similarity: 1 });
+      continue;
+    }
+    if (!canCompareTitles) continue;
+
+    const titleScore = titleSimilarity(title, book.title);
+    if (titleScore < DUPLICATE_POLICY.minTitleSimilarity) continue;
+
+    if (authors.length === 0) {
+      if (titleScore >= DUPLICATE_POLICY.titleOnlySimilarity) {
+        matches.push({ book, reason: 'similar-title', similarity: titleScore });
+      }
+      continue;
+    }
+
+    const authorName = book.author ? normalizeName(book.author.name) : '';
+    const authorScore = Math.max(0, ...authors.map((author) => similarity(author, authorName)));
+    if (authorScore >= DUPLICATE_POLICY.minAuthorSimilarity) {
+      matches.push({ book, reason: 'similar', similarity: (titleScore + authorScore) / 2 });
+    }
+  }
+
+  return matches
+    .sort((a, b) => Number(b.reason === 'isbn') - Number(a.reason === 'isbn') || b.similarity - a.similarity)
+    .slice(0, DUPLICATE_POLICY.maxMatches);
+};
@@ -0,0 +1,449 @@
+// ============================================
+// ENTITY STORE - Normalized Client-Side Cache
+// ============================================
+
+import type { Book, NestedBook, Author, Publisher } from '../types/api';
+
+/**
+ * Normalized state - every entity is stored exactly once, keyed by id.
+ * Nested objects (book.author, book.publisher, author.books) are NOT stored;
+ * they are rebuilt from the maps by the selectors below, so an edit to one
+ * entity is reflected everywhere it appears.
+ * Fetch status (loading/error/freshness) is tracked by the query cache.
+ */
+export interface EntityState {
+  books: Record<number, Book>;
+  authors: Record<number, Author>;
+  publishers: Record<number, Publisher>;
+  pendingBooks: Record<number, PendingOperation>; // Optimistic changes awaiting the server
+  pendingAuthors: Record<number, PendingOperation>;
+}
+
+/**
+ * Kind of optimistic change applied to an entity that the server has not confirmed yet
+ * ('queued' = made offline, waiting in the outbox)
+ */
+export type PendingOperation = 'creating' | 'updating' | 'deleting' | 'queued';
+
+export type EntityKind = 'books' | 'authors';
+
+/**
+ * Entities to snapshot before an optimistic change
+ */
+export interface CaptureTargets {
+  books?: number[];
+  authors?: number[];
+}
+
+type Listener = () => void;
+
+let state: EntityState = {
+  books: {},
+  authors: {},
+  publishers: {},
+  pendingBooks: {},
+  pendingAuthors: {},
+};
+
+const listeners = new Set<Listener>();
+
+const setState = (next: EntityState) => {
+  state = next;
+  listeners.forEach((listener) => listener());
+};
+
+// Deleted locally, DELETE not sent yet (undo window) - responses must not bring them back.
+// A hidden author hides their books too.
+const hidden = {
+  books: new Set<number>(),
+  authors: new Set<number>(),
+};
+
+const isHiddenBook = (book: Pick<NestedBook, 'id' | 'authorId'>) =>
+  hidden.books.has(book.id) || (book.authorId !== undefined && hidden.authors.has(book.authorId));
+
+// ============================================
+// NORMALIZATION HELPERS
+// ============================================
+
+// Strip nested relations so only plain fields are stored
+const toStoredBook = (book: Book): Book => {
+  const stored = { ...book };
+  if (book.author) {
+    stored.author = { id: book.author.id, name: book.author.name };
+  }
+  return stored;
+};
+
+// Only full author responses carry a version (nested ones do not)
+const toStoredAuthor = (author: Author): Author =>
+  author.version ? { id: author.id, name: author.name, version: author.version } : { id: author.id, name: author.name };
+
+const toStoredPublisher = (publisher: Publisher): Publisher => ({ id: publisher.id, name: publisher.name });
+
+// Nested books from GET /authors and /publishers are partial - merged over the stored
+// record, so its richer fields are kept (the schema already dropped null fields).
+// A book first seen nested is stored with what it has until a full record arrives.
+const toMergedNestedBook = (stored: Book | undefined, book: NestedBook, link: Partial<Book>): Book =>
+  ({ ...stored, ...book, ...link }) as Book;
+
+/**
+ * Merge books (and their nested author/publisher) into the given maps
+ */
+const mergeBooks = (draft: EntityState, books: Book[]) => {
+  for (const book of books) {
+    if (isHiddenBook(book)) continue;
+    if (book.author) {
+      draft.authors[book.author.id] = {
+        ...draft.authors[book.author.id],
+        ...toStoredAuthor(book.author),
+      };
+    }
+    if (book.publisher) {
+      draft.publishers[book.publisher.id] = toStoredPublisher(book.publisher);
+    }
+    draft.books[book.id] = { ...draft.books[book.id], ...toStoredBook(book) };
+  }
+};
+
+/**
+ * Merge authors (and their nested books) into the given maps
+ */
+const mergeAuthors = (draft: EntityState, authors: Author[]) => {
+  for (const author of authors) {
+    if (hidden.authors.has(author.id)) continue;
+    draft.authors[author.id] = { ...draft.authors[author.id], ...toStoredAuthor(author) };
+    for (const book of author.books || []) {
+      if (hidden.books.has(book.id)) continue;
+      draft.books[book.id] = toMergedNestedBook(draft.books[book.id], book, { authorId: author.id });
+    }
+  }
+};
+
+/**
+ * Merge publishers (and their nested books) into the given maps
+ */
+const mergePublishers = (draft: EntityState, publishers: Publisher[]) => {
+  for (const publisher of publishers) {
+    draft.publishers[publisher.id] = toStoredPublisher(publisher);
+    for (const book of publisher.books || []) {
+      if (isHiddenBook(book)) continue;
+      draft.books[book.id] = toMergedNestedBook(draft.books[book.id], book, { publisherId: publisher.id });
+    }
+  }
+};
+
+const cloneMaps = (): EntityState => ({
+  books: { ...state.books },
+  authors: { ...state.authors },
+  publishers: { ...state.publishers },
+  pendingBooks: { ...state.pendingBooks },
+  pendingAuthors: { ...state.pendingAuthors },
+});
+
+// ============================================
+// SELECTORS (denormalize for components)
+// ============================================
+
+/**
+ * Rebuild a book with its current author and publisher
+ */
+export const selectBook = (current: EntityState, id: number): Book | null => {
+  const book = current.books[id];
+  if (!book) return null;
+
+  const author = current.authors[book.authorId];
+  const publisher = book.publisherId ? current.publishers[book.publisherId] : undefined;
+
+  return {
+    ...book,
+    author: author ? toStoredAuthor(author) : book.author,
+    publisher: publisher || book.publisher || null,
+  };
+};
+
+/**
+ * All known books, ordered by id
+ */
+export const selectBooks = (current: EntityState): Book[] =>
+  Object.keys(current.books)
+    .map((id) => selectBook(current, Number(id)))
+    .filter((book): book is Book => book !== null);
+
+/**
+ * Rebuild an author with the books currently linked to it
+ */
+export const selectAuthor = (current: EntityState, id: number): Author | null => {
+  const author = current.authors[id];
+  if (!author) return null;
+
+  const books = Object.values(current.books)
+    .filter((book) => book.authorId === id)
+    .map((book) => ({ ...book, author: toStoredAuthor(author) }));
+
+  return { ...author, books };
+};
+
+/**
+ * All known authors, ordered by id
+ */
+export const selectAuthors = (current: EntityState): Author[] =>
+  Object.keys(current.authors)
+    .map((id) => selectAuthor(current, Number(id)))
+    .filter((author): author is Author => author !== null);
+
+/**
+ * Rebuild a publisher with the books currently linked to it
+ */
+export const selectPublisher = (current: EntityState, id: number): Publisher | null => {
+  const publisher = current.publishers[id];
+  if (!publisher) return null;
+
+  const books = Object.values(current.books)
+    .filter((book) => book.publisherId === id)
+    .map((book) => selectBook(current, book.id))
+    .filter((book): book is Book => book !== null);
+
+  return { ...publisher, books };
+};
+
+/**
+ * All known publishers, ordered by id
+ */
+export const selectPublishers = (current: EntityState): Publisher[] =>
+  Object.keys(current.publishers)
+    .map((id) => selectPublisher(current, Number(id)))
+    .filter((publisher): publisher is Publisher => publisher !== null);
+
+// ============================================
+// STORE API
+// ============================================
+
+export const entityStore = {
+  getState: (): EntityState => state,
+
+  subscribe: (listener: Listener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  /**
+   * Insert or update books (plus their nested author/publisher)
+   */
+  upsertBooks: (books: Book[]) => {
+    const draft = cloneMaps();
+    mergeBooks(draft, books);
+    setState(draft);
+  },
+
+  /**
+   * Insert or update authors (plus their nested books)
+   */
+  upsertAuthors: (authors: Author[]) => {
+    const draft = cloneMaps();
+    mergeAuthors(draft, authors);
+    setState(draft);
+  },
+
+  /**
+   * Insert or update publishers (plus their nested books)
+   */
+  upsertPublishers: (publishers: Publisher[]) => {
+    const draft = cloneMaps();
+    mergePublishers(draft, publishers);
+    setState(draft);
+  },
+
+  /**
+   * Replace the book collection with a full GET /books result.
+   * Books missing from the response were deleted on the server and are dropped,
+   * except ones with an unconfirmed optimistic change (kept as they are locally).
+   */
+  replaceBooks: (books: Book[]) => {
+    const draft = cloneMaps();
+    draft.books = {};
+    mergeBooks(draft, books);
+    for (const id of Object.keys(state.pendingBooks).map(Number)) {
+      if (state.books[id]) draft.books[id] = state.books[id];
+    }
+    setState(draft);
+  },
+
+  /**
+   * Replace the author collection with a full GET /authors result
+   */
+  replaceAuthors: (authors: Author[]) => {
+    const draft = cloneMaps();
+    draft.authors = {};
+    mergeAuthors(draft, authors);
+    for (const id of Object.keys(state.pendingAuthors).map(Number)) {
+      if (state.authors[id]) draft.authors[id] = state.authors[id];
+    }
+    // Keep authors referenced by books we still hold (avoids dangling book.author)
+    for (const book of Object.values(draft.books)) {
+      if (!draft.authors[book.authorId] && state.authors[book.authorId]) {
+        draft.authors[book.authorId] = state.authors[book.authorId];
+      }
+    }
+    setState(draft);
+  },
+
+  /**
+   * Replace the publisher collection with a full GET /publishers result
+   */
+  replacePublishers: (publishers: Publisher[]) => {
+    const draft = cloneMaps();
+    draft.publishers = {};
+    mergePublishers(draft, publishers);
+    // Keep publishers referenced by books we still hold (avoids dangling book.publisher)
+    for (const book of Object.values(draft.books)) {
+      if (book.publisherId && !draft.publishers[book.publisherId] && state.publishers[book.publisherId]) {
+        draft.publishers[book.publisherId] = state.publishers[book.publisherId];
+      }
+    }
+    setState(draft);
+  },
+
+  /**
+   * Forget every record and pending marker (e.g. after switching to another backend)
+   */
+  reset: () => {
+    hidden.books.clear();
+    hidden.authors.clear();
+    setState({ books: {}, authors: {}, publishers: {}, pendingBooks: {}, pendingAuthors: {} });
+  },
+
+  /**
+   * Restore persisted collections underneath the current state (current records win)
+   */
+  hydrate: (snapshot: Partial<Pick<EntityState, 'books' | 'authors' | 'publishers'>>) => {
+    setState({
+      ...state,
+      books: { ...snapshot.books, ...state.books },
+      authors: { ...snapshot.authors, ...state.authors },
+      publishers: { ...snapshot.publishers, ...state.publishers },
+    });
+  },
+
+  /**
+   * Swap a temporary (optimistic) record for the one the server created.
+   * Books linked to a temporary author are re-pointed to the real author.
+   */
+  confirmCreated: (kind: EntityKind, tempId: number, entity: Book | Author) => {
+    const draft = cloneMaps();
+    if (kind === 'books') {
+      delete draft.books[tempId];
+      delete draft.pendingBooks[tempId];
+      mergeBooks(draft, [entity as Book]);
+    } else {
+      delete draft.authors[tempId];
+      delete draft.pendingAuthors[tempId];
+      for (const book of Object.values(draft.books)) {
+        if (book.authorId === tempId) {
+          draft.books[book.id] = { ...book, authorId: entity.id, author: toStoredAuthor(entity as Author) };
+        }
+      }
+      mergeAuthors(draft, [entity as Author]);
+    }
+    setState(draft);
+  },
+
+  removeBook: (id: number) => {
+    if (!state.books[id]) return;
+    const draft = cloneMaps();
+    delete draft.books[id];
+    delete draft.pendingBooks[id];
+    setState(draft);
+  },
+
+  /**
+   * Remove an author - the backend cascade-deletes their books, so do we
+   */
+  removeAuthor: (id: number) => {
+    const draft = cloneMaps();
+    delete draft.authors[id];
+    delete draft.pendingAuthors[id];
+    for (const book of Object.values(state.books)) {
+      if (book.authorId === id) {
+        delete draft.books[book.id];
+        delete draft.pendingBooks[book.id];
+      }
+    }
+    setState(draft);
+  },
+
+  /**
+   * Remove a publisher - its books are kept without a publisher, like on the backend
+   */
+  removePublisher: (id: number) => {
+    const draft = cloneMaps();
+    delete draft.publishers[id];
+    for (const book of Object.values(state.books)) {
+      if (book.publisherId === id) {
+        draft.books[book.id] = { ...book, publisherId: null, publisher: null };
+      }
+    }
+    setState(draft);
+  },
+
+  /**
+   * Keep fetched data from re-adding a record (and, for an author, their books)
+   * until unhide() - used while a delete can still be undone
+   */
+  hide: (kind: EntityKind, id: number) => {
+    hidden[kind].add(id);
+  },
+
+  unhide: (kind: EntityKind, id: number) => {
+    hidden[kind].delete(id);
+  },
+
+  /**
+   * Mark (or unmark with null) an entity as having an unconfirmed optimistic change
+   */
+  setPending: (kind: EntityKind, id: number, operation: PendingOperation | null) => {
+    const field = kind === 'books' ? 'pendingBooks' : 'pendingAuthors';
+    const pending = { ...state[field] };
+    if (operation) {
+      pending[id] = operation;
+    } else {
+      delete pending[id];
+    }
+    setState({ ...state, [field]: pending });
+  },
+
+  /**
+   * Snapshot the given entities before an optimistic change.
+   * Returns a rollback function that restores exactly those records
+   * (re-adding deleted ones, dropping created ones) and clears their pending flags.
+   */
+  capture: ({ books = [], authors = [] }: CaptureTargets): (() => void) => {
+    const savedBooks = books.map((id) => [id, state.books[id]] as const);
+    const savedAuthors = authors.map((id) => [id, state.authors[id]] as const);
+
+    return () => {
+      const draft = cloneMaps();
+      for (const [id, book] of savedBooks) {
+        if (book) {
+          draft.books[id] = book;
+        } else {
+          delete draft.books[id];
+        }
+        delete draft.pendingBooks[id];
+      }
+      for (const [id, author] of savedAuthors) {
+        if (author) {
+          draft.authors[id] = author;
+        } else {
+          delete draft.authors[id];
+        }
+        delete draft.pendingAuthors[id];
+      }
+      setState(draft);
+    };
+  },
+};
+
+export default entityStore;
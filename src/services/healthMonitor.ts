@@ -0,0 +1,170 @@
+// ============================================
+// HEALTH MONITOR - Background Backend Reachability
+// ============================================
+
+import { healthAPI } from './api';
+import { serverStatus } from './serverStatus';
+
+/**
+ * 'degraded' = the server answered, but slowly, with a 5xx, or while waking up.
+ * 'offline' = no answer at all (or the browser has no network).
+ */
+export type HealthStatus = 'unknown' | 'online' | 'degraded' | 'offline';
+
+export interface HealthState {
+  status: HealthStatus;
+  latency: number | null; // Round-trip of the last answered ping (ms)
+  averageLatency: number | null; // Over the last few answered pings
+  checkedAt: number | null; // Timestamp of the last finished ping
+  reason: string | null; // Why the backend is degraded/offline
+  isChecking: boolean;
+}
+
+export const HEALTH_POLICY = {
+  onlineInterval: 60_000, // Ping every minute while healthy...
+  unhealthyInterval: 15_000, // ...and more often while degraded/offline
+  timeout: 10_000,
+  prewarmTimeout: 60_000, // A cold Render instance can take up to a minute to answer
+  slowLatency: 2_000, // Slower answers count as degraded
+  samples: 5, // Pings averaged for averageLatency
+};
+
+type Listener = () => void;
+
+let state: HealthState = {
+  status: 'unknown',
+  latency: null,
+  averageLatency: null,
+  checkedAt: null,
+  reason: null,
+  isChecking: false,
+};
+
+const listeners = new Set<Listener>();
+
+const setState = (next: HealthState) => {
+  state = next;
+  listeners.forEach((listener) => listener());
+};
+
+let samples: number[] = [];
+let pendingCheck: Promise<HealthState> | null = null;
+let timer: ReturnType<typeof setTimeout> | undefined;
+let started = false;
+
+const isDocumentHidden = () => typeof document !== 'undefined' && document.visibilityState === 'hidden';
+
+// Next ping - skipped while the tab is hidden (resumed when it becomes visible)
+const schedule = () => {
+  clearTimeout(timer);
+  if (!started) return;
+  const delay = state.status === 'online' ? HEALTH_POLICY.onlineInterval : HEALTH_POLICY.unhealthyInterval;
+  timer = setTimeout(() => {
+    if (!isDocumentHidden()) healthMonitor.check();
+  }, delay);
+};
+
+const describeStatus = (status: number): string =>
+  [502, 503, 504].includes(status) ? 'The server is waking up' : `The server answered with HTTP ${status}`;
+
+const runCheck = async (timeout: number): Promise<HealthState> => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    return { ...state, status: 'offline', reason: 'No network connection', checkedAt: Date.now(), isChecking: false };
+  }
+
+  try {
+    const { status, latency } = await healthAPI.ping(timeout);
+    samples = [...samples, latency].slice(-HEALTH_POLICY.samples);
+    const averageLatency = Math.round(samples.reduce((total, sample) => total + sample, 0) / samples.length);
+
+    let health: HealthStatus = 'online';
+    let reason: string | null = null;
+    if (status >= 500) {
+      health = 'degraded';
+      reason = describeStatus(status);
+    } else if (latency > HEALTH_POLICY.slowLatency) {
+      health = 'degraded';
+      reason = 'Slow responses';
+    }
+
+    return { status: health, latency, averageLatency, checkedAt: Date.now(), reason, isChecking: false };
+  } catch {
+    return { ...state, status: 'offline', reason: 'The server is not responding', checkedAt: Date.now(), isChecking: false };
+  }
+};
+
+export const healthMonitor = {
+  getState: (): HealthState => state,
+
+  subscribe: (listener: Listener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  /**
+   * Ping the backend now. Concurrent calls share one ping.
+   */
+  check: (timeout: number = HEALTH_POLICY.timeout): Promise<HealthState> => {
+    if (!pendingCheck) {
+      clearTimeout(timer);
+      setState({ ...state, isChecking: true });
+      pendingCheck = runCheck(timeout).then((next) => {
+        pendingCheck = null;
+        setState(next);
+        schedule();
+        return next;
+      });
+    }
+    return pendingCheck;
+  },
+
+  /**
+   * Forget the previous backend's results and ping the current one
+   */
+  reset: (): Promise<HealthState> => {
+    samples = [];
+    setState({ ...state, status: 'unknown', latency: null, averageLatency: null, checkedAt: null, reason: null });
+    return healthMonitor.check();
+  },
+
+  /**
+   * First ping of the session, with a long timeout - starts waking a sleeping
+   * backend while the loading screen is still up
+   */
+  prewarm: (): Promise<HealthState> => healthMonitor.check(HEALTH_POLICY.prewarmTimeout),
+
+  /**
+   * Keep checking in the background and react to network/visibility changes.
+   * The first ping is left to prewarm().
+   */
+  start: () => {
+    if (started) return;
+    started = true;
+
+    window.addEventListener('online', () => {
+      healthMonitor.check();
+    });
+    window.addEventListener('offline', () => {
+      setState({ ...state, status: 'offline', reason: 'No network connection', checkedAt: Date.now() });
+      schedule();
+    });
+    document.addEventListener('visibilitychange', () => {
+      const stale = !state.checkedAt || Date.now() - state.checkedAt > HEALTH_POLICY.unhealthyInterval;
+      if (!isDocumentHidden() && stale) healthMonitor.check();
+    });
+
+    // Cold-start retries in the API client mean the server is not healthy yet
+    serverStatus.subscribe(() => {
+      if (serverStatus.getState().wakingUpSince !== null && state.status !== 'degraded') {
+        setState({ ...state, status: 'degraded', reason: 'The server is waking up' });
+        schedule();
+      }
+    });
+
+    schedule();
+  },
+};
+
+export default healthMonitor;
@@ -0,0 +1,118 @@
+// ============================================
+// ISBN - Validation, Normalization and ISBN-10/13 Conversion
+// ============================================
+
+/**
+ * Books are stored with the canonical form: the ISBN-13 without hyphens
+ * ("978-0-306-40615-7" and "0-306-40615-2" both become "9780306406157").
+ * Shared by the form, the import inputs, the API client, search and the mock backend.
+ */
+
+// Optional "ISBN", "ISBN-10:" or "ISBN-13:" label in front of pasted values
+const LABEL = /^ISBN(?:-?1[03])?:?\s*/i;
+
+// Digit groups separated by single hyphens or spaces ("978-0-306-40615-7", "0 306 40615 2")
+const GROUPED = /^[\dX]+(?:[- ][\dX]+)*$/i;
+
+/**
+ * Strip the label, hyphens and spaces - "ISBN 0-306-40615-x" -> "030640615X".
+ * Does not check that the result is an ISBN.
+ */
+export const compactISBN = (value: string): string =>
+  value.trim().replace(LABEL, '').replace(/[\s-]/g, '').toUpperCase();
+
+const isbn10CheckDigit = (first9: string): string => {
+  const sum = [...first9].reduce((total, digit, index) => total + Number(digit) * (10 - index), 0);
+  const check = (11 - (sum % 11)) % 11;
+  return check === 10 ? 'X' : String(check);
+};
+
+const isbn13CheckDigit = (first12: string): string => {
+  const sum = [...first12].reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return String((10 - (sum % 10)) % 10);
+};
+
+/**
+ * ISBN-10 with a valid check digit (hyphens and spaces allowed)
+ */
+export const isValidISBN10 = (value: string): boolean => {
+  const compact = compactISBN(value);
+  return /^\d{9}[\dX]$/.test(compact) && isbn10CheckDigit(compact.slice(0, 9)) === compact[9];
+};
+
+/**
+ * ISBN-13 (978/979 prefix) with a valid check digit (hyphens and spaces allowed)
+ */
+export const isValidISBN13 = (value: string): boolean => {
+  const compact = compactISBN(value);
+  return /^97[89]\d{10}$/.test(compact) && isbn13CheckDigit(compact.slice(0, 12)) === compact[12];
+};
+
+/**
+ * Why a value is not a valid ISBN, or null if it is one
+ */
+export const getISBNError = (value: string): string | null => {
+  const trimmed = value.trim().replace(LABEL, '');
+  if (!trimmed) return 'ISBN is required';
+  if (!GROUPED.test(trimmed)) return 'ISBN can only contain digits, single hyphens or spaces, and a final X';
+
+  const compact = compactISBN(trimmed);
+  if (compact.length !== 10 && compact.length !== 13) {
+    return `ISBN must have 10 or 13 digits (this one has ${compact.length})`;
+  }
+  if (compact.length === 10) {
+    if (!/^\d{9}[\dX]$/.test(compact)) return 'Only the last character of an ISBN-10 can be X';
+    return isValidISBN10(compact) ? null : 'This ISBN-10 has a wrong check digit - check for typos';
+  }
+  if (!/^\d{13}$/.test(compact)) return 'An ISBN-13 can only contain digits';
+  if (!/^97[89]/.test(compact)) return 'An ISBN-13 starts with 978 or 979';
+  return isValidISBN13(compact) ? null : 'This ISBN-13 has a wrong check digit - check for typos';
+};
+
+export const isValidISBN = (value: string): boolean => getISBNError(value) === null;
+
+/**
+ * ISBN-13 for a valid ISBN-10 or ISBN-13, or null
+ */
+export const toISBN13 = (value: string): string | null => {
+  if (!isValidISBN(value)) return null;
+  const compact = compactISBN(value);
+  if (compact.length === 13) return compact;
+  const first12 = `978${compact.slice(0, 9)}`;
+  return first12 + isbn13CheckDigit(first12);
+};
+
+/**
+ * ISBN-10 for a valid ISBN-10 or 978-prefixed ISBN-13, or null (979 ISBNs have no ISBN-10)
+ */
+export const toISBN10 = (value: string): string | null => {
+  if (!isValidISBN(value)) return null;
+  const compact = compactISBN(value);
+  if (compact.length === 10) return compact;
+  if (!compact.startsWith('978')) return null;
+  const first9 = compact.slice(3, 12);
+  return first9 + isbn10CheckDigit(first9);
+};
+
+/**
+ * Canonical form to store and send (ISBN-13, no hyphens), or null if the value is not a valid ISBN
+ */
+export const normalizeISBN = (value: string): string | null => toISBN13(value);
+
+/**
+ * Key to compare ISBNs by - the canonical form, or just the compacted value
+ * for ISBNs that fail validation (so old records still match themselves)
+ */
+export const isbnKey = (value: string): string => normalizeISBN(value) ?? compactISBN(value);
+
+export const isSameISBN = (a: string, b: string): boolean => isbnKey(a) === isbnKey(b);
+
+/**
+ * Search match on an ISBN: the same ISBN in any format, or a part of it typed with or without hyphens
+ */
+export const matchesISBN = (isbn: string | null | undefined, term: string): boolean => {
+  if (!isbn) return false;
+  const compactTerm = compactISBN(term);
+  if (!/^[\dX]+$/.test(compactTerm)) return false;
+  return compactISBN(isbn).includes(compactTerm) || isbnKey(isbn) === isbnKey(term);
+};
@@ -0,0 +1,269 @@
+// ============================================
+// LIVE UPDATES - Catalog Changes Pushed by the Server
+// ============================================
+
+import { backendProfiles, isMockProfile } from './backendProfiles';
+import { entityStore } from './entityStore';
+import type { EntityKind } from './entityStore';
+import { queryCache } from './queryCache';
+import { catalogEventSchema, validateResponse } from './schemas';
+import type { Book, Author, CatalogEvent } from '../types/api';
+
+/**
+ * 'off' = no event stream (not supported, or not started).
+ * 'reconnecting' = the stream dropped - changes made meanwhile are refetched once it is back.
+ */
+export type LiveStatus = 'off' | 'connecting' | 'live' | 'reconnecting';
+
+/**
+ * Last change someone else made to a record, keyed `books:12` / `authors:3`
+ */
+export interface RemoteChange {
+  type: 'updated' | 'deleted';
+  at: number;
+}
+
+export interface LiveUpdatesState {
+  status: LiveStatus;
+  incomingBooks: Book[]; // Created elsewhere, not listed until showIncoming() (no jumping grid)
+  remoteChanges: Record<string, RemoteChange>;
+}
+
+export const LIVE_POLICY = {
+  retryDelays: [5_000, 15_000, 60_000, 300_000], // After the stream was closed for good (e.g. no /events endpoint)
+};
+
+type Listener = () => void;
+
+let state: LiveUpdatesState = {
+  status: 'off',
+  incomingBooks: [],
+  remoteChanges: {},
+};
+
+const listeners = new Set<Listener>();
+
+const setState = (next: LiveUpdatesState) => {
+  state = next;
+  listeners.forEach((listener) => listener());
+};
+
+let disconnect: (() => void) | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | undefined;
+let attempt = 0;
+let started = false;
+
+// ============================================
+// APPLYING EVENTS
+// ============================================
+
+// Fields a user can see - an event that matches them is our own change coming back
+const sameBook = (a: Book, b: Book) =>
+  a.title === b.title &&
+  a.isbn === b.isbn &&
+  a.year === b.year &&
+  a.authorId === b.authorId &&
+  (a.publisherId ?? null) === (b.publisherId ?? null) &&
+  (a.details?.description ?? null) === (b.details?.description ?? null) &&
+  (a.details?.thumbnail ?? null) === (b.details?.thumbnail ?? null);
+
+/**
+ * True if the store already has this version of the record (our own change
+ * echoed back), or a local change to it is still in flight (its own response,
+ * or a 412, settles it)
+ */
+const isKnown = (kind: EntityKind, incoming: Book | Author): boolean => {
+  const store = entityStore.getState();
+  const pending = kind === 'books' ? store.pendingBooks[incoming.id] : store.pendingAuthors[incoming.id];
+  if (pending) return true;
+
+  const current = kind === 'books' ? store.books[incoming.id] : store.authors[incoming.id];
+  if (!current) return false;
+  if (current.version && incoming.version) return current.version === incoming.version;
+  return kind === 'books'
+    ? sameBook(current as Book, incoming as Book)
+    : (current as Author).name === (incoming as Author).name;
+};
+
+const markChanged = (kind: EntityKind, id: number, type: RemoteChange['type']): Record<string, RemoteChange> => ({
+  ...state.remoteChanges,
+  [`${kind}:${id}`]: { type, at: Date.now() },
+});
+
+const applyEvent = (event: CatalogEvent) => {
+  const { type, id, book, author } = event;
+  const store = entityStore.getState();
+
+  switch (type) {
+    case 'book.created':
+      if (!book || store.books[id] || state.incomingBooks.some((incoming) => incoming.id === id)) return;
+      setState({ ...state, incomingBooks: [...state.incomingBooks, book] });
+      return;
+
+    case 'book.updated':
+      if (!book) return;
+      if (state.incomingBooks.some((incoming) => incoming.id === id)) {
+        setState({ ...state, incomingBooks: state.incomingBooks.map((incoming) => (incoming.id === id ? book : incoming)) });
+        return;
+      }
+      if (!store.books[id] || isKnown('books', book)) return;
+      entityStore.upsertBooks([book]);
+      setState({ ...state, remoteChanges: markChanged('books', id, 'updated') });
+      return;
+
+    case 'book.deleted':
+      setState({
+        ...state,
+        incomingBooks: state.incomingBooks.filter((incoming) => incoming.id !== id),
+        remoteChanges: store.books[id] ? markChanged('books', id, 'deleted') : state.remoteChanges,
+      });
+      entityStore.removeBook(id);
+      return;
+
+    case 'author.created':
+    case 'author.updated':
+      if (!author || isKnown('authors', author)) return;
+      entityStore.upsertAuthors([author]);
+      if (type === 'author.updated') {
+        setState({ ...state, remoteChanges: markChanged('authors', id, 'updated') });
+      }
+      return;
+
+    case 'author.deleted':
+      if (!store.authors[id]) return;
+      entityStore.removeAuthor(id);
+      setState({
+        ...state,
+        incomingBooks: state.incomingBooks.filter((incoming) => incoming.authorId !== id),
+        remoteChanges: markChanged('authors', id, 'deleted'),
+      });
+      return;
+  }
+};
+
+/**
+ * One `data:` payload of the stream. Malformed events are reported and dropped.
+ */
+const handleMessage = (data: string) => {
+  try {
+    applyEvent(validateResponse(catalogEventSchema, JSON.parse(data), 'GET /events'));
+  } catch (err) {
+    console.warn('Ignored live event:', err instanceof Error ? err.message : err);
+  }
+};
+
+// ============================================
+// CONNECTION
+// ============================================
+
+const handleOpen = () => {
+  const missedEvents = state.status === 'reconnecting';
+  attempt = 0;
+  setState({ ...state, status: 'live' });
+
+  // Changes made while the stream was down never arrive as events
+  if (missedEvents) {
+    queryCache.invalidate('books');
+    queryCache.invalidate('authors');
+  }
+};
+
+const scheduleRetry = () => {
+  clearTimeout(retryTimer);
+  const delay = LIVE_POLICY.retryDelays[Math.min(attempt, LIVE_POLICY.retryDelays.length - 1)];
+  attempt++;
+  setState({ ...state, status: 'reconnecting' });
+  retryTimer = setTimeout(connect, delay);
+};
+
+function connect() {
+  disconnect?.();
+  disconnect = null;
+
+  const profile = backendProfiles.getActiveProfile();
+
+  // The in-browser mock pushes its events directly (same JSON as the SSE stream)
+  if (isMockProfile(profile)) {
+    let unsubscribe: (() => void) | null = null;
+    let closed = false;
+    import('./mockBackend').then(({ subscribeMockEvents }) => {
+      if (closed) return;
+      unsubscribe = subscribeMockEvents(handleMessage);
+      handleOpen();
+    });
+    disconnect = () => {
+      closed = true;
+      unsubscribe?.();
+    };
+    return;
+  }
+
+  if (typeof EventSource === 'undefined') {
+    setState({ ...state, status: 'off' });
+    return;
+  }
+
+  const source = new EventSource(`${profile.baseUrl}/events`);
+  source.onopen = handleOpen;
+  source.onmessage = (event: MessageEvent<string>) => handleMessage(event.data);
+  source.onerror = () => {
+    if (source.readyState === EventSource.CLOSED) {
+      // The browser gave up (no /events endpoint, or not an event stream) - retry slowly
+      source.close();
+      disconnect = null;
+      scheduleRetry();
+    } else if (state.status !== 'reconnecting') {
+      // The browser reconnects by itself
+      setState({ ...state, status: 'reconnecting' });
+    }
+  };
+  disconnect = () => source.close();
+}
+
+export const liveUpdates = {
+  getState: (): LiveUpdatesState => state,
+
+  subscribe: (listener: Listener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  /**
+   * Put the books created elsewhere into the catalog and refetch its pages,
+   * so they show up in their sorted place
+   */
+  showIncoming: () => {
+    if (state.incomingBooks.length === 0) return;
+    const { books } = entityStore.getState();
+    entityStore.upsertBooks(state.incomingBooks.filter((book) => !books[book.id]));
+    setState({ ...state, incomingBooks: [] });
+    queryCache.invalidate('books');
+  },
+
+  /**
+   * Connect to the active backend's event stream, and reconnect whenever
+   * another backend profile becomes active
+   */
+  start: () => {
+    if (started) return;
+    started = true;
+
+    let baseUrl = backendProfiles.getActiveProfile().baseUrl;
+    backendProfiles.subscribe(() => {
+      const next = backendProfiles.getActiveProfile().baseUrl;
+      if (next === baseUrl) return;
+      baseUrl = next;
+      clearTimeout(retryTimer);
+      attempt = 0;
+      setState({ status: 'connecting', incomingBooks: [], remoteChanges: {} });
+      connect();
+    });
+
+    setState({ ...state, status: 'connecting' });
+    connect();
+  },
+};
+
+export default liveUpdates;
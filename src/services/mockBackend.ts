@@ -0,0 +1,797 @@
+// ============================================
+// MOCK BACKEND - In-Browser Axios Adapter
+// ============================================
+
+import { AxiosError, AxiosHeaders, CanceledError } from 'axios';
+import type { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import type { Book, Author, Publisher, BookSearchResult, AuthResponse, CatalogEvent } from '../types/api';
+import { createSeedDatabase, MOCK_CATALOG, MOCK_USERS } from './mockData';
+import type { MockUserRow } from './mockData';
+import { pageBooks, DEFAULT_PAGE_SIZE } from './bookQuery';
+import { isbnKey, isValidISBN } from './isbn';
+import type { MockBookRow, MockDatabase } from './mockData';
+
+/**
+ * Behaviour knobs, read from the environment:
+ * - VITE_MOCK_LATENCY_MIN / VITE_MOCK_LATENCY_MAX: response delay range in ms
+ * - VITE_MOCK_ERROR_RATE: share of requests (0-1) that fail with a random 500/503
+ * - VITE_MOCK_COLD_START: ms after page load during which every request gets a 503,
+ *   like a sleeping Render instance
+ * - VITE_MOCK_TOKEN_TTL: access token lifetime in seconds (short values exercise refresh)
+ * - VITE_MOCK_BULK_BOOKS: number of generated books added to the seed data (exercises paging)
+ * - VITE_MOCK_LIVE_INTERVAL: ms between simulated edits by another librarian, pushed
+ *   as live events (0 = off)
+ */
+export const MOCK_CONFIG = {
+  minLatency: Number(import.meta.env.VITE_MOCK_LATENCY_MIN ?? 150),
+  maxLatency: Number(import.meta.env.VITE_MOCK_LATENCY_MAX ?? 600),
+  errorRate: Number(import.meta.env.VITE_MOCK_ERROR_RATE ?? 0),
+  coldStartMs: Number(import.meta.env.VITE_MOCK_COLD_START ?? 0),
+  tokenTtl: Number(import.meta.env.VITE_MOCK_TOKEN_TTL ?? 900),
+  bulkBooks: Number(import.meta.env.VITE_MOCK_BULK_BOOKS ?? 0),
+  liveInterval: Number(import.meta.env.VITE_MOCK_LIVE_INTERVAL ?? 45_000),
+};
+
+const startedAt = Date.now();
+
+let db: MockDatabase = createSeedDatabase(MOCK_CONFIG.bulkBooks);
+
+interface MockRequest {
+  params: string[]; // Captured route segments
+  query: Record<string, unknown>;
+  body: Record<string, unknown>;
+  ifMatch: string | null; // If-Match header, for optimistic concurrency on updates
+}
+
+interface MockResult {
+  status: number;
+  data?: unknown;
+  headers?: Record<string, string>;
+}
+
+type RouteHandler = (request: MockRequest) => MockResult;
+
+// ============================================
+// RESPONSE HELPERS
+// ============================================
+
+const ok = (data: unknown, status = 200): MockResult => ({ status, data });
+
+const noContent = (): MockResult => ({ status: 204 });
+
+/**
+ * Single-record response carrying the row version as its ETag
+ */
+const versioned = (data: unknown, version = 1, status = 200): MockResult => ({
+  status,
+  data,
+  headers: { etag: `"${version}"` },
+});
+
+/**
+ * ASP.NET Core style ProblemDetails error (optionally with an `errors` map naming the fields at fault)
+ */
+const problem = (status: number, title: string, detail?: string, errors?: Record<string, string[]>): MockResult => ({
+  status,
+  data: { type: `https://httpstatuses.io/${status}`, title, status, ...(detail ? { detail } : {}), ...(errors ? { errors } : {}) },
+});
+
+/**
+ * ASP.NET Core style model validation error (400 with an `errors` map)
+ */
+const validationProblem = (errors: Record<string, string[]>): MockResult => ({
+  status: 400,
+  data: {
+    type: 'https://tools.ietf.org/html/rfc9110#section-15.5.1',
+    title: 'One or more validation errors occurred.',
+    status: 400,
+    errors,
+  },
+});
+
+/**
+ * 412 if the client sent an If-Match for an older version of the row
+ * (a missing If-Match means last write wins, like before versions existed)
+ */
+const checkVersion = (ifMatch: string | null, version = 1): MockResult | null => {
+  if (!ifMatch || ifMatch.trim() === '*') return null;
+  if (ifMatch.replace(/^W\//, '').replace(/"/g, '').trim() === String(version)) return null;
+  return problem(412, 'Precondition Failed', 'The record was changed by someone else since you loaded it.');
+};
+
+const nextId = (rows: { id: number }[]) => rows.reduce((max, row) => Math.max(max, row.id), 0) + 1;
+
+// ============================================
+// ROW -> RESPONSE MAPPING (mirrors the .NET DTOs)
+// ============================================
+
+const toBookResponse = (row: MockBookRow): Book => {
+  const author = db.authors.find((a) => a.id === row.authorId);
+  const publisher = db.publishers.find((p) => p.id === row.publisherId);
+  const hasDetails = row.description !== null || row.thumbnail !== null || row.smallThumbnail !== null;
+
+  return {
+    id: row.id,
+    title: row.title,
+    isbn: row.isbn,
+    year: row.year,
+    authorId: row.authorId,
+    publisherId: row.publisherId,
+    author: { id: row.authorId, name: author?.name || 'Unknown Author' },
+    publisher: publisher ? { ...publisher } : null,
+    details: hasDetails
+      ? {
+          id: row.id,
+          bookId: row.id,
+          description: row.description,
+          smallThumbnail: row.smallThumbnail,
+          thumbnail: row.thumbnail,
+        }
+      : null,
+    version: String(row.version ?? 1),
+  };
+};
+
+const toAuthorResponse = (id: number, name: string, version = 1): Author => ({
+  id,
+  name,
+  version: String(version),
+  books: db.books
+    .filter((book) => book.authorId === id)
+    .map(({ id: bookId, title, isbn, year, authorId, publisherId }) => ({
+      id: bookId,
+      title,
+      isbn,
+      year,
+      authorId,
+      publisherId,
+    }) as Book),
+});
+
+const toPublisherResponse = (id: number, name: string): Publisher => ({
+  id,
+  name,
+  books: db.books
+    .filter((book) => book.publisherId === id)
+    .map(({ id: bookId, title, isbn, year, authorId, publisherId }) => ({
+      id: bookId,
+      title,
+      isbn,
+      year,
+      authorId,
+      publisherId,
+    }) as Book),
+});
+
+// ============================================
+// VALIDATION
+// ============================================
+
+const readString = (body: Record<string, unknown>, field: string): string | null => {
+  const value = body[field];
+  return typeof value === 'string' ? value : null;
+};
+
+const readNumber = (body: Record<string, unknown>, field: string): number | null => {
+  const value = body[field];
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+};
+
+type ParsedBook = { fields: Omit<MockBookRow, 'id'>; error?: undefined } | { fields?: undefined; error: MockResult };
+
+/**
+ * Validate a create/update book body the way the backend does.
+ * Returns the row fields, or the 400/404/409 result to send instead.
+ */
+const parseBookBody = (body: Record<string, unknown>, existingId?: number): ParsedBook => {
+  const errors: Record<string, string[]> = {};
+  const title = readString(body, 'title')?.trim() || '';
+  const isbn = readString(body, 'isbn')?.trim() || '';
+  const year = readNumber(body, 'year');
+  const authorId = readNumber(body, 'authorId');
+
+  if (!title) errors.Title = ['The Title field is required.'];
+  if (!isbn) errors.Isbn = ['The Isbn field is required.'];
+  else if (!isValidISBN(isbn)) errors.Isbn = ['The Isbn field is not a valid ISBN-10 or ISBN-13.'];
+  if (year === null) errors.Year = ['The Year field is required.'];
+  else if (year < 1 || year > 2100) errors.Year = ['The field Year must be between 1 and 2100.'];
+  if (authorId === null) errors.AuthorId = ['The AuthorId field is required.'];
+  if (Object.keys(errors).length > 0) return { error: validationProblem(errors) };
+
+  if (!db.authors.some((author) => author.id === authorId)) {
+    return { error: problem(404, 'Not Found', `Author with ID ${authorId} was not found.`) };
+  }
+
+  const publisherId = readNumber(body, 'publisherId');
+  if (publisherId !== null && !db.publishers.some((publisher) => publisher.id === publisherId)) {
+    return { error: problem(404, 'Not Found', `Publisher with ID ${publisherId} was not found.`) };
+  }
+
+  const duplicate = db.books.find(
+    (book) => book.id !== existingId && isbnKey(book.isbn) === isbnKey(isbn)
+  );
+  if (duplicate) {
+    const message = `A book with ISBN ${isbn} already exists.`;
+    return { error: problem(409, 'Conflict', message, { Isbn: [message] }) };
+  }
+
+  const fields = {
+    title,
+    isbn,
+    year: year as number,
+    authorId: authorId as number,
+    publisherId,
+    description: readString(body, 'description'),
+    smallThumbnail: readString(body, 'smallThumbnail'),
+    thumbnail: readString(body, 'thumbnail'),
+  };
+  return { fields };
+};
+
+// ============================================
+// AUTH (self-describing tokens, so a reload keeps the session valid)
+// ============================================
+
+// Refresh tokens are single-use - a reused one is rejected
+const usedRefreshTokens = new Set<string>();
+
+const randomPart = () => Math.random().toString(36).slice(2, 12);
+
+const issueTokens = (user: MockUserRow): AuthResponse => ({
+  accessToken: `mock-access.${user.id}.${Date.now() + MOCK_CONFIG.tokenTtl * 1000}.${randomPart()}`,
+  refreshToken: `mock-refresh.${user.id}.${randomPart()}`,
+  expiresIn: MOCK_CONFIG.tokenTtl,
+  user: { id: user.id, username: user.username, displayName: user.displayName },
+});
+
+/**
+ * User behind a valid, unexpired Bearer token (null if missing or invalid)
+ */
+const authenticate = (config: InternalAxiosRequestConfig): MockUserRow | null => {
+  const header = String(config.headers?.Authorization || '');
+  const [kind, userId, expiresAt] = header.replace(/^Bearer /, '').split('.');
+  if (kind !== 'mock-access' || Number(expiresAt) < Date.now()) return null;
+  return MOCK_USERS.find((user) => user.id === Number(userId)) || null;
+};
+
+const findRefreshUser = (token: string): MockUserRow | null => {
+  const [kind, userId] = token.split('.');
+  if (kind !== 'mock-refresh' || usedRefreshTokens.has(token)) return null;
+  return MOCK_USERS.find((user) => user.id === Number(userId)) || null;
+};
+
+// ============================================
+// ROUTE HANDLERS
+// ============================================
+
+const findBook = (id: string) => db.books.find((book) => book.id === Number(id));
+
+const findOrCreateAuthor = (name: string) => {
+  const existing = db.authors.find((author) => author.name.toLowerCase() === name.toLowerCase());
+  if (existing) return existing;
+  const author = { id: nextId(db.authors), name };
+  db.authors.push(author);
+  return author;
+};
+
+const findOrCreatePublisher = (name: string) => {
+  const existing = db.publishers.find((publisher) => publisher.name.toLowerCase() === name.toLowerCase());
+  if (existing) return existing;
+  const publisher = { id: nextId(db.publishers), name };
+  db.publishers.push(publisher);
+  return publisher;
+};
+
+/**
+ * Add a Google Books catalog entry to the library (with its author and publisher)
+ */
+const insertCatalogBook = (entry: BookSearchResult, isbn: string): MockBookRow => {
+  const author = findOrCreateAuthor(entry.authors[0] || 'Unknown Author');
+  const publisher = entry.publisher ? findOrCreatePublisher(entry.publisher) : null;
+  const book: MockBookRow = {
+    id: nextId(db.books),
+    title: entry.title,
+    isbn: entry.isbn || isbn,
+    year: entry.year || new Date().getFullYear(),
+    authorId: author.id,
+    publisherId: publisher?.id ?? null,
+    description: entry.description ?? null,
+    smallThumbnail: entry.thumbnail ?? null,
+    thumbnail: entry.thumbnail ?? null,
+  };
+  db.books.push(book);
+  return book;
+};
+
+const routes: { method: string; pattern: RegExp; handler: RouteHandler }[] = [
+  // ---------- Health ----------
+  {
+    method: 'get',
+    pattern: /^\/health$/,
+    handler: () => ok({ status: 'Healthy' }),
+  },
+
+  // ---------- Auth ----------
+  {
+    method: 'post',
+    pattern: /^\/auth\/login$/,
+    handler: ({ body }) => {
+      const username = readString(body, 'username')?.trim().toLowerCase();
+      const password = readString(body, 'password');
+      const user = MOCK_USERS.find((row) => row.username === username && row.password === password);
+      return user ? ok(issueTokens(user)) : problem(401, 'Unauthorized', 'Invalid username or password.');
+    },
+  },
+  {
+    method: 'post',
+    pattern: /^\/auth\/refresh$/,
+    handler: ({ body }) => {
+      const refreshToken = readString(body, 'refreshToken') || '';
+      const user = findRefreshUser(refreshToken);
+      if (!user) return problem(401, 'Unauthorized', 'The refresh token is invalid or has already been used.');
+
+      usedRefreshTokens.add(refreshToken);
+      return ok(issueTokens(user));
+    },
+  },
+  {
+    method: 'post',
+    pattern: /^\/auth\/logout$/,
+    handler: ({ body }) => {
+      const refreshToken = readString(body, 'refreshToken');
+      if (refreshToken) usedRefreshTokens.add(refreshToken);
+      return noContent();
+    },
+  },
+
+  // ---------- Books ----------
+  {
+    method: 'get',
+    pattern: /^\/books$/,
+    handler: ({ query }) => {
+      const books = db.books.map(toBookResponse);
+      if (query.page === undefined) return ok(books); // Unpaged, like the original endpoint
+
+      const page = Math.max(1, Number(query.page) || 1);
+      const pageSize = Math.min(100, Math.max(1, Number(query.pageSize) || DEFAULT_PAGE_SIZE));
+      const sortBy = (['title', 'year', 'id'] as const).find((field) => field === query.sortBy) || 'title';
+      const sortOrder = query.sortOrder === 'desc' ? 'desc' : 'asc';
+      const search = typeof query.search === 'string' ? query.search : undefined;
+      return ok(pageBooks(books, { page, pageSize, search, sortBy, sortOrder }));
+    },
+  },
+  {
+    method: 'get',
+    pattern: /^\/books\/search$/,
+    handler: ({ query }) => {
+      const title = typeof query.title === 'string' ? query.title.trim().toLowerCase() : '';
+      if (!title) return validationProblem({ title: ['The title query parameter is required.'] });
+
+      const maxResults = Math.min(Number(query.maxResults) || 10, 40);
+      const results: BookSearchResult[] = MOCK_CATALOG.filter((entry) =>
+        entry.title.toLowerCase().includes(title)
+      ).slice(0, maxResults);
+      return ok(results);
+    },
+  },
+  {
+    method: 'get',
+    pattern: /^\/books\/isbn\/([^/]+)$/,
+    handler: ({ params: [isbn] }) => {
+      const book = db.books.find((row) => isbnKey(row.isbn) === isbnKey(isbn));
+      return book ? ok(toBookResponse(book)) : problem(404, 'Not Found', `Book with ISBN ${isbn} was not found.`);
+    },
+  },
+  {
+    method: 'get',
+    pattern: /^\/books\/(\d+)$/,
+    handler: ({ params: [id] }) => {
+      const book = findBook(id);
+      return book
+        ? versioned(toBookResponse(book), book.version)
+        : problem(404, 'Not Found', `Book with ID ${id} was not found.`);
+    },
+  },
+  {
+    method: 'post',
+    pattern: /^\/books$/,
+    handler: ({ body }) => {
+      const { fields, error } = parseBookBody(body);
+      if (error) return error;
+
+      const book = { id: nextId(db.books), ...fields };
+      db.books.push(book);
+      return ok(toBookResponse(book), 201);
+    },
+  },
+  {
+    method: 'post',
+    pattern: /^\/books\/import\/isbn\/([^/]+)$/,
+    handler: ({ params: [isbn] }) => {
+      const normalized = isbnKey(isbn);
+      if (db.books.some((book) => isbnKey(book.isbn) === normalized)) {
+        return problem(409, 'Conflict', `A book with ISBN ${isbn} already exists.`);
+      }
+
+      const entry = MOCK_CATALOG.find((item) => item.isbn && isbnKey(item.isbn) === normalized);
+      if (!entry) {
+        return problem(404, 'Not Found', `No book found on Google Books for ISBN ${isbn}.`);
+      }
+
+      return ok(toBookResponse(insertCatalogBook(entry, isbn)), 201);
+    },
+  },
+  {
+    method: 'put',
+    pattern: /^\/books\/(\d+)$/,
+    handler: ({ params: [id], body, ifMatch }) => {
+      const book = findBook(id);
+      if (!book) return problem(404, 'Not Found', `Book with ID ${id} was not found.`);
+
+      const stale = checkVersion(ifMatch, book.version);
+      if (stale) return stale;
+
+      const { fields, error } = parseBookBody(body, book.id);
+      if (error) return error;
+
+      Object.assign(book, fields, { version: (book.version ?? 1) + 1 });
+      return versioned(toBookResponse(book), book.version);
+    },
+  },
+  {
+    method: 'delete',
+    pattern: /^\/books\/(\d+)$/,
+    handler: ({ params: [id] }) => {
+      if (!findBook(id)) return problem(404, 'Not Found', `Book with ID ${id} was not found.`);
+      db.books = db.books.filter((book) => book.id !== Number(id));
+      return noContent();
+    },
+  },
+
+  // ---------- Authors ----------
+  {
+    method: 'get',
+    pattern: /^\/authors$/,
+    handler: () => ok(db.authors.map((author) => toAuthorResponse(author.id, author.name, author.version))),
+  },
+  {
+    method: 'get',
+    pattern: /^\/authors\/(\d+)$/,
+    handler: ({ params: [id] }) => {
+      const author = db.authors.find((row) => row.id === Number(id));
+      return author
+        ? versioned(toAuthorResponse(author.id, author.name, author.version), author.version)
+        : problem(404, 'Not Found', `Author with ID ${id} was not found.`);
+    },
+  },
+  {
+    method: 'post',
+    pattern: /^\/authors$/,
+    handler: ({ body }) => {
+      const name = readString(body, 'name')?.trim();
+      if (!name) return validationProblem({ Name: ['The Name field is required.'] });
+
+      const author = { id: nextId(db.authors), name };
+      db.authors.push(author);
+      return ok(toAuthorResponse(author.id, author.name), 201);
+    },
+  },
+  {
+    method: 'put',
+    pattern: /^\/authors\/(\d+)$/,
+    handler: ({ params: [id], body, ifMatch }) => {
+      const author = db.authors.find((row) => row.id === Number(id));
+      if (!author) return problem(404, 'Not Found', `Author with ID ${id} was not found.`);
+
+      const stale = checkVersion(ifMatch, author.version);
+      if (stale) return stale;
+
+      const name = readString(body, 'name')?.trim();
+      if (!name) return validationProblem({ Name: ['The Name field is required.'] });
+
+      author.name = name;
+      author.version = (author.version ?? 1) + 1;
+      return versioned(toAuthorResponse(author.id, author.name, author.version), author.version);
+    },
+  },
+  {
+    method: 'delete',
+    pattern: /^\/authors\/(\d+)$/,
+    handler: ({ params: [id] }) => {
+      const authorId = Number(id);
+      if (!db.authors.some((author) => author.id === authorId)) {
+        return problem(404, 'Not Found', `Author with ID ${id} was not found.`);
+      }
+      // Cascade delete, like the EF Core relationship on the backend
+      db.authors = db.authors.filter((author) => author.id !== authorId);
+      db.books = db.books.filter((book) => book.authorId !== authorId);
+      return noContent();
+    },
+  },
+
+  // ---------- Publishers ----------
+  {
+    method: 'get',
+    pattern: /^\/publishers$/,
+    handler: () => ok(db.publishers.map((publisher) => toPublisherResponse(publisher.id, publisher.name))),
+  },
+  {
+    method: 'get',
+    pattern: /^\/publishers\/(\d+)$/,
+    handler: ({ params: [id] }) => {
+      const publisher = db.publishers.find((row) => row.id === Number(id));
+      return publisher
+        ? ok(toPublisherResponse(publisher.id, publisher.name))
+        : problem(404, 'Not Found', `Publisher with ID ${id} was not found.`);
+    },
+  },
+  {
+    method: 'post',
+    pattern: /^\/publishers$/,
+    handler: ({ body }) => {
+      const name = readString(body, 'name')?.trim();
+      if (!name) return validationProblem({ Name: ['The Name field is required.'] });
+      if (db.publishers.some((row) => row.name.toLowerCase() === name.toLowerCase())) {
+        const message = `A publisher named "${name}" already exists.`;
+        return problem(409, 'Conflict', message, { Name: [message] });
+      }
+
+      const publisher = { id: nextId(db.publishers), name };
+      db.publishers.push(publisher);
+      return ok(toPublisherResponse(publisher.id, publisher.name), 201);
+    },
+  },
+  {
+    method: 'put',
+    pattern: /^\/publishers\/(\d+)$/,
+    handler: ({ params: [id], body }) => {
+      const publisher = db.publishers.find((row) => row.id === Number(id));
+      if (!publisher) return problem(404, 'Not Found', `Publisher with ID ${id} was not found.`);
+
+      const name = readString(body, 'name')?.trim();
+      if (!name) return validationProblem({ Name: ['The Name field is required.'] });
+      if (db.publishers.some((row) => row.id !== publisher.id && row.name.toLowerCase() === name.toLowerCase())) {
+        const message = `A publisher named "${name}" already exists.`;
+        return problem(409, 'Conflict', message, { Name: [message] });
+      }
+
+      publisher.name = name;
+      return ok(toPublisherResponse(publisher.id, publisher.name));
+    },
+  },
+  {
+    method: 'delete',
+    pattern: /^\/publishers\/(\d+)$/,
+    handler: ({ params: [id] }) => {
+      const publisherId = Number(id);
+      if (!db.publishers.some((publisher) => publisher.id === publisherId)) {
+        return problem(404, 'Not Found', `Publisher with ID ${id} was not found.`);
+      }
+      // Books are kept without a publisher (optional relationship, SET NULL on delete)
+      db.publishers = db.publishers.filter((publisher) => publisher.id !== publisherId);
+      db.books = db.books.map((book) => (book.publisherId === publisherId ? { ...book, publisherId: null } : book));
+      return noContent();
+    },
+  },
+];
+
+// ============================================
+// REQUEST PIPELINE
+// ============================================
+
+const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  201: 'Created',
+  204: 'No Content',
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  404: 'Not Found',
+  405: 'Method Not Allowed',
+  409: 'Conflict',
+  412: 'Precondition Failed',
+  500: 'Internal Server Error',
+  503: 'Service Unavailable',
+};
+
+const randomLatency = () =>
+  MOCK_CONFIG.minLatency + Math.random() * Math.max(0, MOCK_CONFIG.maxLatency - MOCK_CONFIG.minLatency);
+
+/**
+ * Wait like a network round-trip would, rejecting as soon as the caller aborts
+ */
+const simulateLatency = (config: InternalAxiosRequestConfig) =>
+  new Promise<void>((resolve, reject) => {
+    const { signal } = config;
+    const cancel = () => reject(new CanceledError(undefined, undefined, config));
+    if (signal?.aborted) return cancel();
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      cancel();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener?.('abort', onAbort);
+      resolve();
+    }, randomLatency());
+    signal?.addEventListener?.('abort', onAbort);
+  });
+
+// Relative path the route table matches against (baseURL and query string stripped)
+const getPath = (config: InternalAxiosRequestConfig) => {
+  const url = config.url || '';
+  const withoutBase = config.baseURL && url.startsWith(config.baseURL) ? url.slice(config.baseURL.length) : url;
+  const [path, search] = withoutBase.split('?');
+  return { path: `/${path.replace(/^\/+|\/+$/g, '')}`, search: new URLSearchParams(search) };
+};
+
+const parseBody = (data: unknown): Record<string, unknown> => {
+  if (typeof data === 'string' && data) {
+    try {
+      return JSON.parse(data);
+    } catch {
+      return {};
+    }
+  }
+  return data && typeof data === 'object' ? (data as Record<string, unknown>) : {};
+};
+
+// ============================================
+// LIVE EVENTS (stand-in for GET /events)
+// ============================================
+
+type EventListener = (data: string) => void;
+
+const eventListeners = new Set<EventListener>();
+let activityTimer: ReturnType<typeof setInterval> | undefined;
+
+// Delivered a little later, like a push from the server (may arrive before or after the response)
+const publish = (event: CatalogEvent) => {
+  const data = JSON.stringify({ ...event, occurredAt: new Date().toISOString() });
+  setTimeout(() => eventListeners.forEach((listener) => listener(data)), randomLatency());
+};
+
+const CATALOG_PATH = /^\/(books|authors)(?:\/(\d+)|\/import\/isbn\/[^/]+)?$/;
+const EVENT_ACTIONS: Record<string, 'created' | 'updated' | 'deleted'> = { post: 'created', put: 'updated', delete: 'deleted' };
+
+/**
+ * The event a successful book/author write is announced with
+ */
+const toCatalogEvent = (method: string, path: string, data: unknown): CatalogEvent | null => {
+  const match = CATALOG_PATH.exec(path);
+  const action = EVENT_ACTIONS[method];
+  if (!match || !action) return null;
+
+  const record = action === 'deleted' ? undefined : (data as Book | Author);
+  const id = match[2] ? Number(match[2]) : record?.id;
+  if (!id) return null;
+
+  return match[1] === 'books'
+    ? { type: `book.${action}`, id, book: record as Book | undefined }
+    : { type: `author.${action}`, id, author: record as Author | undefined };
+};
+
+/**
+ * Another librarian at work: adds a catalog book that is not in the library
+ * yet, or corrects the year of an existing one
+ */
+const simulateActivity = () => {
+  const missing = MOCK_CATALOG.filter(
+    (entry) => entry.isbn && !db.books.some((book) => isbnKey(book.isbn) === isbnKey(entry.isbn as string))
+  );
+
+  if (missing.length > 0 && Math.random() < 0.5) {
+    const entry = missing[Math.floor(Math.random() * missing.length)];
+    const book = insertCatalogBook(entry, entry.isbn as string);
+    publish({ type: 'book.created', id: book.id, book: toBookResponse(book) });
+    return;
+  }
+
+  const book = db.books[Math.floor(Math.random() * db.books.length)];
+  if (!book) return;
+  book.year += Math.random() < 0.5 ? 1 : -1;
+  book.version = (book.version ?? 1) + 1;
+  publish({ type: 'book.updated', id: book.id, book: toBookResponse(book) });
+};
+
+/**
+ * Receive live events (JSON text, like SSE `data:`) - the simulated activity
+ * runs while anyone is listening. Returns the unsubscribe function.
+ */
+export const subscribeMockEvents = (listener: EventListener): (() => void) => {
+  eventListeners.add(listener);
+  if (!activityTimer && MOCK_CONFIG.liveInterval > 0) {
+    activityTimer = setInterval(simulateActivity, MOCK_CONFIG.liveInterval);
+  }
+
+  return () => {
+    eventListeners.delete(listener);
+    if (eventListeners.size === 0) {
+      clearInterval(activityTimer);
+      activityTimer = undefined;
+    }
+  };
+};
+
+/**
+ * Route a request to its handler, applying cold-start and error injection first
+ */
+const handle = (config: InternalAxiosRequestConfig): MockResult => {
+  if (MOCK_CONFIG.coldStartMs > 0 && Date.now() - startedAt < MOCK_CONFIG.coldStartMs) {
+    return problem(503, 'Service Unavailable', 'The mock server is still waking up.');
+  }
+
+  if (Math.random() < MOCK_CONFIG.errorRate) {
+    return Math.random() < 0.5
+      ? problem(500, 'Internal Server Error', 'Injected failure from the mock backend.')
+      : problem(503, 'Service Unavailable', 'Injected failure from the mock backend.');
+  }
+
+  const method = (config.method || 'get').toLowerCase();
+  const { path, search } = getPath(config);
+  const matching = routes.filter((route) => route.pattern.test(path));
+
+  if (matching.length === 0) {
+    return problem(404, 'Not Found', `No mock route for ${path}.`);
+  }
+
+  const route = matching.find((candidate) => candidate.method === method);
+  if (!route) {
+    return problem(405, 'Method Not Allowed', `${method.toUpperCase()} is not supported on ${path}.`);
+  }
+
+  // Reads are public, every write needs a signed-in user
+  if (method !== 'get' && !path.startsWith('/auth/') && !authenticate(config)) {
+    return problem(401, 'Unauthorized', 'Sign in to make changes.');
+  }
+
+  const params = route.pattern.exec(path)?.slice(1).map(decodeURIComponent) || [];
+  const query = { ...Object.fromEntries(search), ...(config.params || {}) };
+  const ifMatch = config.headers?.['If-Match'];
+  const result = route.handler({ params, query, body: parseBody(config.data), ifMatch: ifMatch ? String(ifMatch) : null });
+
+  const event = result.status < 300 ? toCatalogEvent(method, path, result.data) : null;
+  if (event) publish(event);
+  return result;
+};
+
+/**
+ * Axios adapter that serves every endpoint the client uses from an in-memory
+ * dataset. Responses go through the normal interceptors (retry, logging).
+ */
+export const mockAdapter = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+  await simulateLatency(config);
+
+  const { status, data, headers } = handle(config);
+  const response: AxiosResponse = {
+    // Serialized like a real response, so callers never share objects with the mock database
+    data: data === undefined ? '' : JSON.stringify(data),
+    status,
+    statusText: STATUS_TEXT[status] || '',
+    headers: new AxiosHeaders({
+      ...(data === undefined ? {} : { 'content-type': 'application/json; charset=utf-8' }),
+      ...headers,
+    }),
+    config,
+    request: { responseURL: config.url },
+  };
+
+  const validateStatus = config.validateStatus || ((code: number) => code >= 200 && code < 300);
+  if (validateStatus(status)) {
+    return response;
+  }
+
+  throw new AxiosError(
+    `Request failed with status code ${status}`,
+    status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+    config,
+    response.request,
+    response
+  );
+};
+
+/**
+ * Restore the seed dataset
+ */
+export const resetMockDatabase = () => {
+  db = createSeedDatabase(MOCK_CONFIG.bulkBooks);
+};
@@ -0,0 +1,245 @@
+// ============================================
+// MOCK DATA - Seed Dataset for the Mock Backend
+// ============================================
+
+import type { BookSearchResult } from '../types/api';
+
+/**
+ * Rows as the mock backend stores them (flat, like the .NET database tables).
+ * Responses are built from these by joining author/publisher/details.
+ */
+export interface MockAuthorRow {
+  id: number;
+  name: string;
+  version?: number; // Bumped on every update, sent as the ETag (1 if never updated)
+}
+
+export interface MockPublisherRow {
+  id: number;
+  name: string;
+}
+
+export interface MockBookRow {
+  id: number;
+  title: string;
+  isbn: string;
+  year: number;
+  authorId: number;
+  publisherId: number | null;
+  description: string | null;
+  smallThumbnail: string | null;
+  thumbnail: string | null;
+  version?: number; // Bumped on every update, sent as the ETag (1 if never updated)
+}
+
+export interface MockDatabase {
+  authors: MockAuthorRow[];
+  publishers: MockPublisherRow[];
+  books: MockBookRow[];
+}
+
+export interface MockUserRow {
+  id: number;
+  username: string;
+  password: string;
+  displayName: string;
+}
+
+// ============================================
+// DEMO ACCOUNTS (POST /auth/login)
+// ============================================
+
+export const MOCK_USERS: MockUserRow[] = [
+  { id: 1, username: 'librarian', password: 'library', displayName: 'Librarian' },
+];
+
+// ============================================
+// SEEDED LIBRARY (what GET /books returns on first load)
+// ============================================
+
+const SEED_AUTHORS: MockAuthorRow[] = [
+  { id: 1, name: 'J.R.R. Tolkien' },
+  { id: 2, name: 'George Orwell' },
+  { id: 3, name: 'Frank Herbert' },
+  { id: 4, name: 'Isaac Asimov' },
+  { id: 5, name: 'Jane Austen' },
+  { id: 6, name: 'Brandon Sanderson' },
+];
+
+const SEED_PUBLISHERS: MockPublisherRow[] = [
+  { id: 1, name: 'Mariner Books' },
+  { id: 2, name: 'Signet Classics' },
+  { id: 3, name: 'Ace' },
+  { id: 4, name: 'Bantam Spectra' },
+  { id: 5, name: 'Penguin Classics' },
+  { id: 6, name: 'Tor Books' },
+];
+
+const SEED_BOOKS: MockBookRow[] = [
+  {
+    id: 1,
+    title: 'The Hobbit',
+    isbn: '9780547928227',
+    year: 1937,
+    authorId: 1,
+    publisherId: 1,
+    description: 'Bilbo Baggins is swept into a quest to reclaim the lost Dwarf Kingdom of Erebor from the dragon Smaug.',
+    smallThumbnail: null,
+    thumbnail: null,
+  },
+  {
+    id: 2,
+    title: 'The Lord of the Rings',
+    isbn: '9780618640157',
+    year: 1954,
+    authorId: 1,
+    publisherId: 1,
+    description: 'The Fellowship sets out to destroy the One Ring before the Dark Lord Sauron can reclaim it.',
+    smallThumbnail: null,
+    thumbnail: null,
+  },
+  {
+    id: 3,
+    title: '1984',
+    isbn: '9780451524935',
+    year: 1949,
+    authorId: 2,
+    publisherId: 2,
+    description: 'Winston Smith works for the Ministry of Truth in a world of perpetual war and omnipresent surveillance.',
+    smallThumbnail: null,
+    thumbnail: null,
+  },
+  {
+    id: 4,
+    title: 'Animal Farm',
+    isbn: '9780452284241',
+    year: 1945,
+    authorId: 2,
+    publisherId: null,
+    description: null,
+    smallThumbnail: null,
+    thumbnail: null,
+  },
+  {
+    id: 5,
+    title: 'Dune',
+    isbn: '9780441172719',
+    year: 1965,
+    authorId: 3,
+    publisherId: 3,
+    description: 'On the desert planet Arrakis, Paul Atreides is caught in a struggle for the most precious substance in the universe.',
+    smallThumbnail: null,
+    thumbnail: null,
+  },
+  {
+    id: 6,
+    title: 'Foundation',
+    isbn: '9780553293357',
+    year: 1951,
+    authorId: 4,
+    publisherId: 4,
+    description: 'Hari Seldon foresees the fall of the Galactic Empire and gathers scientists to shorten the dark age that follows.',
+    smallThumbnail: null,
+    thumbnail: null,
+  },
+  {
+    id: 7,
+    title: 'I, Robot',
+    isbn: '9780553382563',
+    year: 1950,
+    authorId: 4,
+    publisherId: 4,
+    description: null,
+    smallThumbnail: null,
+    thumbnail: null,
+  },
+  {
+    id: 8,
+    title: 'Pride and Prejudice',
+    isbn: '9780141439518',
+    year: 1813,
+    authorId: 5,
+    publisherId: 5,
+    description: 'Elizabeth Bennet and Mr. Darcy misjudge each other across the drawing rooms of Regency England.',
+    smallThumbnail: null,
+    thumbnail: null,
+  },
+  {
+    id: 9,
+    title: 'The Way of Kings',
+    isbn: '9780765326355',
+    year: 2010,
+    authorId: 6,
+    publisherId: 6,
+    description: 'On the storm-swept world of Roshar, a slave, a scholar and a highprince are drawn into an ancient war.',
+    smallThumbnail: null,
+    thumbnail: null,
+  },
+];
+
+// ISBN-13 with a valid check digit for a 12-digit prefix
+const withCheckDigit = (digits: string): string => {
+  const sum = [...digits].reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return `${digits}${(10 - (sum % 10)) % 10}`;
+};
+
+/**
+ * Generated filler books for exercising paging with a large catalog
+ */
+const createBulkBooks = (count: number, firstId: number): MockBookRow[] =>
+  Array.from({ length: count }, (_, index) => {
+    const id = firstId + index;
+    return {
+      id,
+      title: `Library Volume ${String(index + 1).padStart(4, '0')}`,
+      isbn: withCheckDigit(`979${String(id).padStart(9, '0')}`),
+      year: 1900 + ((index * 37) % 125),
+      authorId: SEED_AUTHORS[index % SEED_AUTHORS.length].id,
+      publisherId: SEED_PUBLISHERS[index % SEED_PUBLISHERS.length].id,
+      description: null,
+      smallThumbnail: null,
+      thumbnail: null,
+    };
+  });
+
+/**
+ * Fresh copy of the seed data (the backend mutates its copy in place),
+ * optionally padded with `bulkBooks` generated books
+ */
+export const createSeedDatabase = (bulkBooks = 0): MockDatabase => ({
+  authors: SEED_AUTHORS.map((author) => ({ ...author })),
+  publishers: SEED_PUBLISHERS.map((publisher) => ({ ...publisher })),
+  books: [
+    ...SEED_BOOKS.map((book) => ({ ...book })),
+    ...createBulkBooks(bulkBooks, Math.max(...SEED_BOOKS.map((book) => book.id)) + 1),
+  ],
+});
+
+// ============================================
+// GOOGLE BOOKS CATALOG (backs /books/search and ISBN import)
+// ============================================
+
+export const MOCK_CATALOG: BookSearchResult[] = [
+  { title: 'The Hobbit', authors: ['J.R.R. Tolkien'], publisher: 'Mariner Books', year: 1937, isbn: '9780547928227', averageRating: 4.5, description: 'Bilbo Baggins is swept into a quest to reclaim the lost Dwarf Kingdom of Erebor from the dragon Smaug.', thumbnail: null },
+  { title: 'The Lord of the Rings', authors: ['J.R.R. Tolkien'], publisher: 'Mariner Books', year: 1954, isbn: '9780618640157', averageRating: 4.5, description: 'The Fellowship sets out to destroy the One Ring before the Dark Lord Sauron can reclaim it.', thumbnail: null },
+  { title: '1984', authors: ['George Orwell'], publisher: 'Signet Classics', year: 1949, isbn: '9780451524935', averageRating: 4, description: 'Winston Smith works for the Ministry of Truth in a world of perpetual war and omnipresent surveillance.', thumbnail: null },
+  { title: 'Animal Farm', authors: ['George Orwell'], publisher: 'Plume', year: 1945, isbn: '9780452284241', averageRating: 4, description: 'The animals of Manor Farm overthrow their farmer, only to find the new order looks much like the old.', thumbnail: null },
+  { title: 'Dune', authors: ['Frank Herbert'], publisher: 'Ace', year: 1965, isbn: '9780441172719', averageRating: 4.5, description: 'On the desert planet Arrakis, Paul Atreides is caught in a struggle for the most precious substance in the universe.', thumbnail: null },
+  { title: 'Dune Messiah', authors: ['Frank Herbert'], publisher: 'Ace', year: 1969, isbn: '9780593098233', averageRating: 4, description: 'Twelve years after his victory, Paul Atreides rules an empire and foresees the conspiracy gathering against him.', thumbnail: null },
+  { title: 'Foundation', authors: ['Isaac Asimov'], publisher: 'Bantam Spectra', year: 1951, isbn: '9780553293357', averageRating: 4, description: 'Hari Seldon foresees the fall of the Galactic Empire and gathers scientists to shorten the dark age that follows.', thumbnail: null },
+  { title: 'I, Robot', authors: ['Isaac Asimov'], publisher: 'Bantam Spectra', year: 1950, isbn: '9780553382563', averageRating: 4, description: 'Nine linked stories trace the development of robots bound by the Three Laws of Robotics.', thumbnail: null },
+  { title: 'Pride and Prejudice', authors: ['Jane Austen'], publisher: 'Penguin Classics', year: 1813, isbn: '9780141439518', averageRating: 4.5, description: 'Elizabeth Bennet and Mr. Darcy misjudge each other across the drawing rooms of Regency England.', thumbnail: null },
+  { title: 'Emma', authors: ['Jane Austen'], publisher: 'Penguin Classics', year: 1815, isbn: '9780141439587', averageRating: 4, description: 'Emma Woodhouse, handsome, clever and rich, cannot resist arranging the love lives of her neighbours.', thumbnail: null },
+  { title: 'Sense and Sensibility', authors: ['Jane Austen'], publisher: 'Penguin Classics', year: 1811, isbn: '9780141439662', averageRating: 4, description: 'The Dashwood sisters face heartbreak and reduced fortunes with very different temperaments.', thumbnail: null },
+  { title: 'The Way of Kings', authors: ['Brandon Sanderson'], publisher: 'Tor Books', year: 2010, isbn: '9780765326355', averageRating: 4.5, description: 'On the storm-swept world of Roshar, a slave, a scholar and a highprince are drawn into an ancient war.', thumbnail: null },
+  { title: 'Mistborn: The Final Empire', authors: ['Brandon Sanderson'], publisher: 'Tor Books', year: 2006, isbn: '9780765311788', averageRating: 4.5, description: 'A street thief discovers she can burn metals for power and joins a crew plotting to overthrow an immortal emperor.', thumbnail: null },
+  { title: 'The Alchemist', authors: ['Paulo Coelho'], publisher: 'HarperOne', year: 1988, isbn: '9780062315007', averageRating: 4, description: 'A young Andalusian shepherd travels to the Egyptian pyramids in search of a treasure he has dreamed about.', thumbnail: null },
+  { title: 'Brave New World', authors: ['Aldous Huxley'], publisher: 'Harper Perennial', year: 1932, isbn: '9780060850524', averageRating: 4, description: 'In a World State built on engineered happiness, one man begins to question the price of stability.', thumbnail: null },
+  { title: 'The Great Gatsby', authors: ['F. Scott Fitzgerald'], publisher: 'Scribner', year: 1925, isbn: '9780743273565', averageRating: 4, description: 'Nick Carraway is drawn into the glittering world of his mysterious neighbour Jay Gatsby.', thumbnail: null },
+  { title: 'To Kill a Mockingbird', authors: ['Harper Lee'], publisher: 'Harper Perennial', year: 1960, isbn: '9780061120084', averageRating: 4.5, description: 'Scout Finch watches her father defend a Black man falsely accused in a small Alabama town.', thumbnail: null },
+  { title: 'The Book Thief', authors: ['Markus Zusak'], publisher: 'Knopf', year: 2005, isbn: '9780375842207', averageRating: 4.5, description: 'Narrated by Death, the story of a girl who steals books in Nazi Germany and shares them with those around her.', thumbnail: null },
+  { title: 'Beloved', authors: ['Toni Morrison'], publisher: 'Vintage', year: 1987, isbn: '9781400033416', averageRating: 4, description: 'Sethe, born a slave, is haunted by the ghost of the daughter she lost in post-Civil War Ohio.', thumbnail: null },
+  { title: 'The Grapes of Wrath', authors: ['John Steinbeck'], publisher: 'Penguin Classics', year: 1939, isbn: '9780143039433', averageRating: 4, description: 'The Joad family leaves the Oklahoma Dust Bowl for California in search of work and dignity.', thumbnail: null },
+  { title: 'The Catcher in the Rye', authors: ['J.D. Salinger'], publisher: 'Little, Brown', year: 1951, isbn: '9780316769488', averageRating: 3.5, description: 'Holden Caulfield spends three days wandering New York City after being expelled from prep school.', thumbnail: null },
+  { title: 'The Midnight Library', authors: ['Matt Haig'], publisher: 'Viking', year: 2020, isbn: '9780525559474', averageRating: 4, description: 'Between life and death, Nora Seed finds a library whose books let her try the lives she could have lived.', thumbnail: null },
+];
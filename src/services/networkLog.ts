@@ -0,0 +1,248 @@
+// ============================================
+// NETWORK LOG - Request Recording for the Inspector
+// ============================================
+
+import type { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import type { APIErrorKind } from '../types/api';
+import { getErrorKind, getErrorMessage } from './apiErrors';
+
+/**
+ * One apiClient request attempt. Retries and replays after a token refresh
+ * are separate entries (with their retry count).
+ */
+export interface NetworkEntry {
+  id: string;
+  method: string; // Upper case
+  url: string; // Full URL including query string
+  requestHeaders: Record<string, string>;
+  requestBody?: unknown;
+  status?: number;
+  responseBody?: unknown;
+  error?: { kind: APIErrorKind; message: string };
+  state: 'pending' | 'success' | 'error' | 'cancelled';
+  startedAt: number;
+  duration?: number; // ms
+  retryCount: number;
+  background: boolean; // Health probes
+}
+
+export interface NetworkLogState {
+  isRecording: boolean;
+  isOpen: boolean;
+  entries: NetworkEntry[]; // Oldest first
+}
+
+type Listener = () => void;
+
+const STORAGE_KEY = 'library-network-inspector';
+const MAX_ENTRIES = 200;
+
+// Never recorded in clear - logs end up in bug reports
+const SECRET_FIELDS = ['password', 'accessToken', 'refreshToken'];
+const REDACTED = '[redacted]';
+
+const loadRecording = (): boolean => {
+  try {
+    return localStorage.getItem(STORAGE_KEY) === 'on';
+  } catch {
+    return false;
+  }
+};
+
+let state: NetworkLogState = {
+  isRecording: typeof localStorage !== 'undefined' ? loadRecording() : false,
+  isOpen: false,
+  entries: [],
+};
+
+const listeners = new Set<Listener>();
+
+const setState = (next: NetworkLogState) => {
+  state = next;
+  listeners.forEach((listener) => listener());
+};
+
+const updateEntry = (id: string, patch: Partial<NetworkEntry>) => {
+  if (!state.entries.some((entry) => entry.id === id)) return;
+  setState({
+    ...state,
+    entries: state.entries.map((entry) => (entry.id === id ? { ...entry, ...patch } : entry)),
+  });
+};
+
+let nextEntryId = 0;
+const createEntryId = () => `${Date.now()}-${nextEntryId++}`;
+
+// ============================================
+// CAPTURE HELPERS
+// ============================================
+
+const redact = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(redact);
+  if (typeof value !== 'object' || value === null) return value;
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [key, SECRET_FIELDS.includes(key) ? REDACTED : redact(field)])
+  );
+};
+
+// Bodies may still be JSON strings (e.g. replays, which are already serialized)
+const readBody = (data: unknown): unknown => {
+  if (typeof data !== 'string') return redact(data);
+  try {
+    return redact(JSON.parse(data));
+  } catch {
+    return data;
+  }
+};
+
+const readHeaders = (config: InternalAxiosRequestConfig): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(config.headers.toJSON())) {
+    if (value === undefined || value === null || typeof value === 'object') continue;
+    headers[name] = name.toLowerCase() === 'authorization' ? `Bearer ${REDACTED}` : String(value);
+  }
+  return headers;
+};
+
+const buildUrl = (config: InternalAxiosRequestConfig): string => {
+  const base = (config.baseURL || '').replace(/\/+$/, '');
+  const path = config.url || '';
+  const url = /^https?:\/\//.test(path) ? path : `${base}${path}`;
+
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(config.params || {})) {
+    if (value !== undefined && value !== null) params.append(key, String(value));
+  }
+  const query = params.toString();
+  return query ? `${url}${url.includes('?') ? '&' : '?'}${query}` : url;
+};
+
+const quote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * Reproduce a recorded request with curl (secrets stay redacted)
+ */
+export const toCurl = (entry: NetworkEntry): string => {
+  const parts = [`curl -X ${entry.method} ${quote(entry.url)}`];
+  for (const [name, value] of Object.entries(entry.requestHeaders)) {
+    parts.push(`-H ${quote(`${name}: ${value}`)}`);
+  }
+  if (entry.requestBody !== undefined) {
+    const body = typeof entry.requestBody === 'string' ? entry.requestBody : JSON.stringify(entry.requestBody);
+    parts.push(`--data-raw ${quote(body)}`);
+  }
+  return parts.join(' \\\n  ');
+};
+
+// ============================================
+// STORE API
+// ============================================
+
+export const networkLog = {
+  getState: (): NetworkLogState => state,
+
+  subscribe: (listener: Listener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  /**
+   * Record a request about to be sent. Returns its entry id, or undefined while not recording.
+   */
+  recordRequest: (config: InternalAxiosRequestConfig): string | undefined => {
+    if (!state.isRecording) return undefined;
+
+    const entry: NetworkEntry = {
+      id: createEntryId(),
+      method: (config.method || 'get').toUpperCase(),
+      url: buildUrl(config),
+      requestHeaders: readHeaders(config),
+      requestBody: config.data === undefined ? undefined : readBody(config.data),
+      state: 'pending',
+      startedAt: Date.now(),
+      retryCount: config.retryCount || 0,
+      background: !!config.background,
+    };
+    setState({ ...state, entries: [...state.entries, entry].slice(-MAX_ENTRIES) });
+    return entry.id;
+  },
+
+  recordResponse: (id: string | undefined, response: AxiosResponse) => {
+    if (!id) return;
+    const entry = state.entries.find((item) => item.id === id);
+    updateEntry(id, {
+      state: response.status >= 400 ? 'error' : 'success', // Health probes accept any status
+      status: response.status,
+      responseBody: readBody(response.data),
+      duration: entry ? Date.now() - entry.startedAt : undefined,
+    });
+  },
+
+  recordError: (id: string | undefined, error: AxiosError) => {
+    if (!id) return;
+    const entry = state.entries.find((item) => item.id === id);
+    const kind = getErrorKind(error);
+    updateEntry(id, {
+      state: kind === 'cancelled' ? 'cancelled' : 'error',
+      status: error.response?.status,
+      responseBody: error.response ? readBody(error.response.data) : undefined,
+      error: { kind, message: getErrorMessage(error) },
+      duration: entry ? Date.now() - entry.startedAt : undefined,
+    });
+  },
+
+  /**
+   * Start/stop recording. The choice survives reloads, so startup requests can be captured.
+   */
+  setRecording: (isRecording: boolean) => {
+    setState({ ...state, isRecording });
+    try {
+      if (isRecording) {
+        localStorage.setItem(STORAGE_KEY, 'on');
+      } else {
+        localStorage.removeItem(STORAGE_KEY);
+      }
+    } catch {
+      // Storage unavailable - recording just stops on reload
+    }
+  },
+
+  /**
+   * Show/hide the inspector. Opening it for the first time starts recording.
+   */
+  toggle: () => {
+    const isOpen = !state.isOpen;
+    setState({ ...state, isOpen });
+    if (isOpen && !state.isRecording && state.entries.length === 0) {
+      networkLog.setRecording(true);
+    }
+  },
+
+  close: () => {
+    setState({ ...state, isOpen: false });
+  },
+
+  clear: () => {
+    setState({ ...state, entries: [] });
+  },
+
+  /**
+   * The recorded session as pretty-printed JSON, for attaching to bug reports
+   */
+  exportSession: (context: Record<string, unknown> = {}): string =>
+    JSON.stringify(
+      {
+        exportedAt: new Date().toISOString(),
+        userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : undefined,
+        ...context,
+        entries: state.entries,
+      },
+      null,
+      2
+    ),
+};
+
+export default networkLog;
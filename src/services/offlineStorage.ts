@@ -0,0 +1,143 @@
+// ============================================
+// OFFLINE STORAGE - IndexedDB Persistence
+// ============================================
+
+import { entityStore } from './entityStore';
+import type { EntityState } from './entityStore';
+import { queryCache } from './queryCache';
+
+const DB_NAME = 'library-app';
+const DB_VERSION = 1;
+const STORE_NAME = 'keyval';
+const SNAPSHOT_KEY = 'catalog';
+const SAVE_DELAY = 500; // Debounce for snapshot writes (ms)
+
+/**
+ * Last known catalog, written after every entity store change.
+ * `fetchedAt` keeps the query cache timestamps so restored data is
+ * revalidated on the same schedule as it would have been in memory.
+ */
+interface CatalogSnapshot {
+  books: EntityState['books'];
+  authors: EntityState['authors'];
+  publishers: EntityState['publishers'];
+  fetchedAt: { books: number; authors: number };
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Minimal async key-value store on top of IndexedDB
+ */
+export const offlineStorage = {
+  get: <T>(key: string): Promise<T | undefined> =>
+    runRequest<T | undefined>('readonly', (store) => store.get(key)),
+
+  set: async (key: string, value: unknown): Promise<void> => {
+    await runRequest('readwrite', (store) => store.put(value, key));
+  },
+
+  remove: async (key: string): Promise<void> => {
+    await runRequest('readwrite', (store) => store.delete(key));
+  },
+};
+
+// ============================================
+// CATALOG SNAPSHOT
+// ============================================
+
+// Only keep temporary (optimistic) records that are waiting in the outbox -
+// anything else with a negative id belongs to a request that is still in flight
+const withoutUnsavedTemps = <T>(records: Record<number, T>, pending: EntityState['pendingBooks']) => {
+  const kept: Record<number, T> = {};
+  for (const [id, record] of Object.entries(records)) {
+    if (Number(id) > 0 || pending[Number(id)] === 'queued') {
+      kept[Number(id)] = record;
+    }
+  }
+  return kept;
+};
+
+const saveSnapshot = () => {
+  const state = entityStore.getState();
+  const snapshot: CatalogSnapshot = {
+    books: withoutUnsavedTemps(state.books, state.pendingBooks),
+    authors: withoutUnsavedTemps(state.authors, state.pendingAuthors),
+    publishers: state.publishers,
+    fetchedAt: {
+      books: queryCache.get('books').updatedAt,
+      authors: queryCache.get('authors').updatedAt,
+    },
+  };
+  offlineStorage.set(SNAPSHOT_KEY, snapshot).catch((err) => {
+    console.warn('Could not save the offline catalog:', err);
+  });
+};
+
+/**
+ * Restore the last saved catalog (only for collections that have not loaded
+ * from the network yet), then keep the snapshot in sync with the entity store.
+ * Resolves once the restore is done; never rejects.
+ */
+export const startOfflinePersistence = async (): Promise<void> => {
+  try {
+    const snapshot = await offlineStorage.get<CatalogSnapshot>(SNAPSHOT_KEY);
+    if (snapshot) {
+      const restoreBooks = queryCache.get('books').updatedAt === 0;
+      const restoreAuthors = queryCache.get('authors').updatedAt === 0;
+
+      entityStore.hydrate({
+        books: restoreBooks ? snapshot.books : undefined,
+        authors: restoreAuthors ? snapshot.authors : undefined,
+        publishers: snapshot.publishers,
+      });
+
+      // Mark the collections as loaded so sections render them while offline
+      if (restoreBooks && snapshot.fetchedAt.books > 0) {
+        queryCache.setData('books', undefined, snapshot.fetchedAt.books);
+      }
+      if (restoreAuthors && snapshot.fetchedAt.authors > 0) {
+        queryCache.setData('authors', undefined, snapshot.fetchedAt.authors);
+      }
+    }
+  } catch (err) {
+    console.warn('Offline catalog unavailable:', err);
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  entityStore.subscribe(() => {
+    clearTimeout(timer);
+    timer = setTimeout(saveSnapshot, SAVE_DELAY);
+  });
+};
@@ -0,0 +1,340 @@
+// ============================================
+// OUTBOX - Offline Mutation Queue
+// ============================================
+
+import axios from 'axios';
+import { booksAPI, authorsAPI } from './api';
+import { getErrorMessage } from './apiErrors';
+import { entityStore } from './entityStore';
+import type { EntityKind } from './entityStore';
+import { offlineStorage } from './offlineStorage';
+import { queryCache } from './queryCache';
+import { BOOK_PAGES_KEY } from './bookQuery';
+import { ContractError } from './schemas';
+import { tabSync } from './tabSync';
+import type { Book, Author, CreateBookDTO, UpdateBookDTO, CreateAuthorDTO, UpdateAuthorDTO } from '../types/api';
+
+/**
+ * A create/update/delete made while offline. Creates carry the temporary
+ * id of their optimistic record until the server assigns a real one.
+ */
+export interface OutboxEntry {
+  id: string;
+  kind: EntityKind;
+  action: 'create' | 'update' | 'delete';
+  entityId: number;
+  payload?: CreateBookDTO | UpdateBookDTO | CreateAuthorDTO | UpdateAuthorDTO;
+  label: string; // Book title / author name, for the UI
+  version?: string | null; // Record version the update was made against (sent as If-Match)
+  queuedAt: number;
+}
+
+export type NewOutboxEntry = Omit<OutboxEntry, 'id' | 'queuedAt'>;
+
+/**
+ * An outbox entry the server rejected during replay (its local change was reverted)
+ */
+export interface OutboxConflict {
+  entry: OutboxEntry;
+  message: string;
+  status?: number;
+}
+
+export interface OutboxState {
+  entries: OutboxEntry[]; // In the order they were made
+  isSyncing: boolean;
+  conflicts: OutboxConflict[];
+}
+
+type Listener = () => void;
+
+const STORAGE_KEY = 'outbox';
+
+let state: OutboxState = {
+  entries: [],
+  isSyncing: false,
+  conflicts: [],
+};
+
+const listeners = new Set<Listener>();
+
+const setState = (next: OutboxState) => {
+  state = next;
+  listeners.forEach((listener) => listener());
+};
+
+const setEntries = (entries: OutboxEntry[]) => {
+  setState({ ...state, entries });
+  offlineStorage.set(STORAGE_KEY, entries).catch((err) => {
+    console.warn('Could not save the offline outbox:', err);
+  });
+};
+
+let nextEntryId = 0;
+const createEntryId = () => `${Date.now()}-${nextEntryId++}`;
+
+// ============================================
+// NETWORK HELPERS
+// ============================================
+
+/**
+ * True if the browser reports no network connection
+ */
+export const isOffline = (): boolean => typeof navigator !== 'undefined' && !navigator.onLine;
+
+/**
+ * True if a request failed because the connection dropped (not because the server answered)
+ */
+export const isOfflineError = (error: unknown): boolean =>
+  axios.isAxiosError(error) && !error.response && !axios.isCancel(error) && isOffline();
+
+// Server unreachable or unhealthy - keep the entry and try again later.
+// A response that fails validation was still accepted, so it must not be resent.
+const isTransientError = (error: unknown): boolean =>
+  !(error instanceof ContractError) && (!axios.isAxiosError(error) || !error.response || error.response.status >= 500);
+
+// ============================================
+// REPLAY
+// ============================================
+
+const bookAuthorId = (entry: OutboxEntry): number | undefined =>
+  entry.kind === 'books' ? (entry.payload as CreateBookDTO | undefined)?.authorId : undefined;
+
+const send = async (entry: OutboxEntry): Promise<Book | Author | null> => {
+  const { kind, action, entityId, payload, version } = entry;
+
+  if (kind === 'books') {
+    if (action === 'create') return booksAPI.create(payload as CreateBookDTO);
+    if (action === 'update') return booksAPI.update(entityId, payload as UpdateBookDTO, version);
+    await booksAPI.delete(entityId);
+    return null;
+  }
+
+  if (action === 'create') return authorsAPI.create(payload as CreateAuthorDTO);
+  if (action === 'update') return authorsAPI.update(entityId, payload as UpdateAuthorDTO, version);
+  await authorsAPI.delete(entityId);
+  return null;
+};
+
+// Point every later entry at the real id of a record the server just created
+const resolveTempId = (entries: OutboxEntry[], kind: EntityKind, tempId: number, realId: number) =>
+  entries.map((entry) => {
+    let next = entry;
+    if (entry.kind === kind && entry.entityId === tempId) {
+      next = { ...next, entityId: realId };
+    }
+    if (kind === 'authors' && bookAuthorId(entry) === tempId) {
+      next = { ...next, payload: { ...(next.payload as CreateBookDTO), authorId: realId } };
+    }
+    return next;
+  });
+
+// Later edits of the same record were made on top of this one - they expect its new version
+const advanceVersion = (entries: OutboxEntry[], kind: EntityKind, id: number, version?: string) =>
+  version
+    ? entries.map((entry) =>
+        entry.kind === kind && entry.entityId === id && entry.action === 'update' && entry.version ? { ...entry, version } : entry
+      )
+    : entries;
+
+const hasMoreFor = (entries: OutboxEntry[], kind: EntityKind, id: number) =>
+  entries.some((entry) => entry.kind === kind && entry.entityId === id);
+
+/**
+ * Write a confirmed change into the entity store
+ */
+const applyResult = (entry: OutboxEntry, result: Book | Author | null, remaining: OutboxEntry[]) => {
+  const { kind, action, entityId, label } = entry;
+  if (!result) {
+    // Delete - the record is already gone locally
+    tabSync.broadcast({ kind, action: 'deleted', id: entityId, label });
+    return;
+  }
+
+  if (action === 'create') {
+    entityStore.confirmCreated(kind, entityId, result);
+  } else if (kind === 'books') {
+    entityStore.upsertBooks([result as Book]);
+  } else {
+    entityStore.upsertAuthors([result as Author]);
+  }
+
+  if (!hasMoreFor(remaining, kind, result.id)) {
+    entityStore.setPending(kind, result.id, null);
+  }
+
+  tabSync.broadcast({
+    kind,
+    action: action === 'create' ? 'created' : 'updated',
+    id: result.id,
+    label: kind === 'books' ? (result as Book).title : (result as Author).name,
+    record: result,
+  });
+};
+
+/**
+ * Undo the local effect of a rejected entry by reloading the server's version
+ */
+const revert = async (entry: OutboxEntry) => {
+  const { kind, action, entityId } = entry;
+
+  if (entityId < 0 || action === 'create') {
+    if (kind === 'books') entityStore.removeBook(entityId);
+    else entityStore.removeAuthor(entityId);
+    return;
+  }
+
+  try {
+    if (kind === 'books') {
+      entityStore.upsertBooks([await booksAPI.getById(entityId)]);
+    } else {
+      entityStore.upsertAuthors([await authorsAPI.getById(entityId)]);
+    }
+    entityStore.setPending(kind, entityId, null);
+  } catch (err) {
+    if (axios.isAxiosError(err) && err.response?.status === 404) {
+      if (kind === 'books') entityStore.removeBook(entityId);
+      else entityStore.removeAuthor(entityId);
+    }
+  }
+};
+
+export const outbox = {
+  getState: (): OutboxState => state,
+
+  subscribe: (listener: Listener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  /**
+   * Queue a change made offline and mark its record as 'queued'.
+   * Edits to a record created offline are folded into its create, and deleting
+   * such a record drops its entries entirely - the server never sees it.
+   */
+  enqueue: (change: NewOutboxEntry) => {
+    const { kind, action, entityId } = change;
+    let entries = state.entries;
+
+    if (entityId < 0 && action === 'update') {
+      entries = entries.map((entry) =>
+        entry.kind === kind && entry.entityId === entityId && entry.action === 'create'
+          ? { ...entry, payload: change.payload, label: change.label }
+          : entry
+      );
+      setEntries(entries);
+      entityStore.setPending(kind, entityId, 'queued');
+      return;
+    }
+
+    if (entityId < 0 && action === 'delete') {
+      setEntries(
+        entries.filter(
+          (entry) =>
+            !(entry.kind === kind && entry.entityId === entityId) &&
+            !(kind === 'authors' && bookAuthorId(entry) === entityId)
+        )
+      );
+      return;
+    }
+
+    setEntries([...entries, { ...change, id: createEntryId(), queuedAt: Date.now() }]);
+    if (action !== 'delete') {
+      entityStore.setPending(kind, entityId, 'queued');
+    }
+  },
+
+  /**
+   * Send queued entries in order. Stops (keeping the rest) on network or
+   * server errors; entries the server rejects become conflicts and are reverted.
+   */
+  replay: async (): Promise<void> => {
+    if (state.isSyncing || state.entries.length === 0 || isOffline()) return;
+    setState({ ...state, isSyncing: true });
+
+    while (state.entries.length > 0) {
+      const [entry, ...rest] = state.entries;
+
+      // Depends on a record whose create was rejected
+      const unresolvedAuthor = (bookAuthorId(entry) ?? 0) < 0;
+      if ((entry.entityId < 0 && entry.action !== 'create') || unresolvedAuthor) {
+        setEntries(rest);
+        await revert(entry);
+        setState({
+          ...state,
+          conflicts: [...state.conflicts, { entry, message: 'It depends on a change that was rejected.' }],
+        });
+        continue;
+      }
+
+      try {
+        const result = await send(entry);
+        const remaining = !result
+          ? rest
+          : entry.action === 'create'
+            ? resolveTempId(rest, entry.kind, entry.entityId, result.id)
+            : advanceVersion(rest, entry.kind, entry.entityId, result.version);
+        setEntries(remaining);
+        applyResult(entry, result, remaining);
+      } catch (err) {
+        if (isTransientError(err)) break;
+
+        const status = axios.isAxiosError(err) ? err.response?.status : undefined;
+        setEntries(rest);
+
+        // Deleting something that is already gone is not a conflict
+        if (entry.action === 'delete' && status === 404) continue;
+
+        await revert(entry);
+        setState({
+          ...state,
+          conflicts: [...state.conflicts, { entry, message: getErrorMessage(err), status }],
+        });
+      }
+    }
+
+    setState({ ...state, isSyncing: false });
+    queryCache.invalidate(BOOK_PAGES_KEY); // Replayed changes are on the server now
+  },
+
+  dismissConflict: (entryId: string) => {
+    setState({ ...state, conflicts: state.conflicts.filter((conflict) => conflict.entry.id !== entryId) });
+  },
+
+  /**
+   * Drop every queued change and conflict without sending them
+   * (they were made against a backend that is no longer active)
+   */
+  clear: () => {
+    setState({ ...state, conflicts: [] });
+    setEntries([]);
+  },
+
+  /**
+   * Load the persisted outbox, restore 'queued' markers and replay on every reconnect
+   */
+  start: async (): Promise<void> => {
+    try {
+      const stored = await offlineStorage.get<OutboxEntry[]>(STORAGE_KEY);
+      if (stored?.length) {
+        setState({ ...state, entries: [...stored, ...state.entries] });
+        for (const entry of stored) {
+          if (entry.action !== 'delete') {
+            entityStore.setPending(entry.kind, entry.entityId, 'queued');
+          }
+        }
+      }
+    } catch (err) {
+      console.warn('Offline outbox unavailable:', err);
+    }
+
+    window.addEventListener('online', () => {
+      outbox.replay();
+    });
+    outbox.replay();
+  },
+};
+
+export default outbox;
@@ -0,0 +1,206 @@
+// ============================================
+// QUERY CACHE - Keyed Stale-While-Revalidate Cache
+// ============================================
+
+/**
+ * Cached result of one query key.
+ * `data` stays available while a background revalidation is running.
+ */
+export interface QueryEntry<T = unknown> {
+  data: T | undefined;
+  error: unknown; // Raw error from the last failed fetch (null after a success)
+  updatedAt: number; // Timestamp of the last successful fetch (0 = never)
+  isFetching: boolean;
+}
+
+export interface FetchOptions {
+  force?: boolean; // Ignore staleness and always hit the network
+  staleTime?: number; // Age (ms) after which cached data is refetched
+  replace?: boolean; // Abort an in-flight request for the key instead of joining it
+}
+
+/**
+ * Loads the data for a key. The signal is aborted when the request is
+ * superseded or nobody is subscribed to the key anymore.
+ */
+export type Fetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+interface InFlightRequest {
+  promise: Promise<void>;
+  controller: AbortController;
+}
+
+export const DEFAULT_STALE_TIME = 30_000; // 30 seconds
+export const DEFAULT_GC_TIME = 5 * 60_000; // Unused entries are dropped after 5 minutes
+
+type Listener = () => void;
+
+// Shared, frozen snapshot for keys that were never fetched (stable for useSyncExternalStore)
+const EMPTY_ENTRY: QueryEntry = Object.freeze({
+  data: undefined,
+  error: null,
+  updatedAt: 0,
+  isFetching: false,
+});
+
+const entries = new Map<string, QueryEntry>();
+const requests = new Map<string, InFlightRequest>();
+const listeners = new Map<string, Set<Listener>>();
+const gcTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+const notify = (key: string) => {
+  listeners.get(key)?.forEach((listener) => listener());
+};
+
+const setEntry = (key: string, patch: Partial<QueryEntry>) => {
+  entries.set(key, { ...(entries.get(key) || EMPTY_ENTRY), ...patch });
+  notify(key);
+};
+
+// Abort on the next tick so a remount (e.g. StrictMode) can pick the request back up
+const abortIfUnused = (key: string) => {
+  setTimeout(() => {
+    if (!listeners.get(key)?.size) {
+      requests.get(key)?.controller.abort();
+    }
+  }, 0);
+};
+
+const scheduleGC = (key: string) => {
+  clearTimeout(gcTimers.get(key));
+  gcTimers.set(
+    key,
+    setTimeout(() => {
+      gcTimers.delete(key);
+      if (!listeners.get(key)?.size && !requests.has(key)) {
+        entries.delete(key);
+      }
+    }, DEFAULT_GC_TIME)
+  );
+};
+
+export const queryCache = {
+  /**
+   * Current entry for a key (never undefined)
+   */
+  get: <T>(key: string): QueryEntry<T> => (entries.get(key) || EMPTY_ENTRY) as QueryEntry<T>,
+
+  /**
+   * True if the key has never been fetched or its data is older than staleTime
+   */
+  isStale: (key: string, staleTime: number = DEFAULT_STALE_TIME): boolean => {
+    const { updatedAt } = queryCache.get(key);
+    return updatedAt === 0 || Date.now() - updatedAt > staleTime;
+  },
+
+  subscribe: (key: string, listener: Listener): (() => void) => {
+    let keyListeners = listeners.get(key);
+    if (!keyListeners) {
+      keyListeners = new Set();
+      listeners.set(key, keyListeners);
+    }
+    keyListeners.add(listener);
+    clearTimeout(gcTimers.get(key));
+
+    return () => {
+      keyListeners.delete(listener);
+      if (keyListeners.size === 0) {
+        listeners.delete(key);
+        abortIfUnused(key);
+        scheduleGC(key);
+      }
+    };
+  },
+
+  /**
+   * Fetch a key unless it is still fresh.
+   * Concurrent calls for the same key share one in-flight request
+   * (unless `replace` is set, which aborts it and starts over).
+   * Never rejects - failures are stored on the entry, aborted requests leave it untouched.
+   */
+  fetch: <T>(key: string, fetcher: Fetcher<T>, options: FetchOptions = {}): Promise<void> => {
+    const pending = requests.get(key);
+    if (pending) {
+      if (!options.replace) return pending.promise;
+      pending.controller.abort();
+    }
+
+    if (!options.force && !options.replace && !queryCache.isStale(key, options.staleTime)) {
+      return Promise.resolve();
+    }
+
+    setEntry(key, { isFetching: true });
+
+    const controller = new AbortController();
+    const promise = fetcher(controller.signal)
+      .then(
+        (data) => {
+          if (controller.signal.aborted) return;
+          setEntry(key, { data, error: null, updatedAt: Date.now(), isFetching: false });
+        },
+        (error: unknown) => {
+          if (controller.signal.aborted) return;
+          setEntry(key, { error, isFetching: false });
+        }
+      )
+      .finally(() => {
+        // A replacing request may already own the slot
+        if (requests.get(key)?.controller !== controller) return;
+        requests.delete(key);
+        if (controller.signal.aborted) {
+          setEntry(key, { isFetching: false });
+        }
+      });
+
+    requests.set(key, { promise, controller });
+    return promise;
+  },
+
+  /**
+   * Abort the in-flight request for a key, if any
+   */
+  cancel: (key: string) => {
+    requests.get(key)?.controller.abort();
+  },
+
+  /**
+   * Write data for a key directly (e.g. from a mutation response or a persisted snapshot)
+   */
+  setData: <T>(key: string, data: T, updatedAt: number = Date.now()) => {
+    setEntry(key, { data, error: null, updatedAt });
+  },
+
+  /**
+   * Drop a single key - subscribers fall back to the empty entry
+   */
+  remove: (key: string) => {
+    entries.delete(key);
+    notify(key);
+  },
+
+  /**
+   * Mark every loaded key starting with `prefix` as stale. The data is kept,
+   * and subscribers are notified so mounted lists can refetch it.
+   */
+  invalidate: (prefix: string) => {
+    for (const [key, entry] of entries) {
+      if (key.startsWith(prefix) && entry.updatedAt > 0) {
+        setEntry(key, { updatedAt: 1 });
+      }
+    }
+  },
+
+  /**
+   * Drop every cached entry and abort every in-flight request
+   * (mounted queries see an empty entry and fetch again)
+   */
+  clear: () => {
+    requests.forEach(({ controller }) => controller.abort());
+    requests.clear();
+    const keys = [...entries.keys()];
+    entries.clear();
+    keys.forEach(notify);
+  },
+};
+
+export default queryCache;
@@ -0,0 +1,312 @@
+// ============================================
+// RESPONSE SCHEMAS - Runtime Validation of API Data
+// ============================================
+
+import type { Book, NestedBook, Author, BookDetails, Publisher, BookSearchResult, PagedResult, CatalogEvent, CatalogEventType } from '../types/api';
+
+/**
+ * A mismatch between a response and the types in types/api.ts.
+ * `skipped` issues were handled by dropping the bad list item or optional
+ * field - the rest of the response is still used.
+ */
+export interface SchemaIssue {
+  path: string; // e.g. response[3].author.name
+  message: string;
+  skipped?: boolean;
+}
+
+const isFatal = (issues: SchemaIssue[]) => issues.some((issue) => !issue.skipped);
+
+/**
+ * Checks a value, reports problems into `issues` and returns the cleaned value
+ * (only the fields declared in the schema are kept)
+ */
+export type Schema<T> = (value: unknown, path: string, issues: SchemaIssue[]) => T;
+
+/**
+ * Thrown when a response cannot be used at all (wrong shape, or a single-record
+ * response with a bad record). Lists never throw for bad items - they are skipped.
+ */
+export class ContractError extends Error {
+  endpoint: string;
+  issues: SchemaIssue[];
+
+  constructor(endpoint: string, issues: SchemaIssue[]) {
+    const [first] = issues.filter((issue) => !issue.skipped);
+    super(`Unexpected response from ${endpoint}${first ? ` (${first.path}: ${first.message})` : ''}`);
+    this.name = 'ContractError';
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
+
+// ============================================
+// SCHEMA BUILDERS
+// ============================================
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const string = (): Schema<string> => (value, path, issues) => {
+  if (typeof value !== 'string') {
+    issues.push({ path, message: `expected string, got ${describe(value)}` });
+  }
+  return value as string;
+};
+
+export const number = (): Schema<number> => (value, path, issues) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    issues.push({ path, message: `expected number, got ${describe(value)}` });
+  }
+  return value as number;
+};
+
+/**
+ * Allow null/undefined in addition to the wrapped schema
+ */
+export const optional = <T>(schema: Schema<T>): Schema<T | null | undefined> => (value, path, issues) =>
+  value === null || value === undefined ? value : schema(value, path, issues);
+
+/**
+ * Like optional(), for fields typed `field?: T` - a null is dropped instead of kept
+ */
+export const omittable = <T>(schema: Schema<T>): Schema<T | undefined> => (value, path, issues) =>
+  value === null || value === undefined ? undefined : schema(value, path, issues);
+
+/**
+ * Array of items. With `skipInvalid`, bad items are dropped and reported as
+ * skipped instead of failing the whole array.
+ */
+export const array = <T>(item: Schema<T>, { skipInvalid = false } = {}): Schema<T[]> =>
+  (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: `expected array, got ${describe(value)}` });
+      return [];
+    }
+
+    const result: T[] = [];
+    value.forEach((entry, index) => {
+      const itemIssues: SchemaIssue[] = [];
+      const parsed = item(entry, `${path}[${index}]`, itemIssues);
+      if (!isFatal(itemIssues)) {
+        result.push(parsed);
+        issues.push(...itemIssues);
+      } else if (skipInvalid) {
+        issues.push(...itemIssues.map((issue) => ({ ...issue, skipped: true })));
+      } else {
+        issues.push(...itemIssues);
+      }
+    });
+    return result;
+  };
+
+type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+/**
+ * Object with the given fields. `renamed` maps a field to the name the backend
+ * used for it before (or might drift to), so a missing field points at the likely cause.
+ */
+export const object = <T>(shape: Shape<T>, renamed: Partial<Record<keyof T, string>> = {}): Schema<T> =>
+  (value, path, issues) => {
+    if (!isRecord(value)) {
+      issues.push({ path, message: `expected object, got ${describe(value)}` });
+      return value as T;
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const fieldIssues: SchemaIssue[] = [];
+      const parsed = shape[key](value[key], `${path}.${key}`, fieldIssues);
+
+      const alias = renamed[key];
+      if (fieldIssues.length > 0 && value[key] === undefined && alias && alias in value) {
+        fieldIssues[0] = { ...fieldIssues[0], message: `${fieldIssues[0].message} (found "${alias}" instead - was the field renamed?)` };
+      }
+
+      issues.push(...fieldIssues);
+      if (parsed !== undefined) result[key] = parsed;
+    }
+    return result as T;
+  };
+
+/**
+ * For nested data the UI can live without: if it does not match, only this
+ * field is dropped (reported as skipped) and the parent record is kept.
+ */
+export const lenient = <T>(schema: Schema<T>): Schema<T | undefined> => (value, path, issues) => {
+  const nestedIssues: SchemaIssue[] = [];
+  const parsed = schema(value, path, nestedIssues);
+  if (!isFatal(nestedIssues)) return parsed;
+  issues.push(...nestedIssues.map((issue) => ({ ...issue, skipped: true })));
+  return undefined;
+};
+
+// ============================================
+// API SCHEMAS (mirror types/api.ts)
+// ============================================
+
+export const bookDetailsSchema: Schema<BookDetails> = object<BookDetails>({
+  id: number(),
+  bookId: number(),
+  description: optional(string()),
+  smallThumbnail: optional(string()),
+  thumbnail: optional(string()),
+});
+
+// Author/publisher nested in a book - their books are never read there, so they are dropped (no circular data)
+const nestedAuthorSchema: Schema<Author> = object<Author>({
+  id: number(),
+  name: string(),
+  books: () => undefined,
+  version: () => undefined,
+});
+
+const nestedPublisherSchema: Schema<Publisher> = object<Publisher>({
+  id: number(),
+  name: string(),
+  books: () => undefined,
+});
+
+export const bookSchema: Schema<Book> = object<Book>(
+  {
+    id: number(),
+    title: string(),
+    isbn: string(),
+    year: number(),
+    authorId: number(),
+    publisherId: optional(number()),
+    author: nestedAuthorSchema,
+    publisher: lenient(optional(nestedPublisherSchema)),
+    details: lenient(optional(bookDetailsSchema)),
+    version: omittable(string()),
+  },
+  { year: 'publicationYear', authorId: 'author_id' }
+);
+
+// Books nested in GET /authors and GET /publishers are partial (no author/publisher
+// objects) - only the fields the cards read are required. Nulls are dropped, so
+// merging a nested book never blanks a field the store already has.
+const nestedBookSchema: Schema<NestedBook> = object<NestedBook>(
+  {
+    id: number(),
+    title: string(),
+    isbn: omittable(string()),
+    year: omittable(number()),
+    authorId: omittable(number()),
+    publisherId: omittable(number()),
+    author: () => undefined,
+  },
+  { year: 'publicationYear' }
+);
+
+export const authorSchema: Schema<Author> = object<Author>({
+  id: number(),
+  name: string(),
+  books: omittable(array(nestedBookSchema, { skipInvalid: true })),
+  version: omittable(string()),
+});
+
+export const publisherSchema: Schema<Publisher> = object<Publisher>({
+  id: number(),
+  name: string(),
+  books: omittable(array(nestedBookSchema, { skipInvalid: true })),
+});
+
+export const bookSearchResultSchema: Schema<BookSearchResult> = object<BookSearchResult>(
+  {
+    title: string(),
+    authors: array(string()),
+    publisher: optional(string()),
+    year: optional(number()),
+    isbn: optional(string()),
+    description: optional(string()),
+    averageRating: optional(number()),
+    thumbnail: optional(string()),
+  },
+  { year: 'publishedYear' }
+);
+
+export const bookListSchema = array(bookSchema, { skipInvalid: true });
+export const authorListSchema = array(authorSchema, { skipInvalid: true });
+export const publisherListSchema = array(publisherSchema, { skipInvalid: true });
+export const bookSearchResultListSchema = array(bookSearchResultSchema, { skipInvalid: true });
+
+/**
+ * One page of a list endpoint - bad items are skipped like in plain lists
+ */
+export const pagedSchema = <T>(item: Schema<T>): Schema<PagedResult<T>> =>
+  object<PagedResult<T>>({
+    items: array(item, { skipInvalid: true }),
+    page: number(),
+    pageSize: number(),
+    totalCount: number(),
+  });
+
+export const bookPageSchema = pagedSchema(bookSchema);
+
+const CATALOG_EVENT_TYPES: CatalogEventType[] = [
+  'book.created',
+  'book.updated',
+  'book.deleted',
+  'author.created',
+  'author.updated',
+  'author.deleted',
+];
+
+const catalogEventType = (): Schema<CatalogEventType> => (value, path, issues) => {
+  if (!CATALOG_EVENT_TYPES.includes(value as CatalogEventType)) {
+    issues.push({ path, message: `unknown event type ${JSON.stringify(value)}` });
+  }
+  return value as CatalogEventType;
+};
+
+export const catalogEventSchema: Schema<CatalogEvent> = object<CatalogEvent>({
+  type: catalogEventType(),
+  id: number(),
+  book: omittable(bookSchema),
+  author: omittable(authorSchema),
+  occurredAt: omittable(string()),
+});
+
+// ============================================
+// VALIDATION + DIAGNOSTICS
+// ============================================
+
+// Each distinct drift is reported once per page load, not on every revalidation
+const reported = new Set<string>();
+
+const report = (endpoint: string, issues: SchemaIssue[]) => {
+  const signature = `${endpoint}|${issues.map((issue) => `${issue.path.replace(/\[\d+\]/g, '[]')}:${issue.message}`).join('|')}`;
+  if (reported.has(signature)) return;
+  reported.add(signature);
+
+  const summary = isFatal(issues) ? 'response rejected' : 'the bad records/fields were skipped, the rest were kept';
+
+  console.warn(
+    `[API contract] ${endpoint} does not match types/api.ts - ${summary}:\n` +
+      issues.map((issue) => `  • ${issue.path}: ${issue.message}`).join('\n')
+  );
+};
+
+/**
+ * Validate a response body against its schema.
+ * Bad list items are skipped (and logged); anything else throws a ContractError.
+ */
+export const validateResponse = <T>(schema: Schema<T>, data: unknown, endpoint: string): T => {
+  const issues: SchemaIssue[] = [];
+  const result = schema(data, 'response', issues);
+
+  if (issues.length > 0) {
+    report(endpoint, issues);
+    if (isFatal(issues)) {
+      throw new ContractError(endpoint, issues);
+    }
+  }
+  return result;
+};
@@ -0,0 +1,61 @@
+// ============================================
+// SERVER STATUS - Cold Start Tracking
+// ============================================
+
+/**
+ * Render puts the free backend instance to sleep when idle. While the
+ * retry layer in api.ts is waiting for it to wake up, this store records
+ * when the wake-up started so the UI can show an elapsed-time banner.
+ */
+export interface ServerStatusState {
+  wakingUpSince: number | null; // Timestamp of the first cold-start failure (null = awake)
+  attempt: number; // Current retry attempt
+  maxAttempts: number;
+}
+
+type Listener = () => void;
+
+let state: ServerStatusState = {
+  wakingUpSince: null,
+  attempt: 0,
+  maxAttempts: 0,
+};
+
+const listeners = new Set<Listener>();
+
+const setState = (next: ServerStatusState) => {
+  state = next;
+  listeners.forEach((listener) => listener());
+};
+
+export const serverStatus = {
+  getState: (): ServerStatusState => state,
+
+  subscribe: (listener: Listener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  /**
+   * A request failed with a cold-start symptom and is about to be retried
+   */
+  markWakingUp: (attempt: number, maxAttempts: number) => {
+    setState({
+      wakingUpSince: state.wakingUpSince ?? Date.now(),
+      attempt: Math.max(state.attempt, attempt),
+      maxAttempts,
+    });
+  },
+
+  /**
+   * Any successful response (or giving up) ends the wake-up phase
+   */
+  markAwake: () => {
+    if (state.wakingUpSince === null) return;
+    setState({ wakingUpSince: null, attempt: 0, maxAttempts: 0 });
+  },
+};
+
+export default serverStatus;
@@ -0,0 +1,122 @@
+// ============================================
+// TAB SYNC - Mutations Shared Between Browser Tabs
+// ============================================
+
+import { backendProfiles } from './backendProfiles';
+import { entityStore } from './entityStore';
+import { queryCache } from './queryCache';
+import { BOOK_PAGES_KEY } from './bookQuery';
+import type { Book, Author, Publisher } from '../types/api';
+
+export type TabSyncKind = 'books' | 'authors' | 'publishers';
+
+/**
+ * A change the server confirmed in one tab. `record` is the saved record
+ * (creates and updates only).
+ */
+export interface TabSyncMessage {
+  kind: TabSyncKind;
+  action: 'created' | 'updated' | 'deleted';
+  id: number;
+  label: string; // Book title / author or publisher name, for the toast
+  record?: Book | Author | Publisher;
+  baseUrl: string; // Backend the change was made on - tabs on another backend ignore it
+}
+
+export interface TabChange extends Omit<TabSyncMessage, 'baseUrl'> {
+  receivedAt: number;
+}
+
+export interface TabSyncState {
+  lastChange: TabChange | null;
+}
+
+const CHANNEL_NAME = 'library-tab-sync';
+
+type Listener = () => void;
+
+let state: TabSyncState = {
+  lastChange: null,
+};
+
+const listeners = new Set<Listener>();
+
+const setState = (next: TabSyncState) => {
+  state = next;
+  listeners.forEach((listener) => listener());
+};
+
+let channel: BroadcastChannel | null = null;
+
+// ============================================
+// APPLYING CHANGES FROM OTHER TABS
+// ============================================
+
+const applyChange = ({ kind, action, id, record }: TabSyncMessage) => {
+  if (kind === 'books') {
+    if (action === 'deleted') {
+      entityStore.removeBook(id);
+      queryCache.remove(`book:${id}`);
+    } else if (record) {
+      entityStore.upsertBooks([record as Book]);
+    }
+    queryCache.invalidate(BOOK_PAGES_KEY); // New position, or a page total that changed
+    return;
+  }
+
+  if (kind === 'authors') {
+    if (action === 'deleted') {
+      entityStore.removeAuthor(id);
+      queryCache.remove(`author:${id}`);
+      queryCache.invalidate(BOOK_PAGES_KEY); // Their books are gone too
+    } else if (record) {
+      entityStore.upsertAuthors([record as Author]);
+    }
+    return;
+  }
+
+  if (action === 'deleted') {
+    entityStore.removePublisher(id);
+    queryCache.remove(`publisher:${id}`);
+  } else if (record) {
+    entityStore.upsertPublishers([record as Publisher]);
+  }
+};
+
+const handleMessage = (event: MessageEvent<TabSyncMessage>) => {
+  const { baseUrl, ...change } = event.data;
+  if (baseUrl !== backendProfiles.getActiveProfile().baseUrl) return;
+
+  applyChange(event.data);
+  setState({ lastChange: { ...change, receivedAt: Date.now() } });
+};
+
+export const tabSync = {
+  getState: (): TabSyncState => state,
+
+  subscribe: (listener: Listener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  /**
+   * Tell the other open tabs about a change the server confirmed
+   * (a no-op in browsers without BroadcastChannel)
+   */
+  broadcast: (change: Omit<TabSyncMessage, 'baseUrl'>) => {
+    channel?.postMessage({ ...change, baseUrl: backendProfiles.getActiveProfile().baseUrl });
+  },
+
+  /**
+   * Listen for changes made in the other tabs of this origin
+   */
+  start: () => {
+    if (channel || typeof BroadcastChannel === 'undefined') return;
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = handleMessage;
+  },
+};
+
+export default tabSync;
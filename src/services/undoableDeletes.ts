@@ -0,0 +1,127 @@
+// ============================================
+// UNDOABLE DELETES - Grace Period Before DELETE Is Sent
+// ============================================
+
+import { entityStore } from './entityStore';
+import type { EntityKind } from './entityStore';
+
+/**
+ * How a scheduled delete ended. 'failed' = the server rejected it and the
+ * record was restored.
+ */
+export type DeleteOutcome = 'deleted' | 'undone' | 'failed';
+
+export const UNDO_POLICY = {
+  gracePeriod: Number(import.meta.env.VITE_UNDO_GRACE_PERIOD) || 6_000, // ms the "Undo" toast is shown before the DELETE goes out
+};
+
+/**
+ * A delete already applied to the entity store. `commit` sends it (and rolls
+ * back on failure), `restore` puts the record back if the user undoes it.
+ * `commitOnPageExit` sends it with a request that survives the tab closing -
+ * false if it could not, then `commit` is tried instead.
+ */
+export interface ScheduledDelete {
+  kind: EntityKind;
+  id: number;
+  commit: () => Promise<boolean>;
+  commitOnPageExit?: () => boolean;
+  restore: () => void;
+}
+
+interface PendingDelete extends ScheduledDelete {
+  timer: ReturnType<typeof setTimeout>;
+  resolve: (outcome: DeleteOutcome) => void;
+}
+
+const pending = new Map<string, PendingDelete>();
+let started = false;
+
+const keyOf = (kind: EntityKind, id: number) => `${kind}:${id}`;
+
+const run = async (key: string) => {
+  const entry = pending.get(key);
+  if (!entry) return;
+  pending.delete(key);
+  clearTimeout(entry.timer);
+
+  const deleted = await entry.commit();
+  entityStore.unhide(entry.kind, entry.id);
+  entry.resolve(deleted ? 'deleted' : 'failed');
+};
+
+export const undoableDeletes = {
+  /**
+   * Keep a locally applied delete from reaching the server for UNDO_POLICY.gracePeriod.
+   * Resolves once it was sent, undone or rejected.
+   */
+  schedule: (change: ScheduledDelete): Promise<DeleteOutcome> => {
+    const key = keyOf(change.kind, change.id);
+    entityStore.hide(change.kind, change.id);
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => run(key), UNDO_POLICY.gracePeriod);
+      pending.set(key, { ...change, timer, resolve });
+    });
+  },
+
+  /**
+   * Cancel a scheduled delete and put the record back (no-op once it was sent)
+   */
+  undo: (kind: EntityKind, id: number): boolean => {
+    const key = keyOf(kind, id);
+    const entry = pending.get(key);
+    if (!entry) return false;
+
+    pending.delete(key);
+    clearTimeout(entry.timer);
+    entityStore.unhide(kind, id);
+    entry.restore();
+    entry.resolve('undone');
+    return true;
+  },
+
+  /**
+   * Send a scheduled delete now instead of waiting for the grace period
+   */
+  commitNow: (kind: EntityKind, id: number) => {
+    run(keyOf(kind, id));
+  },
+
+  /**
+   * Drop every scheduled delete without sending it (e.g. after switching to
+   * another backend - its records are gone from the store anyway)
+   */
+  clear: () => {
+    for (const entry of pending.values()) {
+      clearTimeout(entry.timer);
+      entityStore.unhide(entry.kind, entry.id);
+      entry.resolve('undone');
+    }
+    pending.clear();
+  },
+
+  /**
+   * Send the scheduled deletes right away when the page is left. They go out as
+   * keepalive requests, which the browser completes after the tab is closed; an
+   * expired token is not refreshed then, so such a delete is lost (the record
+   * simply shows up again on the next visit).
+   */
+  start: () => {
+    if (started || typeof window === 'undefined') return;
+    started = true;
+    window.addEventListener('pagehide', () => {
+      for (const [key, entry] of [...pending.entries()]) {
+        if (entry.commitOnPageExit?.()) {
+          pending.delete(key);
+          clearTimeout(entry.timer);
+          entry.resolve('deleted');
+        } else {
+          run(key);
+        }
+      }
+    });
+  },
+};
+
+export default undoableDeletes;
@@ -3,11 +3,14 @@
 // ============================================
 
 /**
- * Publisher as returned by API (nested in Book)
+ * Publisher as returned by API
+ * When fetching from /publishers, includes books array (like authors)
+ * When nested in Book response, books array is omitted
  */
 export interface Publisher {
   id: number;
   name: string;
+  books?: NestedBook[]; // Present in GET /publishers
 }
 
 /**
@@ -18,7 +21,8 @@ export interface Publisher {
 export interface Author {
   id: number;
   name: string;
-  books?: Book[]; // Present in GET /authors, avoid displaying full nested books
+  books?: NestedBook[]; // Present in GET /authors, avoid displaying full nested books
+  version?: string; // Concurrency token (ETag) - sent back as If-Match on updates
 }
 
 /**
@@ -49,6 +53,48 @@ export interface Book {
   author: Author; // ALWAYS present in API response
   publisher?: Publisher | null; // May be null
   details?: BookDetails | null; // Extended metadata from Google Books
+  version?: string; // Concurrency token (ETag) - sent back as If-Match on updates
+}
+
+/**
+ * Book nested in GET /authors and GET /publishers - partial (no author/publisher
+ * objects), and any field but id and title may be missing
+ */
+export interface NestedBook {
+  id: number;
+  title: string;
+  isbn?: string;
+  year?: number;
+  authorId?: number;
+  publisherId?: number | null;
+  author?: Author; // Only on books rebuilt from the entity store (selectPublisher), never in responses
+}
+
+// ============================================
+// PAGINATION TYPES
+// ============================================
+
+export type BookSortField = 'title' | 'year' | 'id'; // 'id' = recently added
+
+/**
+ * Query parameters of the paged GET /books?page=&pageSize=&search=&sortBy=&sortOrder=
+ */
+export interface BookPageQuery {
+  page: number; // 1-based
+  pageSize: number;
+  search?: string; // Matches title, ISBN or author name
+  sortBy?: BookSortField;
+  sortOrder?: 'asc' | 'desc';
+}
+
+/**
+ * One page of a list endpoint
+ */
+export interface PagedResult<T> {
+  items: T[];
+  page: number;
+  pageSize: number;
+  totalCount: number; // Items matching the query across all pages
 }
 
 // ============================================
@@ -101,6 +147,67 @@ export interface UpdateAuthorDTO {
   name: string;
 }
 
+export interface CreatePublisherDTO {
+  name: string;
+}
+
+export interface UpdatePublisherDTO {
+  name: string;
+}
+
+// ============================================
+// AUTH TYPES
+// ============================================
+
+/**
+ * Signed-in user as returned by the auth endpoints
+ */
+export interface AuthUser {
+  id: number;
+  username: string;
+  displayName?: string | null;
+}
+
+export interface LoginDTO {
+  username: string;
+  password: string;
+}
+
+/**
+ * Returned by POST /auth/login and POST /auth/refresh.
+ * Refresh tokens are single-use - every refresh returns a new pair.
+ */
+export interface AuthResponse {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number; // Access token lifetime in seconds
+  user: AuthUser;
+}
+
+// ============================================
+// LIVE EVENTS (GET /events, server-sent)
+// ============================================
+
+export type CatalogEventType =
+  | 'book.created'
+  | 'book.updated'
+  | 'book.deleted'
+  | 'author.created'
+  | 'author.updated'
+  | 'author.deleted';
+
+/**
+ * A catalog change pushed by the server. Created/updated events carry the
+ * record as GET would return it; deleted events only the id.
+ */
+export interface CatalogEvent {
+  type: CatalogEventType;
+  id: number;
+  book?: Book;
+  author?: Author;
+  occurredAt?: string; // ISO timestamp
+}
+
 // ============================================
 // DISPLAY TYPES (Frontend-only, transformed data)
 // ============================================
@@ -155,10 +262,43 @@ export const transformAuthor = (author: Author): AuthorDisplay => ({
   recentBooks: author.books?.slice(0, 3).map(b => b.title) || [],
 });
 
+/**
+ * ASP.NET Core ProblemDetails error body (RFC 9457).
+ * Model validation failures add an `errors` map of field name -> messages,
+ * with field names as the backend spells them (e.g. "Title", "$.year").
+ */
+export interface ProblemDetails {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string;
+  traceId?: string;
+  errors?: Record<string, string[]>;
+}
+
+/**
+ * What went wrong, independent of how the backend phrased it
+ */
+export type APIErrorKind =
+  | 'network' // No response - offline, DNS, CORS, server down
+  | 'timeout'
+  | 'cancelled' // Aborted through its AbortSignal
+  | 'unauthorized' // 401/403
+  | 'validation' // 400/422
+  | 'not-found' // 404
+  | 'conflict' // 409/412 - duplicate or changed on the server
+  | 'server' // 5xx
+  | 'contract' // Response did not match types/api.ts
+  | 'unknown';
+
 export interface APIError {
   message: string;
+  kind: APIErrorKind;
   status?: number;
   details?: string;
+  fieldErrors?: Record<string, string>; // Server-side field messages, keyed by camelCase field name
+  isColdStart?: boolean; // Backend was still waking up when retries ran out
 }
 
 export interface APIResponse<T> {